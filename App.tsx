@@ -1,150 +1,594 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { DiagnosticStatus, AudioMetrics, MachineStandard, HistoryEntry } from './types';
-import { MACHINE_STANDARDS, CALIBRATION_STORAGE_KEY, DEFAULT_CALIBRATION_OFFSET } from './constants';
+import { DiagnosticStatus, AudioClip, AudioMetrics, MachineStandard, HistoryEntry, MeasurementSummary, TimeWeighting, BandResolution, BandSpectrum, MachineBaseline, BaselineComparison, CalibrationProfile, CaptureSettings, CompletedRun, InputDevice, PointResult, ProtocolPhase, ProtocolRun, ResponsePoint, RunKind, BackgroundLevel, BackgroundCorrection, BackgroundValidity, CalibrationSnapshot, OutboxItem, SyncSettings, SyncState } from './types';
+import { MACHINE_STANDARDS, ASSET_LINK_PARAM, CALIBRATION_STORAGE_KEY, LEGACY_CALIBRATION_STORAGE_KEY, DEFAULT_CALIBRATION_OFFSET, TIME_WEIGHTING_CONSTANTS, STATUS_STYLES, CALIBRATION_STATE_STYLES, REFERENCE_RUN_STYLES, BACKGROUND_VALIDITY_STYLES, BACKGROUND_MIN_DIFFERENCE_DB } from './constants';
 import { AudioProcessor } from './services/audioService';
-import FrequencyVisualizer from './components/FrequencyVisualizer';
+import { weightingUnit } from './services/weighting';
+import { bandsFor, formatBandFrequency } from './services/octaveBands';
+import { compareToBaseline, createBaseline, loadBaselines, storeBaselines, worstStatus } from './services/baseline';
+import { createBlankMachine, duplicateMachine, exportCatalogue, findMachineByAssetTag, loadCustomMachines, mergeCatalogue, parseCatalogue, storeCustomMachines } from './services/machineRegistry';
+import { downloadFile } from './services/download';
+import { describeError } from './services/errors';
+import { addHistoryEntry, getMachineHistory } from './services/historyStore';
+import { loadTechnician, storeTechnician } from './services/report';
+import { loadSyncSettings, storeSyncSettings } from './services/sync';
+import { describeCaptureError, listInputDevices, loadSelectedInputDevice, storeSelectedInputDevice, unverifiedProcessing } from './services/inputDevices';
+import { applyBackground, backgroundCorrection } from './services/background';
+import { advancePhase, combineSummaries, createProtocolRun, describeProtocol, enterStep, protocolFor, summarizePoints } from './services/protocol';
+import { compareSnapshots } from './services/spectrumSnapshot';
+import { calibrationSnapshot, calibrationState, loadCalibrationProfiles, loadLastInputDevice, profileForDevice, storeCalibrationProfiles, storeLastInputDevice, upsertProfile } from './services/calibration';
+import FrequencyVisualizer, { BandView, ComparisonView } from './components/FrequencyVisualizer';
+import Spectrogram from './components/Spectrogram';
 import MetricCard from './components/MetricCard';
-
-const HISTORY_STORAGE_KEY = 'acoustic_tool_history_v1';
+import BaselinePanel from './components/BaselinePanel';
+import TonalPanel from './components/TonalPanel';
+import ReferenceComparison from './components/ReferenceComparison';
+import MachineCatalogue from './components/MachineCatalogue';
+import MachineEditor from './components/MachineEditor';
+import HistoryLog from './components/HistoryLog';
+import DosimetryPanel from './components/DosimetryPanel';
+import CalibrationWizard from './components/CalibrationWizard';
+import InputSettings from './components/InputSettings';
+import ResponseCurvePanel from './components/ResponseCurvePanel';
+import ProtocolPanel from './components/ProtocolPanel';
+import MachineTrend from './components/MachineTrend';
+import SyncPanel from './components/SyncPanel';
+import AssetScanner from './components/AssetScanner';
+import MonitorPanel from './components/MonitorPanel';
+import { useRecordSync } from './components/useRecordSync';
+import { useServiceWorker } from './components/useServiceWorker';
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'machines' | 'history'>('machines');
+  const [activeTab, setActiveTab] = useState<'machines' | 'history' | 'dosimetry'>('machines');
+  const [isDosing, setIsDosing] = useState(false); // A dosimetry session keeps the microphone; navigation waits for it
   const [selectedMachine, setSelectedMachine] = useState<MachineStandard | null>(null);
   const [isMeasuring, setIsMeasuring] = useState(false);
   const [hasFinishedTest, setHasFinishedTest] = useState(false);
   const [metrics, setMetrics] = useState<AudioMetrics>({
     db: 0,
     peakFrequency: 0,
+    snr: 0,
     isStable: false,
     status: DiagnosticStatus.IDLE
   });
-  const [freqData, setFreqData] = useState<Uint8Array>(new Uint8Array(0));
+  const [freqData, setFreqData] = useState<Float32Array>(new Float32Array(0));
+  const [bandSpectrum, setBandSpectrum] = useState<BandSpectrum | null>(null);
+  const [spectrumView, setSpectrumView] = useState<'FFT' | 'WATERFALL' | 'COMPARE' | BandResolution>('FFT');
+  const [sampleRate, setSampleRate] = useState(0);
   const [calibrationOffset, setCalibrationOffset] = useState<number>(() => {
     const saved = localStorage.getItem(CALIBRATION_STORAGE_KEY);
-    return saved ? parseFloat(saved) : DEFAULT_CALIBRATION_OFFSET;
-  });
-  const [history, setHistory] = useState<HistoryEntry[]>(() => {
-    const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
-    return saved ? JSON.parse(saved) : [];
+    if (saved) return parseFloat(saved);
+    // v1 offsets were applied on top of a fixed +100 dB
+    const legacy = localStorage.getItem(LEGACY_CALIBRATION_STORAGE_KEY);
+    return legacy ? parseFloat(legacy) + 100 : DEFAULT_CALIBRATION_OFFSET;
   });
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [technician, setTechnician] = useState<string>(loadTechnician);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(loadSyncSettings);
+  const recordSync = useRecordSync(syncSettings);
+  const offlineError = useServiceWorker();
+  const unsynced = recordSync.outbox.filter(item => item.state === SyncState.PENDING).length;
+  const syncAttention = recordSync.outbox.some(item => item.state !== SyncState.PENDING);
+  // With no endpoint every record stays queued, which is nothing to flag
+  const showSyncBadge = !recordSync.online || (!!syncSettings.endpoint && (unsynced > 0 || syncAttention));
   const [showSettings, setShowSettings] = useState(false);
-  const [countdown, setCountdown] = useState<number | null>(null);
+  const [protocolRun, setProtocolRun] = useState<ProtocolRun | null>(null);
+  const [points, setPoints] = useState<PointResult[]>([]);
+  // Machine-off levels for this session; the shop floor changes too quickly to keep them longer
+  const [backgrounds, setBackgrounds] = useState<Record<string, BackgroundLevel>>({});
+  const [correction, setCorrection] = useState<BackgroundCorrection | null>(null);
+  const [summary, setSummary] = useState<MeasurementSummary | null>(null);
+  const [timeWeighting, setTimeWeighting] = useState<TimeWeighting>(TimeWeighting.FAST);
+  const [baselines, setBaselines] = useState<Record<string, MachineBaseline>>(loadBaselines);
+  const [runKind, setRunKind] = useState<RunKind>(RunKind.DIAGNOSTIC);
+  const [comparison, setComparison] = useState<BaselineComparison | null>(null);
+  const [referenceRecords, setReferenceRecords] = useState<HistoryEntry[]>([]); // Same machine and weighting, with a spectrum
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  const [measurementError, setMeasurementError] = useState<string | null>(null); // Why the last run broke off
+  const [referenceId, setReferenceId] = useState<string | null>(null);
+  const [showDifference, setShowDifference] = useState(false);
+  const [currentRecordId, setCurrentRecordId] = useState<string | null>(null); // The shown result's own record, never its reference
+  const [customMachines, setCustomMachines] = useState<MachineStandard[]>(loadCustomMachines);
+  const [editing, setEditing] = useState<{ machine: MachineStandard; title: string } | null>(null);
+  const [trendMachine, setTrendMachine] = useState<MachineStandard | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isMonitoring, setIsMonitoring] = useState(false); // The monitor overlay owns the microphone while open
+  const [captureClip, setCaptureClip] = useState(false);
+  const [isAnalyzingFile, setIsAnalyzingFile] = useState(false);
+  const [calibrationProfiles, setCalibrationProfiles] = useState<CalibrationProfile[]>(loadCalibrationProfiles);
+  const [inputDeviceId, setInputDeviceId] = useState<string | null>(loadLastInputDevice);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [editingResponse, setEditingResponse] = useState<CalibrationProfile | null>(null);
+  const [inputDevices, setInputDevices] = useState<InputDevice[]>([]);
+  const [inputDevicesError, setInputDevicesError] = useState<string | null>(null);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string>(loadSelectedInputDevice);
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings | null>(null);
 
-  const audioProcessorRef = useRef<AudioProcessor | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const metricsRef = useRef<AudioMetrics>(metrics);
+  const machines = [...MACHINE_STANDARDS, ...customMachines];
+  // The picked input, or whichever one the system default resolved to last time
+  const activeDeviceId = selectedDeviceId || inputDeviceId;
+  const activeProfile = profileForDevice(calibrationProfiles, activeDeviceId);
+  const unverified = captureSettings ? unverifiedProcessing(captureSettings) : [];
+  const activeCalibration = calibrationState(activeProfile);
 
-  // Keep metricsRef updated for the save logic
-  useEffect(() => {
-    metricsRef.current = metrics;
-  }, [metrics]);
+  const audioProcessorRef = useRef<AudioProcessor | null>(null);
+  const audioFileInputRef = useRef<HTMLInputElement>(null);
+  const pendingClipRef = useRef<Promise<AudioClip | null> | null>(null);
+  const runCalibrationRef = useRef<CalibrationSnapshot | null>(null);
+  const windowRef = useRef<Promise<MeasurementSummary | null> | null>(null); // Open window, until the clock takes it up
+  const stoppingRef = useRef(false); // Stop pressed: a window ending meanwhile finishes the measurement instead of moving on
 
-  const saveToHistory = useCallback((machine: MachineStandard, finalMetrics: AudioMetrics) => {
+  const saveToHistory = useCallback((
+    machine: MachineStandard,
+    result: MeasurementSummary,
+    mode: TimeWeighting,
+    deviation: BaselineComparison | null,
+    clip: AudioClip | null,
+    details: Pick<HistoryEntry, 'sourceFile' | 'points' | 'background' | 'calibration'> = {}
+  ) => {
     const newEntry: HistoryEntry = {
       id: crypto.randomUUID(),
       machineId: machine.id,
       machineName: machine.name,
       timestamp: Date.now(),
-      status: finalMetrics.status,
-      db: finalMetrics.db,
-      peakFrequency: finalMetrics.peakFrequency
+      status: result.status,
+      db: result.leq,
+      peakFrequency: result.peakFrequency,
+      weighting: machine.weighting,
+      timeWeighting: mode,
+      levels: {
+        leq: result.leq,
+        lmax: result.lmax,
+        lmin: result.lmin,
+        l10: result.l10,
+        l50: result.l50,
+        l90: result.l90
+      },
+      bands: result.bands,
+      spectrum: result.spectrum,
+      exceededBands: result.exceededBands,
+      tonal: result.tonal,
+      baseline: deviation ?? undefined,
+      clip: clip ? { sampleRate: clip.sampleRate, durationMs: clip.durationMs } : undefined,
+      technician: technician.trim() || undefined,
+      assetTag: machine.assetTag,
+      location: machine.location,
+      ...details
+    };
+    setCurrentRecordId(newEntry.id);
+    addHistoryEntry(newEntry, clip?.wav)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => alert(`This diagnostic result could not be saved to the log (${describeError(err)}).`));
+  }, [technician]);
+
+  // Earlier records of the open machine that a finished run can be laid over
+  useEffect(() => {
+    if (!selectedMachine) {
+      setReferenceRecords([]);
+      return;
+    }
+    let cancelled = false;
+    getMachineHistory(selectedMachine.id)
+      .then(entries => {
+        if (cancelled) return;
+        setReferenceRecords(entries.filter(e => e.spectrum && e.weighting === selectedMachine.weighting).reverse());
+        setReferenceError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setReferenceError(`Earlier records could not be loaded (${describeError(err)}).`);
+      });
+    return () => {
+      cancelled = true;
     };
-    const updatedHistory = [newEntry, ...history].slice(0, 50); // Keep last 50
-    setHistory(updatedHistory);
-    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updatedHistory));
-  }, [history]);
+  }, [selectedMachine, historyVersion]);
+
+  const refreshInputDevices = useCallback(() => {
+    listInputDevices()
+      .then(devices => {
+        setInputDevices(devices);
+        setInputDevicesError(null);
+      })
+      .catch(err => setInputDevicesError(`The audio inputs could not be listed (${describeError(err)}).`));
+  }, []);
 
-  const startMeasurement = async () => {
+  useEffect(() => {
+    refreshInputDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshInputDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshInputDevices);
+  }, [refreshInputDevices]);
+
+  const selectInputDevice = (deviceId: string) => {
+    setSelectedDeviceId(deviceId);
+    storeSelectedInputDevice(deviceId);
+    setCaptureSettings(null);
+  };
+
+  // Opens the diagnostic window as soon as a run starts measuring; the analysis worker closes it
+  const applyProtocolRun = useCallback((run: ProtocolRun) => {
+    const processor = audioProcessorRef.current;
+    if (run.phase === ProtocolPhase.MEASURE && processor && selectedMachine) {
+      windowRef.current = processor.measureWindow(selectedMachine, run.protocol.durationSeconds, run.keepClip && run.index === 0);
+    }
+    setProtocolRun(run);
+  }, [selectedMachine]);
+
+  const startMeasurement = async (kind: RunKind = RunKind.DIAGNOSTIC) => {
     if (!selectedMachine) return;
+    setMeasurementError(null);
     
     try {
-      const processor = new AudioProcessor(calibrationOffset);
-      await processor.initialize();
+      const processor = new AudioProcessor(calibrationOffset, selectedMachine.weighting, timeWeighting);
+      await processor.initialize(selectedDeviceId || undefined);
+      setCaptureSettings(processor.getCaptureSettings());
+      setSampleRate(processor.getSampleRate());
+      // Labels only become readable once permission has been granted
+      refreshInputDevices();
+      // A profile for the opened microphone overrides the manual full-scale level
+      const input = processor.getInputDevice();
+      const profile = input ? profileForDevice(calibrationProfiles, input.deviceId) : undefined;
+      if (input) {
+        setInputDeviceId(input.deviceId);
+        storeLastInputDevice(input.deviceId);
+      }
+      if (profile) {
+        processor.setCalibration(profile.offset);
+        processor.setResponseCorrection(profile.responseCurve ?? null);
+      }
+      runCalibrationRef.current = calibrationSnapshot(profile, calibrationOffset);
       audioProcessorRef.current = processor;
+      stoppingRef.current = false;
+      setSummary(null);
+      setComparison(null);
+      setCurrentRecordId(null);
+      setPoints([]);
+      setCorrection(null);
+      setRunKind(kind);
       setIsMeasuring(true);
       setHasFinishedTest(false);
-      setCountdown(10); // 10 second diagnostic window per PRD
+      const protocol = protocolFor(selectedMachine);
+      // Background is a single run; with the machine off there is nothing to compare between positions
+      const runProtocol = kind === RunKind.BACKGROUND ? { ...protocol, repeats: 1, positions: [] } : protocol;
+      // Only diagnostic runs become records, so only they have something to attach a clip to
+      applyProtocolRun(createProtocolRun(runProtocol, captureClip && kind === RunKind.DIAGNOSTIC));
     } catch (err) {
-      alert("Microphone access is required for acoustic diagnostics.");
+      alert(describeCaptureError(err));
     }
   };
 
-  const stopMeasurement = useCallback(() => {
-    if (audioProcessorRef.current) {
-      audioProcessorRef.current.stop();
+  // Grades a finished window against the machine's baseline and puts the verdict on screen
+  const showDiagnosis = useCallback((machine: MachineStandard, result: MeasurementSummary) => {
+    const baseline = baselines[machine.id];
+    const deviation = baseline && baseline.weighting === machine.weighting
+      ? compareToBaseline(result, baseline)
+      : null;
+    const graded = { ...result, status: worstStatus(result.status, deviation?.status ?? DiagnosticStatus.NORMAL) };
+    setSummary(graded);
+    setComparison(deviation);
+    setBandSpectrum(result.bands);
+    setMetrics(prev => ({ ...prev, db: result.leq, peakFrequency: result.peakFrequency, status: graded.status }));
+    return { graded, deviation };
+  }, [baselines]);
+
+  // Combines every finished run into one verdict and releases the microphone
+  const finishProtocol = useCallback((results: CompletedRun[]) => {
+    const processor = audioProcessorRef.current;
+    if (processor) {
+      const background = selectedMachine && runKind !== RunKind.BACKGROUND ? backgrounds[selectedMachine.id] : undefined;
+      // Each run is corrected on its own, so the worst run still decides the verdict
+      const corrected = background && selectedMachine
+        ? results.map(r => ({ ...r, summary: applyBackground(selectedMachine, r.summary, background) }))
+        : results;
+      // Verdict comes from whole windows, not the last animation frame
+      const result = selectedMachine && corrected.length > 0
+        ? combineSummaries(corrected.map(r => r.summary))
+        : null;
+      const runCorrection = background && results.length > 0
+        ? backgroundCorrection(combineSummaries(results.map(r => r.summary)).leq, background)
+        : null;
+      const runPoints = summarizePoints(corrected);
+      const mode = processor.getTimeWeighting();
       audioProcessorRef.current = null;
-    }
-    
-    // Save current metrics before states change
-    if (isMeasuring && selectedMachine) {
-      saveToHistory(selectedMachine, metricsRef.current);
+      // The recorder's last samples arrive asynchronously, so the graph stays up until they are in
+      const clipReady = (pendingClipRef.current ?? processor.finishRecording())
+        .catch(err => {
+          alert(`The audio clip could not be captured (${describeError(err)}).`);
+          return null;
+        })
+        .finally(() => processor.stop());
+      pendingClipRef.current = null;
+      setPoints(runPoints);
+      setCorrection(runCorrection);
+
+      if (result && selectedMachine && runKind === RunKind.BACKGROUND) {
+        // Applies to the diagnostic and baseline runs that follow, never stored as a record itself
+        setBackgrounds(prev => ({ ...prev, [selectedMachine.id]: { machineId: selectedMachine.id, leq: result.leq, measuredAt: Date.now() } }));
+        setSummary(result);
+        setBandSpectrum(result.bands);
+        setMetrics(prev => ({ ...prev, db: result.leq, peakFrequency: result.peakFrequency, status: DiagnosticStatus.IDLE }));
+      } else if (result && selectedMachine && runKind === RunKind.BASELINE) {
+        // Healthy reference only; it is not itself a diagnostic record
+        const updated = { ...baselines, [selectedMachine.id]: createBaseline(selectedMachine, result) };
+        setBaselines(updated);
+        storeBaselines(updated);
+        setSummary(result);
+        setBandSpectrum(result.bands);
+        setMetrics(prev => ({ ...prev, db: result.leq, peakFrequency: result.peakFrequency, status: DiagnosticStatus.IDLE }));
+      } else if (result && selectedMachine) {
+        const { graded, deviation } = showDiagnosis(selectedMachine, result);
+        const machine = selectedMachine;
+        const details = {
+          points: runPoints.length > 0 ? runPoints : undefined,
+          background: runCorrection ?? undefined,
+          calibration: runCalibrationRef.current ?? undefined
+        };
+        clipReady.then(clip => saveToHistory(machine, graded, mode, deviation, clip, details));
+      }
     }
 
     setIsMeasuring(false);
-    setCountdown(null);
+    setProtocolRun(null);
     setHasFinishedTest(true);
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
+  }, [selectedMachine, saveToHistory, runKind, backgrounds, baselines, showDiagnosis]);
+
+  // Stopping early keeps the finished runs and as much of the current one as was measured
+  const stopMeasurement = useCallback(async () => {
+    const processor = audioProcessorRef.current;
+    stoppingRef.current = true;
+    const results = protocolRun?.results ?? [];
+    const partial = processor && selectedMachine && protocolRun?.phase === ProtocolPhase.MEASURE
+      ? await processor.finishWindow(selectedMachine)
+      : null;
+    // The protocol clock may have finished the measurement while the window closed
+    if (audioProcessorRef.current !== processor) return;
+    finishProtocol(partial && protocolRun
+      ? [...results, { position: protocolRun.steps[protocolRun.index].position, summary: partial }]
+      : results);
+  }, [protocolRun, selectedMachine, finishProtocol]);
+
+  const analyzeAudioFile = async (file: File) => {
+    if (!selectedMachine) return;
+    const machine = selectedMachine;
+    const processor = new AudioProcessor(calibrationOffset, machine.weighting, timeWeighting);
+    setIsAnalyzingFile(true);
+    setSummary(null);
+    setComparison(null);
+    setCurrentRecordId(null);
+    setPoints([]);
+    setCorrection(null);
+    setRunKind(RunKind.DIAGNOSTIC);
+    setHasFinishedTest(false);
+    try {
+      const result = await processor.analyzeFile(file, machine);
+      if (!result) throw new Error('File produced no samples');
+      const { graded, deviation } = showDiagnosis(machine, result);
+      setHasFinishedTest(true);
+      saveToHistory(machine, graded, processor.getTimeWeighting(), deviation, null, {
+        sourceFile: file.name,
+        calibration: calibrationSnapshot(undefined, calibrationOffset)
+      });
+    } catch (err) {
+      alert(`This file could not be decoded or analyzed (${describeError(err)}).`);
+    } finally {
+      processor.stop();
+      setIsAnalyzingFile(false);
     }
-  }, [isMeasuring, selectedMachine, saveToHistory]);
+  };
 
   const resetToMenu = () => {
     stopMeasurement();
+    setMeasurementError(null);
     setSelectedMachine(null);
     setHasFinishedTest(false);
+    setSummary(null);
+    setComparison(null);
+    setCurrentRecordId(null);
+    setPoints([]);
+    setCorrection(null);
+    setRunKind(RunKind.DIAGNOSTIC);
+    setBandSpectrum(null);
     setMetrics({
       db: 0,
       peakFrequency: 0,
+      snr: 0,
       isStable: false,
       status: DiagnosticStatus.IDLE
     });
   };
 
-  const clearHistory = () => {
-    if (confirm("Clear all diagnostic records?")) {
-      setHistory([]);
-      localStorage.removeItem(HISTORY_STORAGE_KEY);
+  // Live view follows the worker's throttled updates; the measurement itself never waits on rendering
+  useEffect(() => {
+    const processor = audioProcessorRef.current;
+    if (!isMeasuring || !selectedMachine || !processor) return;
+    return processor.subscribe(update => {
+      setMetrics(update.metrics);
+      setFreqData(update.spectrum);
+      setBandSpectrum(update.bands);
+    }, selectedMachine);
+  }, [isMeasuring, selectedMachine]);
+
+  // Protocol clock: counts down settle phases and the displayed measuring time, then moves to the next step
+  useEffect(() => {
+    if (!protocolRun || protocolRun.phase === ProtocolPhase.POSITION) return;
+
+    const processor = audioProcessorRef.current;
+    const closing = windowRef.current;
+    // Each window is followed once; the countdown re-renders the run every second
+    if (protocolRun.phase === ProtocolPhase.MEASURE && processor && closing) {
+      windowRef.current = null;
+      const run = protocolRun;
+      closing
+        .then(summary => {
+          // Stopped by hand in the meantime
+          if (audioProcessorRef.current !== processor) return;
+          // Only the first run records audio
+          if (run.index === 0) pendingClipRef.current = processor.finishRecording();
+          const results = summary
+            ? [...run.results, { position: run.steps[run.index].position, summary }]
+            : run.results;
+          const next = run.index + 1;
+          if (next < run.steps.length && !stoppingRef.current) applyProtocolRun(enterStep({ ...run, results }, next));
+          else finishProtocol(results);
+        })
+        .catch(err => {
+          if (audioProcessorRef.current !== processor) return;
+          audioProcessorRef.current = null;
+          processor.stop();
+          pendingClipRef.current = null;
+          setIsMeasuring(false);
+          setProtocolRun(null);
+          setMeasurementError(`The measurement could not be completed (${describeError(err)}). Start it again.`);
+        });
     }
+
+    // The window ends on the audio clock, so a countdown that lags behind it only delays the display
+    if (protocolRun.remaining > 0) {
+      const timer = setTimeout(() => setProtocolRun(prev => prev && { ...prev, remaining: prev.remaining - 1 }), 1000);
+      return () => clearTimeout(timer);
+    }
+    if (protocolRun.phase === ProtocolPhase.SETTLE) applyProtocolRun(advancePhase(protocolRun));
+  }, [protocolRun, applyProtocolRun, finishProtocol]);
+
+  // Weighting of the running chain if any, else the one the selected standard will use
+  const activeWeighting = audioProcessorRef.current?.getWeighting() ?? selectedMachine?.weighting ?? null;
+
+  const selectMachine = (machine: MachineStandard) => {
+    setSelectedMachine(machine);
+    setSpectrumView(machine.bandLimits?.resolution ?? 'FFT');
   };
 
+  // Null once the scanned tag has opened its machine
+  const openByAssetTag = (tag: string): string | null => {
+    const machine = findMachineByAssetTag(machines, tag);
+    if (!machine) return `No machine is tagged "${tag}". Add the tag to it in the catalogue first.`;
+    setIsScanning(false);
+    setActiveTab('machines');
+    selectMachine(machine);
+    return null;
+  };
+
+  // A link such as a QR label pointing at ?asset=P-101 opens that machine straight away
   useEffect(() => {
-    if (isMeasuring && selectedMachine && audioProcessorRef.current) {
-      const update = () => {
-        if (audioProcessorRef.current) {
-          const newMetrics = audioProcessorRef.current.getMetrics(selectedMachine);
-          setMetrics(newMetrics);
-          setFreqData(audioProcessorRef.current.getFrequencyData());
-          animationFrameRef.current = requestAnimationFrame(update);
-        }
-      };
-      update();
+    const url = new URL(window.location.href);
+    const tag = url.searchParams.get(ASSET_LINK_PARAM);
+    if (!tag) return;
+    const error = openByAssetTag(tag);
+    if (error) alert(error);
+    url.searchParams.delete(ASSET_LINK_PARAM);
+    window.history.replaceState(null, '', url);
+  }, []);
+
+  const updateCustomMachines = (next: MachineStandard[]) => {
+    setCustomMachines(next);
+    storeCustomMachines(next);
+  };
+
+  const saveMachine = (machine: MachineStandard) => {
+    const exists = customMachines.some(m => m.id === machine.id);
+    updateCustomMachines(exists
+      ? customMachines.map(m => (m.id === machine.id ? machine : m))
+      : [...customMachines, machine]);
+    setEditing(null);
+  };
+
+  const deleteMachine = (machine: MachineStandard) => {
+    if (!confirm(`Delete "${machine.name}" from the catalogue?`)) return;
+    updateCustomMachines(customMachines.filter(m => m.id !== machine.id));
+    if (baselines[machine.id]) {
+      const { [machine.id]: _removed, ...rest } = baselines;
+      setBaselines(rest);
+      storeBaselines(rest);
     }
-    return () => {
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-    };
-  }, [isMeasuring, selectedMachine]);
+  };
 
-  useEffect(() => {
-    let timer: any;
-    if (countdown !== null && countdown > 0) {
-      timer = setInterval(() => setCountdown(prev => (prev !== null ? prev - 1 : null)), 1000);
-    } else if (countdown === 0) {
-      stopMeasurement();
+  const importMachines = async (file: File) => {
+    try {
+      const imported = parseCatalogue(await file.text());
+      updateCustomMachines(mergeCatalogue(customMachines, imported));
+      alert(`Imported ${imported.length} machine${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      alert(`Import failed: ${(err as Error).message}`);
     }
-    return () => clearInterval(timer);
-  }, [countdown, stopMeasurement]);
+  };
+
+  const exportMachines = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`machine-catalogue-${date}.json`, exportCatalogue(customMachines), 'application/json');
+  };
+
+  const buildBandView = (): BandView | undefined => {
+    if (spectrumView === 'FFT' || spectrumView === 'WATERFALL' || spectrumView === 'COMPARE' || !bandSpectrum || !selectedMachine) return undefined;
+    const bands = bandsFor(spectrumView);
+    const limits = selectedMachine.bandLimits?.resolution === spectrumView ? selectedMachine.bandLimits.maxLevels : undefined;
+    return {
+      title: spectrumView === BandResolution.OCTAVE ? 'OCTAVE BANDS' : '1/3 OCTAVE BANDS',
+      nominals: bands.map(b => b.nominal),
+      levels: spectrumView === BandResolution.OCTAVE ? bandSpectrum.octave : bandSpectrum.thirdOctave,
+      envelope: limits && bands.map(b => limits[b.nominal])
+    };
+  };
+
+  const references = referenceRecords.filter(entry => entry.id !== currentRecordId);
+  const reference = references.find(entry => entry.id === referenceId) ?? references[0];
+
+  // The finished result's spectrum against the chosen earlier record
+  const buildComparisonView = (): ComparisonView | undefined => {
+    if (spectrumView !== 'COMPARE' || !summary || isMeasuring || !reference?.spectrum) return undefined;
+    const spectra = compareSnapshots(summary.spectrum, reference.spectrum);
+    if (!spectra) return undefined;
+    return {
+      title: `${showDifference ? 'DIFFERENCE' : 'OVERLAY'} VS ${new Date(reference.timestamp).toLocaleDateString()}`,
+      spectra,
+      difference: showDifference
+    };
+  };
 
   const handleCalibrationChange = (val: string) => {
     const num = parseFloat(val);
     setCalibrationOffset(num);
     localStorage.setItem(CALIBRATION_STORAGE_KEY, val);
-    if (audioProcessorRef.current) {
+    if (audioProcessorRef.current && !activeProfile) {
       audioProcessorRef.current.setCalibration(num);
     }
   };
 
+  const saveCalibrationProfile = (profile: CalibrationProfile) => {
+    // Recalibrating the sensitivity keeps the device's measured response curve
+    const previous = profileForDevice(calibrationProfiles, profile.deviceId);
+    const updated = upsertProfile(calibrationProfiles, { ...profile, responseCurve: profile.responseCurve ?? previous?.responseCurve });
+    setCalibrationProfiles(updated);
+    storeCalibrationProfiles(updated);
+    setInputDeviceId(profile.deviceId);
+    storeLastInputDevice(profile.deviceId);
+    setIsCalibrating(false);
+  };
+
+  const saveResponseCurve = (curve: ResponsePoint[] | undefined) => {
+    if (!editingResponse) return;
+    const updated = calibrationProfiles.map(p => (p.id === editingResponse.id ? { ...p, responseCurve: curve } : p));
+    setCalibrationProfiles(updated);
+    storeCalibrationProfiles(updated);
+    setEditingResponse(null);
+  };
+
+  const deleteCalibrationProfile = (profile: CalibrationProfile) => {
+    if (!confirm(`Delete calibration profile "${profile.name}"?`)) return;
+    const updated = calibrationProfiles.filter(p => p.id !== profile.id);
+    setCalibrationProfiles(updated);
+    storeCalibrationProfiles(updated);
+  };
+
+  const saveSyncSettings = (settings: SyncSettings) => {
+    setSyncSettings(settings);
+    storeSyncSettings(settings);
+  };
+
+  // The server's copy replaces the local record, so the log has to reload
+  const acceptRemoteRecord = (item: OutboxItem) => {
+    recordSync.acceptRemote(item).then(applied => {
+      if (applied) setHistoryVersion(v => v + 1);
+    });
+  };
+
   return (
     <div className="max-w-md mx-auto min-h-screen flex flex-col bg-slate-950 shadow-2xl overflow-hidden relative border-x border-slate-800">
       
@@ -154,51 +598,188 @@ const App: React.FC = () => {
           <h1 className="text-xl font-black tracking-tighter text-blue-400">ACOUSTIC<span className="text-slate-100">DIAG</span></h1>
           <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest">Industrial Analysis Tool</p>
         </div>
-        <button 
-          onClick={() => setShowSettings(!showSettings)}
-          className="p-2 text-slate-400 hover:text-white transition-colors"
-        >
-          <i className={`fas ${showSettings ? 'fa-times' : 'fa-cog'} text-lg`}></i>
-        </button>
+        <div className="flex items-center gap-3">
+          {showSyncBadge && (
+            <span
+              title={recordSync.online ? `${unsynced} record(s) waiting to sync` : 'Offline: records are kept on this device'}
+              className={`text-xs font-bold flex items-center gap-1 ${syncAttention ? 'text-amber-400' : 'text-slate-500'}`}
+            >
+              <i className={`fas ${recordSync.online ? 'fa-cloud-upload-alt' : 'fa-wifi'}`}></i>
+              {!recordSync.online && 'Offline'}
+              {recordSync.online && unsynced > 0 && unsynced}
+            </span>
+          )}
+          <button 
+            onClick={() => {
+              setShowSettings(!showSettings);
+              setIsCalibrating(false);
+              setEditingResponse(null);
+            }}
+            disabled={isDosing}
+            className="p-2 text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+          >
+            <i className={`fas ${showSettings ? 'fa-times' : 'fa-cog'} text-lg`}></i>
+          </button>
+        </div>
       </header>
 
       <main className="flex-1 overflow-y-auto p-6 pb-40">
-        {showSettings ? (
+        {showSettings && isCalibrating ? (
+          <CalibrationWizard
+            deviceId={selectedDeviceId || undefined}
+            onSave={saveCalibrationProfile}
+            onCancel={() => setIsCalibrating(false)}
+          />
+        ) : showSettings && editingResponse ? (
+          <ResponseCurvePanel
+            key={editingResponse.id}
+            profile={editingResponse}
+            onSave={saveResponseCurve}
+            onCancel={() => setEditingResponse(null)}
+          />
+        ) : showSettings ? (
           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+            <div className="flex items-center gap-2 mb-4">
+              <i className="fas fa-microphone text-blue-500"></i>
+              <h2 className="text-lg font-bold">Input</h2>
+            </div>
+            <InputSettings
+              devices={inputDevices}
+              selectedDeviceId={selectedDeviceId}
+              onSelect={selectInputDevice}
+              captureSettings={captureSettings}
+              listError={inputDevicesError}
+              disabled={isMeasuring}
+            />
             <div className="flex items-center gap-2 mb-4">
               <i className="fas fa-sliders-h text-blue-500"></i>
               <h2 className="text-lg font-bold">Calibration</h2>
             </div>
+            <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-semibold">Active Microphone</span>
+                <span className={`text-xs px-2 py-1 rounded ${CALIBRATION_STATE_STYLES[activeCalibration].badge}`}>
+                  {CALIBRATION_STATE_STYLES[activeCalibration].label}
+                </span>
+              </div>
+              {activeProfile && (
+                <p className="text-xs text-slate-400">
+                  {activeProfile.name} · <span className="font-mono">{activeProfile.offset} dB</span> · {new Date(activeProfile.calibratedAt).toLocaleDateString()}
+                </p>
+              )}
+              {CALIBRATION_STATE_STYLES[activeCalibration].warning && (
+                <p className="text-xs text-amber-400/80 leading-relaxed">
+                  <i className="fas fa-exclamation-triangle mr-1"></i>
+                  {activeDeviceId ? CALIBRATION_STATE_STYLES[activeCalibration].warning : 'No microphone has been opened yet on this device.'}
+                </p>
+              )}
+              <button
+                onClick={() => setIsCalibrating(true)}
+                disabled={isMeasuring}
+                className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-all text-xs uppercase tracking-widest disabled:opacity-40"
+              >
+                <i className="fas fa-bullseye mr-2"></i>Run Calibration Wizard
+              </button>
+            </div>
+            {calibrationProfiles.length > 0 && (
+              <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-3">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Device Profiles</h3>
+                {calibrationProfiles.map(profile => {
+                  const state = calibrationState(profile);
+                  return (
+                    <div key={profile.id} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-200 truncate">
+                          {profile.name}
+                          {profile.deviceId === activeDeviceId && <span className="ml-2 text-[10px] text-blue-400 uppercase font-bold">Active</span>}
+                        </p>
+                        <p className="text-[10px] text-slate-500 font-mono">
+                          {profile.offset} dB · {new Date(profile.calibratedAt).toLocaleDateString()} · {profile.checks.length} checks
+                          {profile.responseCurve && ' · response corrected'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setEditingResponse(profile)}
+                        disabled={isMeasuring}
+                        title="Frequency response"
+                        className={`${profile.responseCurve ? 'text-blue-400' : 'text-slate-600'} hover:text-blue-300 disabled:opacity-40`}
+                      >
+                        <i className="fas fa-chart-line text-xs"></i>
+                      </button>
+                      <span className={`text-[10px] px-2 py-1 rounded ${CALIBRATION_STATE_STYLES[state].badge}`}>{CALIBRATION_STATE_STYLES[state].label}</span>
+                      <button onClick={() => deleteCalibrationProfile(profile)} className="text-slate-600 hover:text-red-400">
+                        <i className="fas fa-trash-alt text-xs"></i>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
             <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800">
-              <label className="block text-sm text-slate-400 mb-4">Sensitivity Offset (dB)</label>
+              <label className="block text-sm text-slate-400 mb-4">Manual Full-Scale Level (dB SPL at 0 dBFS)</label>
               <input 
                 type="range" 
-                min="-60" 
-                max="60" 
+                min="60" 
+                max="160" 
                 step="0.5"
                 value={calibrationOffset}
                 onChange={(e) => handleCalibrationChange(e.target.value)}
                 className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
               />
               <div className="flex justify-between mt-3 font-mono text-sm">
-                <span className="text-slate-500">-60</span>
-                <span className="text-blue-400 font-bold">{calibrationOffset > 0 ? '+' : ''}{calibrationOffset} dB</span>
-                <span className="text-slate-500">+60</span>
+                <span className="text-slate-500">60</span>
+                <span className="text-blue-400 font-bold">{calibrationOffset} dB</span>
+                <span className="text-slate-500">160</span>
               </div>
               <p className="mt-6 text-xs text-slate-500 leading-relaxed italic">
-                * Adjust this value if your phone microphone is consistently over-reporting or under-reporting dB against a reference source.
+                * Used for microphones without a calibration profile and for uploaded recordings.
               </p>
             </div>
             <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
               <div className="flex justify-between items-center">
-                <span className="text-sm font-semibold">Device Fidelity</span>
-                <span className="text-xs px-2 py-1 rounded bg-green-500/10 text-green-400">CALIBRATED</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm font-semibold">A-Weighting</span>
-                <span className="text-xs px-2 py-1 rounded bg-blue-500/10 text-blue-400">ACTIVE</span>
+                <span className="text-sm font-semibold">Frequency Weighting</span>
+                {activeWeighting ? (
+                  <span className="text-xs px-2 py-1 rounded bg-blue-500/10 text-blue-400">{activeWeighting}-WEIGHTING</span>
+                ) : (
+                  <span className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-400">PER STANDARD</span>
+                )}
               </div>
             </div>
+            <div className="flex items-center gap-2 mb-4">
+              <i className="fas fa-hard-hat text-blue-500"></i>
+              <h2 className="text-lg font-bold">Inspection</h2>
+            </div>
+            <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-2">
+              <label className="block text-sm text-slate-400">Technician</label>
+              <input
+                type="text"
+                value={technician}
+                placeholder="Name stamped on new records and reports"
+                onChange={e => {
+                  setTechnician(e.target.value);
+                  storeTechnician(e.target.value.trim());
+                }}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div className="flex items-center gap-2 mb-4">
+              <i className="fas fa-cloud-upload-alt text-blue-500"></i>
+              <h2 className="text-lg font-bold">Sync</h2>
+            </div>
+            <SyncPanel
+              settings={syncSettings}
+              onSave={saveSyncSettings}
+              outbox={recordSync.outbox}
+              online={recordSync.online}
+              syncing={recordSync.syncing}
+              lastSyncedAt={recordSync.lastSyncedAt}
+              error={recordSync.error}
+              offlineError={offlineError}
+              onSyncNow={recordSync.syncNow}
+              onKeepLocal={recordSync.keepLocal}
+              onAcceptRemote={acceptRemoteRecord}
+              onRetry={recordSync.retry}
+            />
             <button 
               onClick={() => setShowSettings(false)}
               className="w-full py-4 bg-slate-800 hover:bg-slate-700 rounded-xl font-bold transition-all text-sm uppercase tracking-widest"
@@ -206,13 +787,25 @@ const App: React.FC = () => {
               Back to Tool
             </button>
           </div>
+        ) : editing ? (
+          <MachineEditor
+            key={editing.machine.id}
+            machine={editing.machine}
+            catalogue={machines}
+            title={editing.title}
+            onSave={saveMachine}
+            onCancel={() => setEditing(null)}
+          />
+        ) : trendMachine ? (
+          <MachineTrend key={trendMachine.id} machine={trendMachine} onBack={() => setTrendMachine(null)} />
         ) : !selectedMachine ? (
           <div className="space-y-6 animate-in fade-in duration-500">
             {/* Tabs Navigation */}
             <div className="flex p-1 bg-slate-900 rounded-2xl border border-slate-800">
               <button 
                 onClick={() => setActiveTab('machines')}
-                className={`flex-1 py-3 rounded-xl text-xs font-bold uppercase tracking-widest transition-all ${
+                disabled={isDosing}
+                className={`flex-1 py-3 rounded-xl text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 ${
                   activeTab === 'machines' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'
                 }`}
               >
@@ -220,85 +813,46 @@ const App: React.FC = () => {
               </button>
               <button 
                 onClick={() => setActiveTab('history')}
-                className={`flex-1 py-3 rounded-xl text-xs font-bold uppercase tracking-widest transition-all ${
+                disabled={isDosing}
+                className={`flex-1 py-3 rounded-xl text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 ${
                   activeTab === 'history' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'
                 }`}
               >
                 <i className="fas fa-history mr-2"></i> Log
               </button>
+              <button 
+                onClick={() => setActiveTab('dosimetry')}
+                className={`flex-1 py-3 rounded-xl text-xs font-bold uppercase tracking-widest transition-all ${
+                  activeTab === 'dosimetry' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                <i className="fas fa-user-shield mr-2"></i> Dose
+              </button>
             </div>
 
             {activeTab === 'machines' ? (
-              <>
-                <div className="text-center mb-4">
-                  <h2 className="text-xl font-bold text-slate-100">Select Machine</h2>
-                  <p className="text-sm text-slate-400 mt-1">Industrial diagnostics sensor suite</p>
-                </div>
-                <div className="grid gap-3">
-                  {MACHINE_STANDARDS.map(m => (
-                    <button
-                      key={m.id}
-                      onClick={() => setSelectedMachine(m)}
-                      className="p-5 bg-slate-900 border border-slate-800 rounded-2xl text-left hover:border-blue-500/50 hover:bg-slate-800/80 transition-all group"
-                    >
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <h3 className="font-bold text-slate-200 group-hover:text-blue-400 transition-colors">{m.name}</h3>
-                          <p className="text-xs text-slate-500 font-medium uppercase mt-1">{m.category}</p>
-                        </div>
-                        <span className="text-xs font-mono font-bold text-slate-400 bg-slate-800 px-2 py-1 rounded">{m.maxDb} dB Max</span>
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              </>
+              <MachineCatalogue
+                machines={machines}
+                onScan={() => setIsScanning(true)}
+                onSelect={selectMachine}
+                onCreate={() => setEditing({ machine: createBlankMachine(), title: 'New Machine' })}
+                onEdit={m => setEditing({ machine: m, title: 'Edit Machine' })}
+                onDuplicate={m => setEditing({ machine: duplicateMachine(m), title: 'Duplicate Machine' })}
+                onDelete={deleteMachine}
+                onTrend={setTrendMachine}
+                onImport={importMachines}
+                onExport={exportMachines}
+              />
+            ) : activeTab === 'history' ? (
+              <HistoryLog machines={machines} refreshKey={historyVersion} onShowTrend={setTrendMachine} />
             ) : (
-              <div className="animate-in fade-in duration-300 space-y-4">
-                <div className="flex justify-between items-center mb-2">
-                  <h2 className="text-lg font-bold">Diagnostic Records</h2>
-                  {history.length > 0 && (
-                    <button 
-                      onClick={clearHistory}
-                      className="text-[10px] font-bold text-red-500 hover:text-red-400 uppercase tracking-widest"
-                    >
-                      Clear Log
-                    </button>
-                  )}
-                </div>
-                {history.length === 0 ? (
-                  <div className="py-20 text-center">
-                    <i className="fas fa-clipboard-list text-4xl text-slate-800 mb-4"></i>
-                    <p className="text-slate-500 font-medium">No diagnostic history available.</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {history.map(entry => (
-                      <div key={entry.id} className="bg-slate-900 border border-slate-800 p-4 rounded-2xl flex items-center gap-4">
-                        <div className={`w-2 h-12 rounded-full ${
-                          entry.status === DiagnosticStatus.NORMAL ? 'bg-emerald-500' : 'bg-red-500'
-                        }`} />
-                        <div className="flex-1">
-                          <div className="flex justify-between items-start mb-1">
-                            <h3 className="text-sm font-bold text-slate-200">{entry.machineName}</h3>
-                            <span className="text-[10px] text-slate-500 font-mono">
-                              {new Date(entry.timestamp).toLocaleDateString()} {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                            </span>
-                          </div>
-                          <div className="flex gap-3 text-xs">
-                            <span className="text-slate-400"><span className="font-mono text-slate-200">{entry.db}</span> dB(A)</span>
-                            <span className="text-slate-400"><span className="font-mono text-slate-200">{entry.peakFrequency}</span> Hz</span>
-                            <span className={`font-black uppercase tracking-tighter ml-auto ${
-                              entry.status === DiagnosticStatus.NORMAL ? 'text-emerald-500' : 'text-red-500'
-                            }`}>
-                              {entry.status}
-                            </span>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
+              <DosimetryPanel
+                deviceId={selectedDeviceId || undefined}
+                profiles={calibrationProfiles}
+                manualOffset={calibrationOffset}
+                technician={technician}
+                onRunningChange={setIsDosing}
+              />
             )}
           </div>
         ) : (
@@ -313,37 +867,106 @@ const App: React.FC = () => {
                   <i className="fas fa-chevron-left"></i> Change Machine
                 </button>
                 <h2 className="text-lg font-bold text-slate-100">{selectedMachine.name}</h2>
+                {(selectedMachine.assetTag || selectedMachine.location) && (
+                  <p className="text-[10px] text-slate-500 font-mono">
+                    {[selectedMachine.assetTag && `#${selectedMachine.assetTag}`, selectedMachine.location].filter(Boolean).join(' · ')}
+                  </p>
+                )}
               </div>
-              {countdown !== null && (
+              {protocolRun && protocolRun.phase !== ProtocolPhase.POSITION && (
                 <div className="text-right">
-                  <div className="text-2xl font-black text-blue-500 font-mono">{countdown}s</div>
-                  <div className="text-[8px] font-bold text-slate-500 uppercase tracking-tighter">Diagnostic Window</div>
+                  <div className={`text-2xl font-black font-mono ${protocolRun.phase === ProtocolPhase.SETTLE ? 'text-slate-400' : 'text-blue-500'}`}>
+                    {protocolRun.remaining}s
+                  </div>
+                  <div className="text-[8px] font-bold text-slate-500 uppercase tracking-tighter">
+                    {protocolRun.phase === ProtocolPhase.SETTLE ? 'Settling' : 'Diagnostic Window'}
+                  </div>
                 </div>
               )}
             </div>
 
+            {/* Time Weighting */}
+            <div className="flex p-1 bg-slate-900 rounded-xl border border-slate-800">
+              {Object.values(TimeWeighting).map(mode => (
+                <button
+                  key={mode}
+                  disabled={isMeasuring}
+                  onClick={() => setTimeWeighting(mode)}
+                  className={`flex-1 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all disabled:cursor-not-allowed ${
+                    timeWeighting === mode ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300 disabled:hover:text-slate-500'
+                  }`}
+                >
+                  {TIME_WEIGHTING_CONSTANTS[mode].label}
+                </button>
+              ))}
+            </div>
+
+            <label className={`flex items-center justify-between px-4 py-3 bg-slate-900 rounded-xl border border-slate-800 ${isMeasuring ? 'opacity-50' : 'cursor-pointer'}`}>
+              <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                <i className="fas fa-microphone-alt mr-2"></i>Keep Audio Clip
+              </span>
+              <input
+                type="checkbox"
+                checked={captureClip}
+                disabled={isMeasuring}
+                onChange={e => setCaptureClip(e.target.checked)}
+                className="accent-blue-500"
+              />
+            </label>
+
+            {CALIBRATION_STATE_STYLES[activeCalibration].warning && (
+              <button
+                onClick={() => setShowSettings(true)}
+                disabled={isMeasuring}
+                className="w-full text-left px-4 py-3 bg-amber-950/30 rounded-xl border border-amber-500/30 text-xs text-amber-400 leading-relaxed"
+              >
+                <i className="fas fa-exclamation-triangle mr-2"></i>
+                {CALIBRATION_STATE_STYLES[activeCalibration].warning}
+              </button>
+            )}
+
+            {unverified.length > 0 && (
+              <div className="px-4 py-3 bg-amber-950/30 rounded-xl border border-amber-500/30 text-xs text-amber-400 leading-relaxed">
+                <i className="fas fa-exclamation-triangle mr-2"></i>
+                The browser did not confirm that {unverified.join(', ').toLowerCase()} is off for this input. Readings may be altered.
+              </div>
+            )}
+
+            {measurementError && <p className="text-xs text-rose-400 text-center">{measurementError}</p>}
+
+            {protocolRun && (protocolRun.steps.length > 1 || protocolRun.phase !== ProtocolPhase.MEASURE) && (
+              <ProtocolPanel run={protocolRun} onPositionReady={() => applyProtocolRun(advancePhase(protocolRun))} />
+            )}
+
             {/* Main Status Indicator */}
             <div className={`p-8 rounded-[2rem] border-4 flex flex-col items-center justify-center transition-all duration-500 min-h-[220px] shadow-2xl ${
               !isMeasuring && !hasFinishedTest ? 'bg-slate-900 border-slate-800' :
-              metrics.status === DiagnosticStatus.NORMAL ? 'bg-emerald-950/40 border-emerald-500/50 shadow-emerald-500/10' :
-              'bg-red-950/40 border-red-500/50 shadow-red-500/10'
+              runKind !== RunKind.DIAGNOSTIC ? REFERENCE_RUN_STYLES[runKind].panel :
+              STATUS_STYLES[metrics.status].panel
             }`}>
               {!isMeasuring && !hasFinishedTest ? (
                 <div className="text-center">
                   <i className="fas fa-wave-square text-4xl text-slate-700 mb-4"></i>
                   <p className="text-slate-500 font-bold uppercase text-xs tracking-widest">Ready to Sample</p>
                 </div>
+              ) : runKind !== RunKind.DIAGNOSTIC ? (
+                <div className="text-center animate-in fade-in zoom-in-90 duration-500">
+                  <div className={`text-5xl font-black tracking-tighter mb-2 ${REFERENCE_RUN_STYLES[runKind].text}`}>{REFERENCE_RUN_STYLES[runKind].label}</div>
+                  <div className="flex items-center justify-center gap-3">
+                    <span className={`h-2 w-2 rounded-full ${REFERENCE_RUN_STYLES[runKind].dot} ${isMeasuring ? 'animate-pulse' : ''}`}></span>
+                    <p className="text-slate-300 text-sm font-semibold">
+                      {hasFinishedTest && !isMeasuring ? REFERENCE_RUN_STYLES[runKind].finished : REFERENCE_RUN_STYLES[runKind].running}
+                    </p>
+                  </div>
+                </div>
               ) : (
                 <div className="text-center animate-in fade-in zoom-in-90 duration-500">
-                  <div className={`text-6xl font-black tracking-tighter mb-2 ${
-                    metrics.status === DiagnosticStatus.NORMAL ? 'text-emerald-400' : 'text-red-500'
-                  }`}>
+                  {/* The long INDETERMINATE would overflow the panel at full size */}
+                  <div className={`${metrics.status === DiagnosticStatus.INDETERMINATE ? 'text-4xl' : 'text-6xl'} font-black tracking-tighter mb-2 ${STATUS_STYLES[metrics.status].text}`}>
                     {metrics.status}
                   </div>
                   <div className="flex items-center justify-center gap-3">
-                    <span className={`h-2 w-2 rounded-full ${isMeasuring ? 'animate-pulse' : ''} ${
-                      metrics.status === DiagnosticStatus.NORMAL ? 'bg-emerald-400' : 'bg-red-500'
-                    }`}></span>
+                    <span className={`h-2 w-2 rounded-full ${isMeasuring ? 'animate-pulse' : ''} ${STATUS_STYLES[metrics.status].dot}`}></span>
                     <p className="text-slate-300 text-sm font-semibold">
                       {hasFinishedTest && !isMeasuring ? 'Diagnostic Result' : 'Real-Time Acoustic Integrity'}
                     </p>
@@ -355,9 +978,9 @@ const App: React.FC = () => {
             {/* Metrics Grid */}
             <div className="grid grid-cols-2 gap-4">
               <MetricCard 
-                label="SPL Level" 
+                label={summary && !isMeasuring ? 'Leq' : `SPL ${TIME_WEIGHTING_CONSTANTS[timeWeighting].label}`} 
                 value={(isMeasuring || hasFinishedTest) ? metrics.db : '--'} 
-                unit="dB(A)" 
+                unit={weightingUnit(selectedMachine.weighting)} 
                 icon="fas fa-volume-up"
                 colorClass={(isMeasuring || hasFinishedTest) && metrics.db > selectedMachine.maxDb ? "text-red-400" : "text-slate-100"}
               />
@@ -369,16 +992,131 @@ const App: React.FC = () => {
               />
             </div>
 
+            {/* Window Statistics */}
+            {summary && !isMeasuring && (
+              <div className="bg-slate-900/50 rounded-2xl p-5 border border-slate-800">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4">Window Statistics</h3>
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  {([
+                    ['Lmax', summary.lmax],
+                    ['Lmin', summary.lmin],
+                    ['Leq', summary.leq],
+                    ['L10', summary.l10],
+                    ['L50', summary.l50],
+                    ['L90', summary.l90]
+                  ] as [string, number][]).map(([label, value]) => (
+                    <div key={label}>
+                      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</div>
+                      <div className={`font-mono font-bold ${value > selectedMachine.maxDb ? 'text-red-400' : 'text-slate-200'}`}>{value}</div>
+                    </div>
+                  ))}
+                </div>
+                {summary.exceededBands.length > 0 && selectedMachine.bandLimits && (
+                  <p className="mt-4 text-xs text-red-400">
+                    <i className="fas fa-exclamation-triangle mr-1"></i>
+                    Band envelope exceeded at {summary.exceededBands.map(nominal => `${formatBandFrequency(nominal)}Hz`).join(', ')}
+                  </p>
+                )}
+                {points.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-slate-800/50 space-y-2">
+                    {points.map(point => (
+                      <div key={point.position} className="flex justify-between items-center text-sm">
+                        <span className="text-slate-400">{point.position} <span className="text-[10px] font-mono text-slate-600">×{point.runs}</span></span>
+                        <span className="font-mono">
+                          <span className="text-slate-200">{point.leq}</span>
+                          <span className="text-slate-500 text-xs"> / {point.lmax} max · {point.peakFrequency} Hz </span>
+                          <span className={`text-[10px] font-black ${STATUS_STYLES[point.status].text}`}>{point.status}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="mt-4 text-[10px] text-slate-500 font-mono text-center">
+                  {summary.frameCount} readings over {(summary.durationMs / 1000).toFixed(1)}s
+                </p>
+              </div>
+            )}
+
+            {correction && !isMeasuring && (
+              <div className={`bg-slate-900/50 rounded-2xl p-5 border ${correction.validity === BackgroundValidity.INVALID ? 'border-red-500/40' : 'border-slate-800'}`}>
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Background Correction</h3>
+                  <span className={`text-[10px] px-2 py-1 rounded ${BACKGROUND_VALIDITY_STYLES[correction.validity].badge}`}>
+                    {BACKGROUND_VALIDITY_STYLES[correction.validity].label}
+                  </span>
+                </div>
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  {([
+                    ['Background', correction.backgroundDb],
+                    ['Difference', correction.difference],
+                    ['Correction', -correction.correction]
+                  ] as [string, number][]).map(([label, value]) => (
+                    <div key={label}>
+                      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</div>
+                      <div className="font-mono font-bold text-slate-200">{value}</div>
+                    </div>
+                  ))}
+                </div>
+                {correction.validity === BackgroundValidity.INVALID && (
+                  <p className="mt-4 text-xs text-red-400 leading-relaxed">
+                    <i className="fas fa-exclamation-triangle mr-1"></i>
+                    The machine is less than {BACKGROUND_MIN_DIFFERENCE_DB} dB above the background. This result is invalid; the level shown is an upper bound only.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {comparison && !isMeasuring && <BaselinePanel comparison={comparison} />}
+
+            {summary && !isMeasuring && runKind === RunKind.DIAGNOSTIC && (
+              <TonalPanel analysis={summary.tonal} expected={selectedMachine.expectedFundamental} />
+            )}
+
             {/* Visualizers */}
             <div className="space-y-4">
               <div className="bg-slate-900 rounded-2xl p-5 border border-slate-800">
                 <div className="flex justify-between items-center mb-4">
                   <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Acoustic Purity</span>
                   <span className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${metrics.isStable ? 'bg-emerald-500/20 text-emerald-400' : 'bg-slate-800 text-slate-500'}`}>
-                    {metrics.isStable ? 'HIGH FIDELITY' : 'LOW SIGNAL'}
+                    {metrics.isStable ? 'HIGH FIDELITY' : 'LOW SIGNAL'} · {metrics.snr} dB SNR
                   </span>
                 </div>
-                <FrequencyVisualizer data={freqData} />
+                {spectrumView === 'WATERFALL' ? (
+                  <Spectrogram data={freqData} sampleRate={sampleRate} offset={activeProfile?.offset ?? calibrationOffset} />
+                ) : (
+                  <FrequencyVisualizer data={freqData} sampleRate={sampleRate} bands={buildBandView()} comparison={buildComparisonView()} />
+                )}
+                <div className="flex gap-1 mt-3">
+                  {([['FFT', 'FFT'], ['WATERFALL', 'Waterfall'], [BandResolution.OCTAVE, '1/1 Oct'], [BandResolution.THIRD_OCTAVE, '1/3 Oct'], ['COMPARE', 'Compare']] as ['FFT' | 'WATERFALL' | 'COMPARE' | BandResolution, string][]).map(([view, label]) => (
+                    <button
+                      key={view}
+                      onClick={() => setSpectrumView(view)}
+                      className={`flex-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                        spectrumView === view ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {spectrumView === 'COMPARE' && (summary && !isMeasuring && reference ? (
+                  <ReferenceComparison
+                    current={summary}
+                    records={references}
+                    reference={reference}
+                    onSelect={setReferenceId}
+                    difference={showDifference}
+                    onDifferenceChange={setShowDifference}
+                  />
+                ) : referenceError ? (
+                  <p className="mt-3 text-xs text-rose-400 text-center">{referenceError}</p>
+                ) : (
+                  <p className="mt-3 text-[10px] text-slate-500 text-center">
+                    {summary && !isMeasuring
+                      ? 'No earlier record of this machine has a stored spectrum to compare with.'
+                      : 'Finish a run to compare its spectrum with an earlier record.'}
+                  </p>
+                ))}
               </div>
             </div>
 
@@ -388,16 +1126,50 @@ const App: React.FC = () => {
               <div className="space-y-3">
                 <div className="flex justify-between text-sm">
                   <span className="text-slate-400">Max permissible noise</span>
-                  <span className="text-slate-200 font-mono">{selectedMachine.maxDb} dB</span>
+                  <span className="text-slate-200 font-mono">{selectedMachine.maxDb} {weightingUnit(selectedMachine.weighting)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-slate-400">Operational Freq. Range</span>
                   <span className="text-slate-200 font-mono">{selectedMachine.peakFreqRange[0]}-{selectedMachine.peakFreqRange[1]} Hz</span>
                 </div>
+                {selectedMachine.expectedFundamental && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-400">Expected Fundamental</span>
+                    <span className="text-slate-200 font-mono" title={selectedMachine.expectedFundamental.source}>
+                      {selectedMachine.expectedFundamental.frequency} Hz ±{Math.round(selectedMachine.expectedFundamental.tolerance * 100)}%
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">Protocol</span>
+                  <span className="text-slate-200 font-mono">{describeProtocol(protocolFor(selectedMachine))}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">Healthy Baseline</span>
+                  <span className="text-slate-200 font-mono">
+                    {baselines[selectedMachine.id] ? new Date(baselines[selectedMachine.id].recordedAt).toLocaleDateString() : 'Not recorded'}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">Background</span>
+                  <span className="text-slate-200 font-mono">
+                    {backgrounds[selectedMachine.id]
+                      ? `${backgrounds[selectedMachine.id].leq} ${weightingUnit(selectedMachine.weighting)} · ${new Date(backgrounds[selectedMachine.id].measuredAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                      : 'Not measured'}
+                  </span>
+                </div>
+                {selectedMachine.bandLimits && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-400">Band Envelope</span>
+                    <span className="text-slate-200 font-mono">
+                      {selectedMachine.bandLimits.resolution === BandResolution.OCTAVE ? '1/1' : '1/3'} octave, {Object.keys(selectedMachine.bandLimits.maxLevels).length} bands
+                    </span>
+                  </div>
+                )}
                 <div className="pt-2 border-t border-slate-800/50">
                   <p className="text-[10px] text-slate-500 leading-tight">
                     <i className="fas fa-info-circle mr-1"></i>
-                    Abnormality is triggered when dB exceeds threshold or unexpected frequency peaks are detected outside operational harmonics.
+                    Abnormality is triggered when dB exceeds threshold, any band exceeds its envelope, a dominant peak falls outside the operational range, or sidebands and tones unrelated to the expected fundamental's harmonics appear.
                   </p>
                 </div>
               </div>
@@ -406,18 +1178,77 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {isScanning && (
+        <AssetScanner title="Scan Asset Tag" onScan={openByAssetTag} onCancel={() => setIsScanning(false)} />
+      )}
+
+      {isMonitoring && selectedMachine && (
+        <MonitorPanel
+          machine={selectedMachine}
+          deviceId={selectedDeviceId || undefined}
+          profiles={calibrationProfiles}
+          manualOffset={calibrationOffset}
+          timeWeighting={timeWeighting}
+          onClose={() => setIsMonitoring(false)}
+        />
+      )}
+
       {/* Action Buttons Footer */}
       {selectedMachine && !showSettings && (
         <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-slate-950 via-slate-950/90 to-transparent flex flex-col gap-3 max-w-md mx-auto z-20">
           {!isMeasuring ? (
             <>
               <button 
-                onClick={startMeasurement}
-                className="w-full bg-blue-600 hover:bg-blue-500 text-white font-black py-4 rounded-2xl shadow-xl shadow-blue-900/40 flex items-center justify-center gap-3 transition-all active:scale-95 text-lg"
+                onClick={() => startMeasurement()}
+                disabled={isAnalyzingFile}
+                className="w-full bg-blue-600 hover:bg-blue-500 text-white font-black py-4 rounded-2xl shadow-xl shadow-blue-900/40 flex items-center justify-center gap-3 transition-all active:scale-95 text-lg disabled:opacity-50"
               >
                 <i className="fas fa-play"></i>
                 {hasFinishedTest ? 'RESTART TEST' : 'START DIAGNOSTIC'}
               </button>
+              <button 
+                onClick={() => startMeasurement(RunKind.BASELINE)}
+                disabled={isAnalyzingFile}
+                className="w-full bg-slate-900 hover:bg-slate-800 text-blue-400 font-bold py-3 rounded-2xl border border-blue-500/30 flex items-center justify-center gap-3 transition-all active:scale-95 text-xs uppercase tracking-widest disabled:opacity-50"
+              >
+                <i className="fas fa-fingerprint"></i>
+                {baselines[selectedMachine.id] ? 'Re-record Baseline' : 'Record Baseline'}
+              </button>
+              <button
+                onClick={() => startMeasurement(RunKind.BACKGROUND)}
+                disabled={isAnalyzingFile}
+                className="w-full bg-slate-900 hover:bg-slate-800 text-slate-300 font-bold py-3 rounded-2xl border border-slate-700 flex items-center justify-center gap-3 transition-all active:scale-95 text-xs uppercase tracking-widest disabled:opacity-50"
+              >
+                <i className="fas fa-volume-mute"></i>
+                {backgrounds[selectedMachine.id] ? 'Re-measure Background' : 'Measure Background (Machine Off)'}
+              </button>
+              <button
+                onClick={() => setIsMonitoring(true)}
+                disabled={isAnalyzingFile}
+                className="w-full bg-slate-900 hover:bg-slate-800 text-slate-300 font-bold py-3 rounded-2xl border border-slate-700 flex items-center justify-center gap-3 transition-all active:scale-95 text-xs uppercase tracking-widest disabled:opacity-50"
+              >
+                <i className="fas fa-satellite-dish"></i>
+                Monitor Unattended
+              </button>
+              <button
+                onClick={() => audioFileInputRef.current?.click()}
+                disabled={isAnalyzingFile}
+                className="w-full bg-slate-900 hover:bg-slate-800 text-slate-300 font-bold py-3 rounded-2xl border border-slate-700 flex items-center justify-center gap-3 transition-all active:scale-95 text-xs uppercase tracking-widest disabled:opacity-50"
+              >
+                <i className={`fas ${isAnalyzingFile ? 'fa-spinner fa-spin' : 'fa-file-audio'}`}></i>
+                {isAnalyzingFile ? 'Analyzing Recording...' : 'Analyze Recording'}
+              </button>
+              <input
+                ref={audioFileInputRef}
+                type="file"
+                accept="audio/*,.wav,.mp3"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) analyzeAudioFile(file);
+                  e.target.value = '';
+                }}
+              />
               <button 
                 onClick={resetToMenu}
                 className="w-full bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-4 rounded-2xl border border-slate-700 flex items-center justify-center gap-3 transition-all active:scale-95 text-sm uppercase tracking-widest"
@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { assetTagFromCode } from '../services/machineRegistry';
+import { describeError } from '../services/errors';
+
+interface Props {
+  title: string;
+  // Returns why the tag can't be used, or null once it has been taken
+  onScan: (tag: string) => string | null;
+  onCancel: () => void;
+}
+
+// Shape Detection API, which the DOM lib does not describe yet
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorLike;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const SCAN_INTERVAL_MS = 250;
+// Label symbologies worth looking for; the detector is limited to those the platform supports
+const FORMATS = ['qr_code', 'data_matrix', 'code_128', 'code_39', 'ean_13', 'ean_8', 'upc_a', 'itf'];
+
+const inputClass = 'flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 font-mono focus:outline-none focus:border-blue-500';
+
+const AssetScanner: React.FC<Props> = ({ title, onScan, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [manual, setManual] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (code: string) => {
+    const tag = assetTagFromCode(code);
+    if (!tag) return;
+    setError(onScanRef.current(tag));
+  };
+
+  // Camera scanning where the browser can decode codes itself; typing the tag always works
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setNotice('This browser cannot read codes from the camera. Type the asset tag instead.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    let lastCode = '';
+
+    (async () => {
+      const supported = await Detector.getSupportedFormats();
+      const detector = new Detector({ formats: FORMATS.filter(f => supported.includes(f)) });
+      stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+      const video = videoRef.current;
+      if (cancelled || !video) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      video.srcObject = stream;
+      await video.play();
+
+      let busy = false;
+      timer = setInterval(async () => {
+        if (busy || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+        busy = true;
+        try {
+          const [code] = await detector.detect(video);
+          // A code held in view is read on every pass; only act when it changes
+          if (code && code.rawValue !== lastCode && !cancelled) {
+            lastCode = code.rawValue;
+            submit(code.rawValue);
+          }
+        } catch (err) {
+          // A detector that fails once keeps failing; stop scanning and fall back to typing
+          clearInterval(timer);
+          stream?.getTracks().forEach(track => track.stop());
+          if (!cancelled) setNotice(`Code reading failed (${describeError(err)}). Type the asset tag instead.`);
+        } finally {
+          busy = false;
+        }
+      }, SCAN_INTERVAL_MS);
+    })().catch(err => {
+      if (!cancelled) setNotice(`Camera unavailable (${describeError(err)}). Type the asset tag instead.`);
+    });
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-950/95 flex flex-col max-w-md mx-auto p-6 gap-4 animate-in fade-in duration-200">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold flex items-center gap-2">
+          <i className="fas fa-qrcode text-blue-500"></i>{title}
+        </h2>
+        <button onClick={onCancel} className="p-2 text-slate-400 hover:text-white transition-colors">
+          <i className="fas fa-times text-lg"></i>
+        </button>
+      </div>
+
+      {notice ? (
+        <p className="text-xs text-amber-400/80 leading-relaxed">
+          <i className="fas fa-exclamation-triangle mr-1"></i>{notice}
+        </p>
+      ) : (
+        <div className="relative rounded-2xl overflow-hidden border border-slate-800 bg-black aspect-square">
+          <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+          <div className="absolute inset-[20%] border-2 border-blue-400/70 rounded-xl pointer-events-none"></div>
+        </div>
+      )}
+
+      <form
+        className="flex gap-2"
+        onSubmit={e => {
+          e.preventDefault();
+          submit(manual);
+        }}
+      >
+        <input className={inputClass} value={manual} onChange={e => setManual(e.target.value)} placeholder="Asset tag, e.g. P-101" autoFocus={!!notice} />
+        <button type="submit" disabled={!manual.trim()} className="px-4 bg-blue-600 hover:bg-blue-500 rounded-lg text-xs font-bold uppercase tracking-widest disabled:opacity-40">
+          Go
+        </button>
+      </form>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default AssetScanner;
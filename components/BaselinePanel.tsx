@@ -0,0 +1,55 @@
+import React from 'react';
+import { BaselineComparison, DiagnosticStatus } from '../types';
+import { formatBandFrequency } from '../services/octaveBands';
+
+interface Props {
+  comparison: BaselineComparison;
+}
+
+const formatDelta = (value: number) => `${value > 0 ? '+' : ''}${value} dB`;
+
+const BaselinePanel: React.FC<Props> = ({ comparison }) => {
+  const tone = comparison.status === DiagnosticStatus.ABNORMAL ? 'text-red-400'
+    : comparison.status === DiagnosticStatus.WARNING ? 'text-amber-400'
+    : 'text-emerald-400';
+
+  return (
+    <div className="bg-slate-900/50 rounded-2xl p-5 border border-slate-800">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Baseline Deviation</h3>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${tone}`}>{comparison.status}</span>
+      </div>
+      <div className="space-y-3">
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-400">Leq vs baseline</span>
+          <span className="text-slate-200 font-mono">{formatDelta(comparison.levelDelta)}</span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-400">Spectral distance</span>
+          <span className="text-slate-200 font-mono">{comparison.spectralDistance} dB</span>
+        </div>
+        {comparison.driftedBands.length > 0 ? (
+          <div className="pt-2 border-t border-slate-800/50">
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mb-2">Drifted Bands</p>
+            <div className="flex flex-wrap gap-2">
+              {comparison.driftedBands.map(d => (
+                <span key={d.nominal} className={`text-[10px] font-mono px-2 py-1 rounded bg-slate-800 ${d.delta > 0 ? 'text-red-400' : 'text-blue-400'}`}>
+                  {formatBandFrequency(d.nominal)}Hz {formatDelta(d.delta)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="pt-2 border-t border-slate-800/50 text-[10px] text-slate-500">
+            No one-third-octave band drifted beyond tolerance.
+          </p>
+        )}
+        <p className="text-[10px] text-slate-500 font-mono">
+          Baseline recorded {new Date(comparison.baselineRecordedAt).toLocaleDateString()}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default BaselinePanel;
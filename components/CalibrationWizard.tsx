@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { CalibrationCheck, CalibrationMethod, CalibrationProfile, FrequencyWeighting, InputDevice, TimeWeighting } from '../types';
+import { CALIBRATION_STEADY_SECONDS, CALIBRATOR_FREQUENCY_TOLERANCE, CALIBRATOR_REFERENCE } from '../constants';
+import { AudioProcessor } from '../services/audioService';
+import { checkPasses, offsetFromReading } from '../services/calibration';
+import { describeCaptureError } from '../services/inputDevices';
+import { useSteadyLevel } from './useSteadyLevel';
+
+interface Props {
+  deviceId?: string; // Input to calibrate; the system default when absent
+  onSave: (profile: CalibrationProfile) => void;
+  onCancel: () => void;
+}
+
+type Step = 'method' | 'capture' | 'check' | 'save';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-blue-500';
+const labelClass = 'block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1';
+const primaryClass = 'py-4 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-all text-sm uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed';
+const secondaryClass = 'py-4 bg-slate-800 hover:bg-slate-700 rounded-xl font-bold transition-all text-sm uppercase tracking-widest';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const CalibrationWizard: React.FC<Props> = ({ deviceId, onSave, onCancel }) => {
+  const [step, setStep] = useState<Step>('method');
+  const [method, setMethod] = useState<CalibrationMethod>(CalibrationMethod.CALIBRATOR);
+  const [reference, setReference] = useState(String(CALIBRATOR_REFERENCE.level));
+  const [processor, setProcessor] = useState<AudioProcessor | null>(null);
+  const [device, setDevice] = useState<InputDevice | null>(null);
+  const [offset, setOffset] = useState<number | null>(null);
+  const [checks, setChecks] = useState<CalibrationCheck[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { level, peakFrequency, steady, average } = useSteadyLevel(processor);
+  const micOpen = step !== 'method';
+
+  // The microphone stays open from the first capture through the checks
+  useEffect(() => {
+    if (!micOpen) return;
+    let cancelled = false;
+    // Z and Slow: the calibrator tone is at 1 kHz, and Slow settles a steady tone quickest
+    const opened = new AudioProcessor(0, FrequencyWeighting.Z, TimeWeighting.SLOW);
+    opened.initialize(deviceId)
+      .then(() => {
+        if (cancelled) return;
+        const input = opened.getInputDevice();
+        setProcessor(opened);
+        setDevice(input);
+        setName(prev => prev || input?.label || 'Microphone');
+      })
+      .catch(err => setError(describeCaptureError(err)));
+    return () => {
+      cancelled = true;
+      opened.stop();
+    };
+  }, [micOpen, deviceId]);
+
+  const referenceDb = parseFloat(reference);
+  const toneMissing = method === CalibrationMethod.CALIBRATOR &&
+    Math.abs(peakFrequency - CALIBRATOR_REFERENCE.frequency) > CALIBRATOR_REFERENCE.frequency * CALIBRATOR_FREQUENCY_TOLERANCE;
+  const canCapture = steady && !toneMissing && Number.isFinite(referenceDb);
+
+  const chooseMethod = (next: CalibrationMethod) => {
+    setMethod(next);
+    setReference(next === CalibrationMethod.CALIBRATOR ? String(CALIBRATOR_REFERENCE.level) : '');
+    setStep('capture');
+  };
+
+  const capture = () => {
+    setOffset(offsetFromReading(referenceDb, average()));
+    setReference('');
+    setStep('check');
+  };
+
+  const addCheck = () => {
+    if (offset === null) return;
+    setChecks(prev => [...prev, { referenceDb, measuredDb: round1(average() + offset) }]);
+    setReference('');
+  };
+
+  const save = () => {
+    if (offset === null || !device) return;
+    onSave({
+      id: crypto.randomUUID(),
+      name: name.trim() || device.label || 'Microphone',
+      deviceId: device.deviceId,
+      deviceLabel: device.label,
+      offset,
+      method,
+      calibratedAt: Date.now(),
+      checks
+    });
+  };
+
+  const liveReading = (
+    <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 text-center">
+      <div className="text-5xl font-black font-mono text-slate-100">
+        {level === null ? '--' : (step === 'check' && offset !== null ? level + offset : level).toFixed(1)}
+      </div>
+      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mt-1">
+        {step === 'check' ? 'dB (calibrated)' : 'dBFS'} · {Math.round(peakFrequency)} Hz
+      </div>
+      <div className={`mt-3 text-[10px] font-bold uppercase tracking-widest ${steady && !toneMissing ? 'text-emerald-400' : 'text-amber-400'}`}>
+        {!device ? 'Opening microphone...'
+          : toneMissing ? `Waiting for ${CALIBRATOR_REFERENCE.frequency / 1000} kHz tone`
+          : steady ? 'Reading steady'
+          : 'Settling...'}
+      </div>
+    </div>
+  );
+
+  const referenceInput = (label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number"
+        step="0.1"
+        className={inputClass}
+        value={reference}
+        onChange={e => setReference(e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-bullseye text-blue-500"></i>
+        <h2 className="text-lg font-bold">Calibration Wizard</h2>
+      </div>
+
+      {error && <p className="text-xs text-red-400"><i className="fas fa-exclamation-circle mr-1"></i>{error}</p>}
+
+      {step === 'method' && (
+        <div className="grid gap-3">
+          <button
+            onClick={() => chooseMethod(CalibrationMethod.CALIBRATOR)}
+            className="bg-slate-900 border border-slate-800 hover:border-blue-500/50 p-5 rounded-2xl text-left"
+          >
+            <h3 className="font-bold text-slate-200">Acoustic Calibrator</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              Fit a {CALIBRATOR_REFERENCE.level} dB / {CALIBRATOR_REFERENCE.frequency / 1000} kHz calibrator over the microphone.
+            </p>
+          </button>
+          <button
+            onClick={() => chooseMethod(CalibrationMethod.REFERENCE_METER)}
+            className="bg-slate-900 border border-slate-800 hover:border-blue-500/50 p-5 rounded-2xl text-left"
+          >
+            <h3 className="font-bold text-slate-200">Reference Meter</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              Place a trusted sound level meter (Z or C weighting, Slow) beside the phone in front of a steady source.
+            </p>
+          </button>
+        </div>
+      )}
+
+      {step === 'capture' && (
+        <>
+          {liveReading}
+          <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+            {referenceInput(method === CalibrationMethod.CALIBRATOR ? 'Calibrator Level (dB)' : 'Reference Meter Reading (dB)')}
+            <p className="text-xs text-slate-500 leading-relaxed">
+              Capture once the reading has held within half a decibel for {CALIBRATION_STEADY_SECONDS} seconds.
+            </p>
+          </div>
+        </>
+      )}
+
+      {step === 'check' && offset !== null && (
+        <>
+          {liveReading}
+          <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-400">Full-scale level</span>
+              <span className="text-blue-400 font-mono font-bold">{offset} dB</span>
+            </div>
+            <p className="text-xs text-slate-500 leading-relaxed">
+              {method === CalibrationMethod.CALIBRATOR
+                ? 'Check the fit at another level: switch the calibrator to 114 dB, or re-seat it at 94 dB.'
+                : 'Change the source level and enter the reference meter reading at each new level.'}
+            </p>
+            {referenceInput('Check Reference (dB)')}
+            <button
+              onClick={addCheck}
+              disabled={!canCapture}
+              className="w-full py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold uppercase tracking-widest disabled:opacity-40"
+            >
+              <i className="fas fa-plus mr-1"></i> Add Check Point
+            </button>
+            {checks.length > 0 && (
+              <ul className="space-y-2">
+                {checks.map((check, i) => (
+                  <li key={i} className="flex justify-between text-sm font-mono">
+                    <span className="text-slate-400">{check.referenceDb} dB ref</span>
+                    <span className={checkPasses(check) ? 'text-emerald-400' : 'text-red-400'}>
+                      {check.measuredDb} dB ({check.measuredDb - check.referenceDb > 0 ? '+' : ''}{round1(check.measuredDb - check.referenceDb)})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+
+      {step === 'save' && offset !== null && (
+        <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+          <div>
+            <label className={labelClass}>Profile Name</label>
+            <input className={inputClass} value={name} onChange={e => setName(e.target.value)} />
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-400">Input device</span>
+            <span className="text-slate-200 text-right truncate ml-4">{device?.label || 'Default microphone'}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-400">Full-scale level</span>
+            <span className="text-slate-200 font-mono">{offset} dB</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-400">Check points</span>
+            <span className={`font-mono ${checks.every(checkPasses) ? 'text-emerald-400' : 'text-red-400'}`}>
+              {checks.filter(checkPasses).length} / {checks.length} within tolerance
+            </span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={onCancel} className={secondaryClass}>Cancel</button>
+        {step === 'capture' && (
+          <button onClick={capture} disabled={!canCapture} className={primaryClass}>Capture</button>
+        )}
+        {step === 'check' && (
+          <button onClick={() => setStep('save')} disabled={checks.length === 0} className={primaryClass}>Continue</button>
+        )}
+        {step === 'save' && (
+          <button onClick={save} className={primaryClass}>Save Profile</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
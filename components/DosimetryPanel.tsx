@@ -0,0 +1,295 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalibrationProfile, DoseCriterion, DoseState, DosimetryRecord, FrequencyWeighting, TimeWeighting } from '../types';
+import { DEFAULT_SHIFT_HOURS, DOSE_CRITERIA } from '../constants';
+import { AudioProcessor } from '../services/audioService';
+import { calibrationSnapshot, profileForDevice } from '../services/calibration';
+import { dailyExposure, doseResults, equivalentLevel, loadSiteCriterion, storeSiteCriterion } from '../services/dosimetry';
+import { addDosimetryRecord, deleteDosimetryRecord, getDosimetryRecords } from '../services/historyStore';
+import { describeError } from '../services/errors';
+import { describeCaptureError } from '../services/inputDevices';
+
+interface Props {
+  deviceId?: string;                // Input to meter; the system default when absent
+  profiles: CalibrationProfile[];   // Applied to the opened microphone, as for diagnostics
+  manualOffset: number;
+  technician: string;
+  onRunningChange: (running: boolean) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-blue-500 disabled:opacity-50';
+const labelClass = 'block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const formatDuration = (seconds: number) => {
+  const s = Math.floor(seconds);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}`;
+};
+
+const doseClass = (dose: number) =>
+  dose >= 100 ? 'text-rose-400' : dose >= 50 ? 'text-amber-400' : 'text-emerald-400';
+
+const DosimetryPanel: React.FC<Props> = ({ deviceId, profiles, manualOffset, technician, onRunningChange }) => {
+  const [subject, setSubject] = useState('');
+  const [shiftHours, setShiftHours] = useState(String(DEFAULT_SHIFT_HOURS));
+  const [site, setSite] = useState<DoseCriterion>(loadSiteCriterion);
+  const [processor, setProcessor] = useState<AudioProcessor | null>(null);
+  const [dose, setDose] = useState<DoseState | null>(null);
+  const [records, setRecords] = useState<DosimetryRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<{ startedAt: number; profile?: CalibrationProfile } | null>(null);
+  const onRunningChangeRef = useRef(onRunningChange);
+  onRunningChangeRef.current = onRunningChange;
+
+  const running = processor !== null;
+  const shift = parseFloat(shiftHours) > 0 ? parseFloat(shiftHours) : DEFAULT_SHIFT_HOURS;
+
+  const reload = () => {
+    getDosimetryRecords()
+      .then(setRecords)
+      .catch(err => setError(`Dosimetry records could not be loaded (${describeError(err)}).`));
+  };
+
+  useEffect(reload, []);
+
+  useEffect(() => {
+    if (!running) return;
+    onRunningChangeRef.current(true);
+    return () => onRunningChangeRef.current(false);
+  }, [running]);
+
+  // The microphone is released if the panel goes away mid-session
+  useEffect(() => {
+    if (!processor) return;
+    const unsubscribe = processor.subscribe(update => {
+      if (update.dose) setDose(update.dose);
+    });
+    return () => {
+      unsubscribe();
+      processor.stop();
+    };
+  }, [processor]);
+
+  const updateSite = (patch: Partial<DoseCriterion>) => {
+    const next = { ...site, ...patch };
+    setSite(next);
+    storeSiteCriterion(next);
+  };
+
+  const start = async () => {
+    setError(null);
+    // Exposure limits are defined on A-weighted Slow levels and C-weighted peaks
+    const opened = new AudioProcessor(manualOffset, FrequencyWeighting.A, TimeWeighting.SLOW, FrequencyWeighting.C);
+    try {
+      await opened.initialize(deviceId);
+    } catch (err) {
+      opened.stop();
+      setError(describeCaptureError(err));
+      return;
+    }
+    const input = opened.getInputDevice();
+    const profile = input ? profileForDevice(profiles, input.deviceId) : undefined;
+    if (profile) {
+      opened.setCalibration(profile.offset);
+      opened.setResponseCorrection(profile.responseCurve ?? null);
+    }
+    opened.beginDose([...DOSE_CRITERIA, site]);
+    sessionRef.current = { startedAt: Date.now(), profile };
+    setDose(null);
+    setProcessor(opened);
+  };
+
+  const stop = async () => {
+    if (!processor || !sessionRef.current) return;
+    const final = await processor.endDose();
+    const { startedAt, profile } = sessionRef.current;
+    sessionRef.current = null;
+    setProcessor(null);
+    if (!final) {
+      setError('The session was not saved: the analysis stopped before the dose could be read.');
+      return;
+    }
+    if (final.seconds === 0) {
+      setError('The session was not saved: it was stopped before any sound was measured.');
+      return;
+    }
+
+    const record: DosimetryRecord = {
+      id: crypto.randomUUID(),
+      subject: subject.trim() || 'Unnamed',
+      startedAt,
+      endedAt: Date.now(),
+      durationSeconds: Math.round(final.seconds),
+      shiftHours: shift,
+      laeq: round1(equivalentLevel(final)),
+      lex8h: round1(dailyExposure(final)),
+      lamax: round1(final.lmax),
+      lcpeak: final.peak === null ? null : round1(final.peak),
+      results: doseResults(final, shift),
+      calibration: calibrationSnapshot(profile, manualOffset),
+      technician: technician.trim() || undefined
+    };
+    try {
+      await addDosimetryRecord(record);
+    } catch (err) {
+      setError(`The session could not be saved (${describeError(err)}). LEX,8h was ${record.lex8h} dB(A).`);
+    }
+    reload();
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteDosimetryRecord(id);
+    } catch (err) {
+      setError(`The record could not be deleted (${describeError(err)}).`);
+    }
+    reload();
+  };
+
+  const results = dose ? doseResults(dose, shift) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+        <div>
+          <label className={labelClass}>Worker / Area</label>
+          <input className={inputClass} value={subject} disabled={running} onChange={e => setSubject(e.target.value)} placeholder="e.g. Press operator, line 2" />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Shift (h)</label>
+            <input type="number" step="0.5" min="0.5" className={inputClass} value={shiftHours} onChange={e => setShiftHours(e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Exchange Rate</label>
+            <div className="flex gap-2">
+              {([3, 5] as const).map(rate => (
+                <button
+                  key={rate}
+                  disabled={running}
+                  onClick={() => updateSite({ exchangeRate: rate })}
+                  className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all disabled:opacity-50 ${
+                    site.exchangeRate === rate ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'
+                  }`}
+                >
+                  {rate} dB
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Criterion dB(A)</label>
+            <input
+              type="number"
+              step="1"
+              className={inputClass}
+              value={site.criterionLevel}
+              disabled={running}
+              onChange={e => Number.isFinite(parseFloat(e.target.value)) && updateSite({ criterionLevel: parseFloat(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Threshold dB(A)</label>
+            <input
+              type="number"
+              step="1"
+              className={inputClass}
+              value={site.thresholdLevel}
+              disabled={running}
+              onChange={e => Number.isFinite(parseFloat(e.target.value)) && updateSite({ thresholdLevel: parseFloat(e.target.value) })}
+            />
+          </div>
+        </div>
+        <p className="text-[10px] text-slate-500 leading-tight">
+          <i className="fas fa-info-circle mr-1"></i>
+          OSHA and NIOSH doses are always reported; the site criterion above is added alongside them. Keep the screen on: the dose only integrates while the app is running.
+        </p>
+        {error && <p className="text-xs text-rose-400">{error}</p>}
+        <button
+          onClick={running ? stop : start}
+          className={`w-full py-4 rounded-xl font-bold transition-all text-sm uppercase tracking-widest ${
+            running ? 'bg-rose-600 hover:bg-rose-500' : 'bg-blue-600 hover:bg-blue-500'
+          }`}
+        >
+          <i className={`fas ${running ? 'fa-stop' : 'fa-play'} mr-2`}></i>
+          {running ? 'Stop & Save' : 'Start Dosimetry'}
+        </button>
+      </div>
+
+      {running && (
+        <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+          <div className="text-center">
+            <div className="text-4xl font-black font-mono text-slate-100">{formatDuration(dose?.seconds ?? 0)}</div>
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mt-1">Elapsed of {shift} h shift</div>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            {[
+              ['LAeq', dose ? equivalentLevel(dose) : null],
+              ['LEX,8h', dose ? dailyExposure(dose) : null],
+              ['LAmax', dose?.lmax ?? null],
+              ['LCpeak', dose?.peak ?? null]
+            ].map(([label, value]) => (
+              <div key={label as string} className="flex justify-between bg-slate-800/50 rounded-lg px-3 py-2">
+                <span className="text-slate-400">{label}</span>
+                <span className="text-slate-100 font-mono">{value === null || dose?.seconds === 0 ? '--' : (value as number).toFixed(1)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            {results.map(r => (
+              <div key={r.criterion.name} className="flex justify-between items-baseline text-sm border-t border-slate-800/50 pt-2">
+                <div>
+                  <div className="text-slate-200 font-bold">{r.criterion.name}</div>
+                  <div className="text-[10px] text-slate-500">
+                    {r.criterion.criterionLevel} dB · {r.criterion.exchangeRate} dB exchange · {r.criterion.thresholdLevel} dB threshold
+                  </div>
+                </div>
+                <div className="text-right font-mono">
+                  <div className={doseClass(r.dose)}>{r.dose.toFixed(1)} %</div>
+                  <div className="text-[10px] text-slate-500">
+                    TWA {r.dose > 0 ? r.twa.toFixed(1) : '--'} · <span className={doseClass(r.projectedDose)}>{r.projectedDose.toFixed(0)} % projected</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Dosimetry Records</h3>
+        {records.length === 0 ? (
+          <p className="text-sm text-slate-600 text-center py-6">No dosimetry sessions yet.</p>
+        ) : records.map(record => (
+          <div key={record.id} className="bg-slate-900 p-4 rounded-2xl border border-slate-800 space-y-2">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="text-sm font-bold text-slate-100">{record.subject}</div>
+                <div className="text-[10px] text-slate-500">
+                  {new Date(record.startedAt).toLocaleString()} · {formatDuration(record.durationSeconds)}
+                  {record.technician && ` · ${record.technician}`}
+                </div>
+              </div>
+              <button onClick={() => remove(record.id)} className="text-slate-600 hover:text-rose-400 transition-colors">
+                <i className="fas fa-trash-alt text-xs"></i>
+              </button>
+            </div>
+            <div className="text-xs font-mono text-slate-300">
+              LEX,8h {record.lex8h} · LAeq {record.laeq} · LAmax {record.lamax} · LCpeak {record.lcpeak ?? '--'}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {record.results.map(r => (
+                <span key={r.criterion.name} className="text-[10px] font-mono bg-slate-800 rounded px-2 py-1">
+                  {r.criterion.name}: <span className={doseClass(r.dose)}>{r.dose} %</span> · TWA {r.dose > 0 ? r.twa : '--'} · {r.projectedDose} % proj.
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DosimetryPanel;
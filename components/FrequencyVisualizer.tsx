@@ -1,11 +1,102 @@
-
 import React, { useEffect, useRef } from 'react';
+import { SpectrumComparison } from '../types';
+import { BAND_RANGE_DB, COMPARISON_RANGE_DB, SPECTRUM_RANGE_DB } from '../constants';
+import { OCTAVE_BANDS, formatBandFrequency } from '../services/octaveBands';
+
+export interface BandView {
+  title: string;
+  nominals: number[];               // Band labels (Hz)
+  levels: number[];                 // dB per band
+  envelope?: (number | undefined)[]; // Allowed level per band, if the standard declares one
+}
+
+export interface ComparisonView {
+  title: string;
+  spectra: SpectrumComparison;
+  difference: boolean; // Current minus reference around a 0 dB line, instead of both curves
+}
 
 interface Props {
-  data: Uint8Array;
+  data: Float32Array;            // dBFS per bin
+  sampleRate?: number;           // For the frequency span in the title
+  bands?: BandView;              // When set, draws band bars instead of the FFT
+  comparison?: ComparisonView;   // When set, draws stored spectra instead of either
 }
 
-const FrequencyVisualizer: React.FC<Props> = ({ data }) => {
+const CANVAS_WIDTH = 400;
+
+// Bars are wider than a bin, so only the low end of the spectrum fits
+const drawnBins = (binCount: number) =>
+  Math.min(binCount, Math.ceil(CANVAS_WIDTH / ((CANVAS_WIDTH / binCount) * 2.5 + 1)));
+
+const COMPARISON_SPAN_DB = 80; // Overlay range below the loudest point
+
+// Both snapshots on a log-frequency axis, with the gap between them shaded
+const drawComparison = (ctx: CanvasRenderingContext2D, width: number, height: number, { spectra, difference }: ComparisonView) => {
+  const { frequencies, current, reference, delta } = spectra;
+  if (frequencies.length < 2) return;
+
+  const labelHeight = 12;
+  const plotHeight = height - labelHeight;
+  const logMin = Math.log2(frequencies[0]);
+  const logSpan = Math.log2(frequencies[frequencies.length - 1]) - logMin;
+  const toX = (frequency: number) => ((Math.log2(frequency) - logMin) / logSpan) * width;
+
+  const top = difference ? COMPARISON_RANGE_DB : Math.ceil(Math.max(...current, ...reference) / 10) * 10;
+  const bottom = difference ? -COMPARISON_RANGE_DB : top - COMPARISON_SPAN_DB;
+  const toY = (db: number) => plotHeight - Math.min(1, Math.max(0, (db - bottom) / (top - bottom))) * plotHeight;
+
+  ctx.font = '8px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillStyle = 'rgb(148,163,184)';
+  for (const { nominal, center } of OCTAVE_BANDS) {
+    if (center >= frequencies[0] && center <= frequencies[frequencies.length - 1]) {
+      ctx.fillText(formatBandFrequency(nominal), toX(center), height - 2);
+    }
+  }
+
+  const trace = (levels: number[], color: string, dash: number[] = []) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash(dash);
+    ctx.beginPath();
+    levels.forEach((level, i) => {
+      if (i === 0) ctx.moveTo(toX(frequencies[i]), toY(level));
+      else ctx.lineTo(toX(frequencies[i]), toY(level));
+    });
+    ctx.stroke();
+    ctx.setLineDash([]);
+  };
+
+  // Louder than the reference is shaded red, quieter green; quiet points in both are left out
+  const shade = (i: number, from: number, to: number) => {
+    const d = delta[i];
+    if (d === null || i === 0) return;
+    ctx.fillStyle = d > 0 ? 'rgba(239,68,68,0.35)' : 'rgba(34,197,94,0.35)';
+    const x0 = toX(frequencies[i - 1]);
+    const x1 = toX(frequencies[i]);
+    ctx.fillRect(x0, Math.min(from, to), x1 - x0, Math.abs(to - from));
+  };
+
+  if (difference) {
+    const zero = toY(0);
+    delta.forEach((d, i) => d !== null && shade(i, zero, toY(d)));
+    ctx.strokeStyle = 'rgb(100,116,139)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, zero);
+    ctx.lineTo(width, zero);
+    ctx.stroke();
+    trace(delta.map(d => d ?? 0), 'rgb(250,204,21)');
+    return;
+  }
+
+  current.forEach((level, i) => shade(i, toY(level), toY(reference[i])));
+  trace(reference, 'rgb(148,163,184)', [4, 3]);
+  trace(current, 'rgb(59,130,246)');
+};
+
+const FrequencyVisualizer: React.FC<Props> = ({ data, sampleRate, bands, comparison }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -17,16 +108,65 @@ const FrequencyVisualizer: React.FC<Props> = ({ data }) => {
 
     const width = canvas.width;
     const height = canvas.height;
-    const barWidth = (width / data.length) * 2.5;
 
     ctx.clearRect(0, 0, width, height);
-    
+
+    if (comparison) {
+      drawComparison(ctx, width, height, comparison);
+      return;
+    }
+
+    if (bands) {
+      const [minDb, maxDb] = BAND_RANGE_DB;
+      const labelHeight = 12;
+      const plotHeight = height - labelHeight;
+      const slot = width / bands.levels.length;
+      const toY = (db: number) =>
+        plotHeight - Math.min(1, Math.max(0, (db - minDb) / (maxDb - minDb))) * plotHeight;
+
+      ctx.font = '8px monospace';
+      ctx.textAlign = 'center';
+      bands.levels.forEach((level, i) => {
+        const limit = bands.envelope?.[i];
+        const over = limit !== undefined && level > limit;
+        const y = toY(level);
+
+        ctx.fillStyle = over ? 'rgb(239,68,68)' : 'rgb(59,130,246)';
+        ctx.fillRect(i * slot + 1, y, slot - 2, plotHeight - y);
+
+        // Label every band for octaves, every third for one-third octaves
+        if (bands.levels.length <= 12 || i % 3 === 1) {
+          ctx.fillStyle = 'rgb(148,163,184)';
+          ctx.fillText(formatBandFrequency(bands.nominals[i]), i * slot + slot / 2, height - 2);
+        }
+      });
+
+      // Envelope as a stepped line across each band it covers
+      if (bands.envelope) {
+        ctx.strokeStyle = 'rgb(250,204,21)';
+        ctx.lineWidth = 2;
+        bands.envelope.forEach((limit, i) => {
+          if (limit === undefined) return;
+          const y = toY(limit);
+          ctx.beginPath();
+          ctx.moveTo(i * slot, y);
+          ctx.lineTo((i + 1) * slot, y);
+          ctx.stroke();
+        });
+      }
+      return;
+    }
+
+    const barWidth = (width / data.length) * 2.5;
+    const [minDb, maxDb] = SPECTRUM_RANGE_DB;
+
     let x = 0;
-    for (let i = 0; i < data.length; i++) {
-      const barHeight = (data[i] / 255) * height;
+    for (let i = 0; i < drawnBins(data.length); i++) {
+      const level = Math.min(1, Math.max(0, (data[i] - minDb) / (maxDb - minDb)));
+      const barHeight = level * height;
 
       // Color based on frequency height (intensity)
-      const r = data[i] + (25 * (i / data.length));
+      const r = level * 255 + (25 * (i / data.length));
       const g = 250 * (i / data.length);
       const b = 50;
 
@@ -35,17 +175,23 @@ const FrequencyVisualizer: React.FC<Props> = ({ data }) => {
 
       x += barWidth + 1;
     }
-  }, [data]);
+  }, [data, bands, comparison]);
+
+  const fftTitle = sampleRate && data.length > 0
+    ? `FFT ANALYSIS (0 - ${formatBandFrequency(Math.round((drawnBins(data.length) * sampleRate) / (2 * data.length) / 100) * 100)}Hz)`
+    : 'FFT ANALYSIS';
 
   return (
     <div className="w-full h-32 bg-slate-800 rounded-lg overflow-hidden relative">
-      <canvas 
-        ref={canvasRef} 
-        width={400} 
-        height={128} 
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={128}
         className="w-full h-full"
       />
-      <div className="absolute top-1 left-2 text-[10px] text-slate-400 font-mono">FFT ANALYSIS (20Hz - 20kHz)</div>
+      <div className="absolute top-1 left-2 text-[10px] text-slate-400 font-mono">
+        {comparison ? comparison.title : bands ? bands.title : fftTitle}
+      </div>
     </div>
   );
 };
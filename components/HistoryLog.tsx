@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from 'react';
+import { BackgroundValidity, DiagnosticStatus, HistoryEntry, HistoryFilter, MachineStandard } from '../types';
+import { BACKGROUND_VALIDITY_STYLES, HISTORY_PAGE_SIZE, STATUS_STYLES, TIME_WEIGHTING_CONSTANTS } from '../constants';
+import { clearHistory, discardLegacyHistory, getClip, hasUnreadableLegacyHistory, queryHistory } from '../services/historyStore';
+import { weightingUnit } from '../services/weighting';
+import { downloadFile, printDocument } from '../services/download';
+import { describeError } from '../services/errors';
+import { buildInspectionReport, formatHistoryCsv, formatHistoryJson, reportFilename } from '../services/report';
+
+interface Props {
+  machines: MachineStandard[];
+  refreshKey: number; // Bumped by the parent whenever a record is added
+  onShowTrend: (machine: MachineStandard) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-800 rounded-lg px-2 py-2 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+// <input type="date"> values are local calendar days
+const dayStart = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : undefined);
+const dayEnd = (value: string) => (value ? new Date(`${value}T23:59:59.999`).getTime() : undefined);
+
+
+const HistoryLog: React.FC<Props> = ({ machines, refreshKey, onShowTrend }) => {
+  const [machineId, setMachineId] = useState('');
+  const [status, setStatus] = useState<DiagnosticStatus | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [text, setText] = useState('');
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [legacyUnreadable, setLegacyUnreadable] = useState(false);
+
+  // Object URLs pin the blob in memory until revoked
+  useEffect(() => () => {
+    if (playing) URL.revokeObjectURL(playing.url);
+  }, [playing]);
+
+  const buildFilter = (): HistoryFilter => ({
+    machineId: machineId || undefined,
+    status: status || undefined,
+    from: dayStart(fromDate),
+    to: dayEnd(toDate),
+    text: text.trim() || undefined
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    queryHistory(buildFilter(), page, HISTORY_PAGE_SIZE)
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result.entries);
+        setTotal(result.total);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(`The records could not be loaded (${describeError(err)}).`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [machineId, status, fromDate, toDate, text, page, refreshKey, reloadKey]);
+
+  useEffect(() => {
+    hasUnreadableLegacyHistory().then(setLegacyUnreadable, () => setLegacyUnreadable(false));
+  }, []);
+
+  const handleDiscardLegacy = () => {
+    if (confirm('Discard the unreadable records from the earlier version? They cannot be recovered.')) {
+      discardLegacyHistory();
+      setLegacyUnreadable(false);
+    }
+  };
+
+  // Any filter change starts again from the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const handleClear = async () => {
+    if (confirm("Clear all diagnostic records?")) {
+      await clearHistory();
+      setPage(0);
+      setReloadKey(k => k + 1);
+    }
+  };
+
+  const loadClip = async (entry: HistoryEntry): Promise<Blob | null> => {
+    const clip = await getClip(entry.id);
+    if (!clip) alert('The audio clip for this record is no longer available.');
+    return clip;
+  };
+
+  const handlePlay = async (entry: HistoryEntry) => {
+    if (playing?.id === entry.id) {
+      setPlaying(null);
+      return;
+    }
+    const clip = await loadClip(entry);
+    if (clip) setPlaying({ id: entry.id, url: URL.createObjectURL(clip) });
+  };
+
+  const handleDownload = async (entry: HistoryEntry) => {
+    const clip = await loadClip(entry);
+    if (clip) downloadFile(reportFilename(entry, 'wav'), clip, 'audio/wav');
+  };
+
+  // Every record matching the filters, not just the visible page
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const { entries: matching } = await queryHistory(buildFilter(), 0, Number.MAX_SAFE_INTEGER);
+      const name = `diagnostic-records-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') downloadFile(name, formatHistoryCsv(matching), 'text/csv');
+      else downloadFile(name, formatHistoryJson(matching), 'application/json');
+    } catch (err) {
+      alert(`The records could not be exported (${describeError(err)}).`);
+    }
+  };
+
+  const handleReport = (entry: HistoryEntry) => {
+    const html = buildInspectionReport(entry, machines.find(m => m.id === entry.machineId));
+    // Blocked pop-ups still get the report, as a file to open and print
+    if (!printDocument(html)) downloadFile(reportFilename(entry, 'html'), html, 'text/html');
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+  const isFiltered = Boolean(machineId || status || fromDate || toDate || text.trim());
+  const filteredMachine = machines.find(m => m.id === machineId);
+
+  return (
+    <div className="animate-in fade-in duration-300 space-y-4">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-bold">Diagnostic Records</h2>
+        {total > 0 && !isFiltered && (
+          <button
+            onClick={handleClear}
+            className="text-[10px] font-bold text-red-500 hover:text-red-400 uppercase tracking-widest"
+          >
+            Clear Log
+          </button>
+        )}
+      </div>
+
+      {legacyUnreadable && (
+        <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-3 text-xs text-amber-300 flex justify-between items-center gap-3">
+          <span>Records saved by an earlier version could not be read and were not moved into the log.</span>
+          <button onClick={handleDiscardLegacy} className="shrink-0 font-bold uppercase tracking-widest text-[10px] hover:text-amber-200">
+            Discard
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {/* Filters */}
+      <div className="space-y-2">
+        <input
+          type="search"
+          placeholder="Search records"
+          value={text}
+          onChange={e => withReset(setText)(e.target.value)}
+          className={`${inputClass} w-full`}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select value={machineId} onChange={e => withReset(setMachineId)(e.target.value)} className={inputClass}>
+            <option value="">All machines</option>
+            {machines.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <select value={status} onChange={e => withReset(setStatus)(e.target.value as DiagnosticStatus | '')} className={inputClass}>
+            <option value="">All statuses</option>
+            {[DiagnosticStatus.NORMAL, DiagnosticStatus.WARNING, DiagnosticStatus.ABNORMAL, DiagnosticStatus.INDETERMINATE].map(s => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <input type="date" value={fromDate} onChange={e => withReset(setFromDate)(e.target.value)} className={inputClass} />
+          <input type="date" value={toDate} onChange={e => withReset(setToDate)(e.target.value)} className={inputClass} />
+        </div>
+        {total > 0 && (
+          <div className="flex gap-2">
+            {(['csv', 'json'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="flex-1 py-2 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200"
+              >
+                <i className="fas fa-file-export mr-1"></i> {format} ({total})
+              </button>
+            ))}
+          </div>
+        )}
+        {filteredMachine && (
+          <button
+            onClick={() => onShowTrend(filteredMachine)}
+            className="w-full py-2 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest text-blue-400 hover:border-blue-500/50"
+          >
+            <i className="fas fa-chart-area mr-1"></i> Trend &amp; Forecast
+          </button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="py-20 text-center">
+          <i className="fas fa-clipboard-list text-4xl text-slate-800 mb-4"></i>
+          <p className="text-slate-500 font-medium">
+            {isFiltered ? 'No records match these filters.' : 'No diagnostic history available.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(entry => (
+            <div key={entry.id} className="bg-slate-900 border border-slate-800 p-4 rounded-2xl flex items-center gap-4">
+              <div className={`w-2 h-12 rounded-full ${STATUS_STYLES[entry.status].dot}`} />
+              <div className="flex-1">
+                <div className="flex justify-between items-start mb-1">
+                  <h3 className="text-sm font-bold text-slate-200">
+                    {entry.machineName}
+                    {entry.sourceFile && (
+                      <span className="ml-2 text-[10px] font-mono font-normal text-slate-500" title={entry.sourceFile}>
+                        <i className="fas fa-file-audio mr-1"></i>{entry.sourceFile}
+                      </span>
+                    )}
+                  </h3>
+                  <span className="text-[10px] text-slate-500 font-mono">
+                    {new Date(entry.timestamp).toLocaleDateString()} {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+                <div className="flex gap-3 text-xs">
+                  <span className="text-slate-400"><span className="font-mono text-slate-200">{entry.db}</span> {weightingUnit(entry.weighting)}{entry.levels ? ' Leq' : ''}</span>
+                  {entry.timeWeighting && (
+                    <span className="text-slate-500 font-mono">{TIME_WEIGHTING_CONSTANTS[entry.timeWeighting].label[0]}</span>
+                  )}
+                  {entry.levels && (
+                    <span className="text-slate-500 font-mono">{entry.levels.lmin}–{entry.levels.lmax}</span>
+                  )}
+                  <span className="text-slate-400"><span className="font-mono text-slate-200">{entry.peakFrequency}</span> Hz</span>
+                  {entry.background && entry.background.validity !== BackgroundValidity.NEGLIGIBLE && (
+                    <span
+                      className={`text-[10px] px-1.5 rounded ${BACKGROUND_VALIDITY_STYLES[entry.background.validity].badge}`}
+                      title={`Background ${entry.background.backgroundDb} dB, ${entry.background.difference} dB below`}
+                    >
+                      BG {entry.background.validity === BackgroundValidity.INVALID ? 'INVALID' : `-${entry.background.correction}`}
+                    </span>
+                  )}
+                  <span className={`font-black uppercase tracking-tighter ml-auto ${STATUS_STYLES[entry.status].text}`}>
+                    {entry.status}
+                  </span>
+                </div>
+                {entry.points && entry.points.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {entry.points.map(point => (
+                      <span key={point.position} className="text-[10px] font-mono px-2 py-0.5 rounded bg-slate-800 text-slate-400">
+                        {point.position} <span className={STATUS_STYLES[point.status].text}>{point.leq}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center gap-4 mt-2">
+                  <button
+                    onClick={() => handleReport(entry)}
+                    className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-blue-400"
+                  >
+                    <i className="fas fa-print mr-1"></i> Report
+                  </button>
+                  {entry.technician && (
+                    <span className="text-[10px] text-slate-600"><i className="fas fa-user mr-1"></i>{entry.technician}</span>
+                  )}
+                  {entry.assetTag && (
+                    <span className="text-[10px] font-mono text-slate-600">#{entry.assetTag}</span>
+                  )}
+                  {entry.location && (
+                    <span className="text-[10px] text-slate-600 truncate"><i className="fas fa-map-marker-alt mr-1"></i>{entry.location}</span>
+                  )}
+                </div>
+                {entry.clip && (
+                  <div className="flex items-center gap-4 mt-2">
+                    <button
+                      onClick={() => handlePlay(entry)}
+                      className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-blue-400"
+                    >
+                      <i className={`fas ${playing?.id === entry.id ? 'fa-stop' : 'fa-play'} mr-1`}></i>
+                      {playing?.id === entry.id ? 'Close' : 'Play'}
+                    </button>
+                    <button
+                      onClick={() => handleDownload(entry)}
+                      className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-blue-400"
+                    >
+                      <i className="fas fa-download mr-1"></i> WAV
+                    </button>
+                    <span className="text-[10px] text-slate-600 font-mono ml-auto">
+                      {(entry.clip.durationMs / 1000).toFixed(1)} s · {entry.clip.sampleRate / 1000} kHz
+                    </span>
+                  </div>
+                )}
+                {playing?.id === entry.id && (
+                  <audio src={playing.url} controls autoPlay className="w-full h-8 mt-2" />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {total > HISTORY_PAGE_SIZE && (
+        <div className="flex items-center justify-between pt-2">
+          <button
+            disabled={page === 0}
+            onClick={() => setPage(p => p - 1)}
+            className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 text-xs disabled:opacity-30"
+          >
+            <i className="fas fa-chevron-left"></i>
+          </button>
+          <span className="text-[10px] text-slate-500 font-mono uppercase tracking-widest">
+            Page {page + 1} / {pageCount} · {total} records
+          </span>
+          <button
+            disabled={page >= pageCount - 1}
+            onClick={() => setPage(p => p + 1)}
+            className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 text-xs disabled:opacity-30"
+          >
+            <i className="fas fa-chevron-right"></i>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryLog;
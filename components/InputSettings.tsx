@@ -0,0 +1,61 @@
+import React from 'react';
+import { CaptureSettings, InputDevice } from '../types';
+import { PROCESSING_FEATURES } from '../services/inputDevices';
+
+interface Props {
+  devices: InputDevice[];
+  selectedDeviceId: string; // '' = system default
+  onSelect: (deviceId: string) => void;
+  captureSettings: CaptureSettings | null; // As applied the last time the microphone was opened
+  listError: string | null; // Why the inputs could not be listed
+  disabled: boolean;
+}
+
+const processingBadge = (value: boolean | undefined) =>
+  value === false ? { label: 'OFF', className: 'bg-green-500/10 text-green-400' }
+  : value === true ? { label: 'ON', className: 'bg-red-500/10 text-red-400' }
+  : { label: 'NOT REPORTED', className: 'bg-amber-500/10 text-amber-400' };
+
+const InputSettings: React.FC<Props> = ({ devices, selectedDeviceId, onSelect, captureSettings, listError, disabled }) => (
+  <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+    <div>
+      <label className="block text-sm text-slate-400 mb-2">Input Device</label>
+      <select
+        value={selectedDeviceId}
+        disabled={disabled}
+        onChange={e => onSelect(e.target.value)}
+        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+      >
+        <option value="">System default</option>
+        {devices.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+      </select>
+      {listError && <p className="text-xs text-rose-400 mt-2">{listError}</p>}
+    </div>
+
+    {captureSettings ? (
+      <div className="space-y-2 pt-2 border-t border-slate-800/50">
+        <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Applied by the browser</p>
+        <p className="text-xs text-slate-400 truncate">{captureSettings.label || 'Unnamed input'}</p>
+        {PROCESSING_FEATURES.map(f => {
+          const badge = processingBadge(captureSettings[f.key]);
+          return (
+            <div key={f.key} className="flex justify-between items-center text-sm">
+              <span className="text-slate-400">{f.label}</span>
+              <span className={`text-[10px] px-2 py-1 rounded ${badge.className}`}>{badge.label}</span>
+            </div>
+          );
+        })}
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-400">Sample rate / channels</span>
+          <span className="text-slate-200 font-mono">
+            {captureSettings.sampleRate ? `${captureSettings.sampleRate / 1000} kHz` : '--'} / {captureSettings.channelCount ?? '--'}
+          </span>
+        </div>
+      </div>
+    ) : (
+      <p className="text-xs text-slate-500 italic">Capture settings are read back once the microphone has been opened.</p>
+    )}
+  </div>
+);
+
+export default InputSettings;
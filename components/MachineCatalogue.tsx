@@ -0,0 +1,113 @@
+import React, { useRef } from 'react';
+import { MachineStandard } from '../types';
+import { isBuiltIn } from '../services/machineRegistry';
+import { weightingUnit } from '../services/weighting';
+
+interface Props {
+  machines: MachineStandard[];
+  onSelect: (machine: MachineStandard) => void;
+  onScan: () => void; // Opens a machine by its asset tag instead
+  onCreate: () => void;
+  onEdit: (machine: MachineStandard) => void;
+  onDuplicate: (machine: MachineStandard) => void;
+  onDelete: (machine: MachineStandard) => void;
+  onTrend: (machine: MachineStandard) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const actionClass = 'text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-blue-400 transition-colors';
+
+const MachineCatalogue: React.FC<Props> = ({ machines, onSelect, onScan, onCreate, onEdit, onDuplicate, onDelete, onTrend, onImport, onExport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <div className="text-center mb-4">
+        <h2 className="text-xl font-bold text-slate-100">Select Machine</h2>
+        <p className="text-sm text-slate-400 mt-1">Industrial diagnostics sensor suite</p>
+      </div>
+
+      <button
+        onClick={onScan}
+        className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-xl text-xs font-bold uppercase tracking-widest text-white shadow-lg"
+      >
+        <i className="fas fa-qrcode mr-2"></i> Scan Asset Tag
+      </button>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCreate}
+          className="flex-1 py-2 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest text-blue-400 hover:border-blue-500/50"
+        >
+          <i className="fas fa-plus mr-1"></i> New
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 py-2 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200"
+        >
+          <i className="fas fa-file-import mr-1"></i> Import
+        </button>
+        <button
+          onClick={onExport}
+          className="flex-1 py-2 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200"
+        >
+          <i className="fas fa-file-export mr-1"></i> Export
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="grid gap-3">
+        {machines.map(m => {
+          const builtIn = isBuiltIn(m.id);
+          return (
+            <div
+              key={m.id}
+              className="bg-slate-900 border border-slate-800 rounded-2xl hover:border-blue-500/50 hover:bg-slate-800/80 transition-all group"
+            >
+              <button onClick={() => onSelect(m)} className="w-full p-5 pb-3 text-left">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-bold text-slate-200 group-hover:text-blue-400 transition-colors">{m.name}</h3>
+                    <p className="text-xs text-slate-500 font-medium uppercase mt-1">
+                      {m.category}
+                      {m.assetTag && <span className="ml-2 font-mono normal-case text-slate-400">#{m.assetTag}</span>}
+                    </p>
+                    {m.location && (
+                      <p className="text-[10px] text-slate-500 mt-1"><i className="fas fa-map-marker-alt mr-1"></i>{m.location}</p>
+                    )}
+                  </div>
+                  <span className="text-xs font-mono font-bold text-slate-400 bg-slate-800 px-2 py-1 rounded">{m.maxDb} {weightingUnit(m.weighting)} Max</span>
+                </div>
+              </button>
+              <div className="flex items-center gap-4 px-5 pb-3">
+                {builtIn ? (
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-slate-600">Template</span>
+                ) : (
+                  <button onClick={() => onEdit(m)} className={actionClass}>Edit</button>
+                )}
+                <button onClick={() => onDuplicate(m)} className={actionClass}>Duplicate</button>
+                <button onClick={() => onTrend(m)} className={actionClass}>Trend</button>
+                {!builtIn && (
+                  <button onClick={() => onDelete(m)} className={`${actionClass} hover:text-red-400 ml-auto`}>Delete</button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+export default MachineCatalogue;
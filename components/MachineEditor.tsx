@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { FrequencyWeighting, MachineStandard } from '../types';
+import { validateMachine } from '../services/machineRegistry';
+import { protocolFor } from '../services/protocol';
+import AssetScanner from './AssetScanner';
+
+interface Props {
+  machine: MachineStandard;
+  catalogue: MachineStandard[]; // Asset tags must stay unique across it
+  title: string;
+  onSave: (machine: MachineStandard) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-blue-500';
+const labelClass = 'block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1';
+
+const MachineEditor: React.FC<Props> = ({ machine, catalogue, title, onSave, onCancel }) => {
+  const protocol = protocolFor(machine);
+  const [draft, setDraft] = useState({
+    name: machine.name,
+    category: machine.category,
+    maxDb: String(machine.maxDb),
+    weighting: machine.weighting,
+    freqLow: String(machine.peakFreqRange[0]),
+    freqHigh: String(machine.peakFreqRange[1]),
+    assetTag: machine.assetTag ?? '',
+    location: machine.location ?? '',
+    settleSeconds: String(protocol.settleSeconds),
+    durationSeconds: String(protocol.durationSeconds),
+    repeats: String(protocol.repeats),
+    positions: protocol.positions.join('\n')
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [scanning, setScanning] = useState(false);
+
+  const update = (field: keyof typeof draft, value: string) => setDraft(prev => ({ ...prev, [field]: value }));
+
+  const handleSave = () => {
+    // Fields the editor does not expose (band envelope, fundamental) carry over from the source
+    const result: MachineStandard = {
+      ...machine,
+      name: draft.name.trim(),
+      category: draft.category.trim(),
+      maxDb: parseFloat(draft.maxDb),
+      weighting: draft.weighting,
+      peakFreqRange: [parseFloat(draft.freqLow), parseFloat(draft.freqHigh)],
+      assetTag: draft.assetTag.trim() || undefined,
+      location: draft.location.trim() || undefined,
+      protocol: {
+        settleSeconds: parseFloat(draft.settleSeconds),
+        durationSeconds: parseFloat(draft.durationSeconds),
+        repeats: Number(draft.repeats),
+        positions: draft.positions.split('\n').map(p => p.trim()).filter(Boolean)
+      }
+    };
+    const problems = validateMachine(result, catalogue);
+    setErrors(problems);
+    if (problems.length === 0) onSave(result);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-cogs text-blue-500"></i>
+        <h2 className="text-lg font-bold">{title}</h2>
+      </div>
+
+      <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input className={inputClass} value={draft.name} onChange={e => update('name', e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Category</label>
+          <input className={inputClass} value={draft.category} onChange={e => update('category', e.target.value)} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Max Level (dB)</label>
+            <input type="number" step="0.5" className={inputClass} value={draft.maxDb} onChange={e => update('maxDb', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Weighting</label>
+            <select className={inputClass} value={draft.weighting} onChange={e => update('weighting', e.target.value)}>
+              {Object.values(FrequencyWeighting).map(w => (
+                <option key={w} value={w}>{w}-weighting</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Peak Range Low (Hz)</label>
+            <input type="number" className={inputClass} value={draft.freqLow} onChange={e => update('freqLow', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Peak Range High (Hz)</label>
+            <input type="number" className={inputClass} value={draft.freqHigh} onChange={e => update('freqHigh', e.target.value)} />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Asset Tag</label>
+          <div className="flex gap-2">
+            <input className={inputClass} value={draft.assetTag} onChange={e => update('assetTag', e.target.value)} />
+            <button onClick={() => setScanning(true)} title="Scan label" className="px-3 bg-slate-800 border border-slate-700 rounded-lg text-slate-400 hover:text-blue-400">
+              <i className="fas fa-qrcode"></i>
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Location</label>
+          <input className={inputClass} value={draft.location} onChange={e => update('location', e.target.value)} />
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className={labelClass}>Settle (s)</label>
+            <input type="number" min="0" className={inputClass} value={draft.settleSeconds} onChange={e => update('settleSeconds', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Run (s)</label>
+            <input type="number" min="1" className={inputClass} value={draft.durationSeconds} onChange={e => update('durationSeconds', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Repeats</label>
+            <input type="number" min="1" step="1" className={inputClass} value={draft.repeats} onChange={e => update('repeats', e.target.value)} />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Measurement Positions (one per line)</label>
+          <textarea
+            rows={3}
+            placeholder="Single position"
+            className={inputClass}
+            value={draft.positions}
+            onChange={e => update('positions', e.target.value)}
+          />
+        </div>
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-1">
+            {errors.map(err => <li key={err}><i className="fas fa-exclamation-circle mr-1"></i>{err}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onCancel}
+          className="py-4 bg-slate-800 hover:bg-slate-700 rounded-xl font-bold transition-all text-sm uppercase tracking-widest"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="py-4 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-all text-sm uppercase tracking-widest"
+        >
+          Save
+        </button>
+      </div>
+
+      {scanning && (
+        <AssetScanner
+          title="Scan Asset Label"
+          onScan={tag => {
+            update('assetTag', tag);
+            setScanning(false);
+            return null;
+          }}
+          onCancel={() => setScanning(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MachineEditor;
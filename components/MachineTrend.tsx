@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BackgroundValidity, BandResolution, HistoryEntry, MachineStandard, TrendPoint } from '../types';
+import { TREND_HORIZON_DAYS, TREND_MIN_POINTS, TREND_WINDOW_DAYS } from '../constants';
+import { describeError } from '../services/errors';
+import { getMachineHistory } from '../services/historyStore';
+import { forecastCrossing, trendValueAt } from '../services/trend';
+import { bandsFor, formatBandFrequency } from '../services/octaveBands';
+import { weightingUnit } from '../services/weighting';
+import TrendChart, { TrendChartPoint } from './TrendChart';
+
+interface Props {
+  machine: MachineStandard;
+  onBack: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Records measured in another weighting aren't comparable with the limit
+const comparable = (machine: MachineStandard, entry: HistoryEntry) =>
+  entry.weighting === undefined || entry.weighting === machine.weighting;
+
+const MachineTrend: React.FC<Props> = ({ machine, onBack }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const resolution = machine.bandLimits?.resolution ?? BandResolution.OCTAVE;
+  const bands = bandsFor(resolution);
+  const [bandIndex, setBandIndex] = useState(() => Math.max(0, bands.findIndex(b => b.nominal === 1000)));
+
+  useEffect(() => {
+    let cancelled = false;
+    getMachineHistory(machine.id)
+      .then(result => {
+        if (!cancelled) setEntries(result.filter(e => comparable(machine, e)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(`The records could not be loaded (${describeError(err)}).`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [machine]);
+
+  const levels = useMemo<TrendChartPoint[]>(
+    () => (entries ?? []).map(e => ({ timestamp: e.timestamp, value: e.db, status: e.status })),
+    [entries]
+  );
+  const frequencies = useMemo<TrendChartPoint[]>(
+    () => (entries ?? []).map(e => ({ timestamp: e.timestamp, value: e.peakFrequency, status: e.status })),
+    [entries]
+  );
+  const bandLevels = useMemo<TrendChartPoint[]>(
+    () => (entries ?? [])
+      .filter(e => e.bands)
+      .map(e => ({
+        timestamp: e.timestamp,
+        value: (resolution === BandResolution.OCTAVE ? e.bands!.octave : e.bands!.thirdOctave)[bandIndex],
+        status: e.status
+      }))
+      .filter(p => Number.isFinite(p.value)),
+    [entries, resolution, bandIndex]
+  );
+
+  // Levels that are only an upper bound would bend the trend
+  const forecast = useMemo(() => forecastCrossing(
+    (entries ?? []).filter(e => e.background?.validity !== BackgroundValidity.INVALID).map(e => ({ timestamp: e.timestamp, value: e.db })),
+    machine.maxDb
+  ), [entries, machine.maxDb]);
+
+  const trendLine = useMemo<[TrendPoint, TrendPoint] | undefined>(() => {
+    if (!forecast || levels.length === 0) return undefined;
+    const latest = levels[levels.length - 1].timestamp;
+    const horizon = latest + TREND_WINDOW_DAYS * DAY_MS;
+    const end = forecast.crossingAt !== null && forecast.crossingAt > latest ? Math.min(forecast.crossingAt, horizon) : latest;
+    return [
+      { timestamp: forecast.fit.origin, value: trendValueAt(forecast.fit, forecast.fit.origin) },
+      { timestamp: end, value: trendValueAt(forecast.fit, end) }
+    ];
+  }, [forecast, levels]);
+
+  const now = Date.now();
+  const unit = weightingUnit(machine.weighting);
+  const bandLimit = machine.bandLimits?.maxLevels[bands[bandIndex].nominal];
+
+  const forecastText = (): string => {
+    if (!forecast) {
+      return `A forecast needs at least ${TREND_MIN_POINTS} records spread over more than a day in the last ${TREND_WINDOW_DAYS} days.`;
+    }
+    const { crossingAt, fit } = forecast;
+    if (crossingAt === null) return 'The level is steady or falling; no threshold crossing is projected.';
+    if (trendValueAt(fit, now) >= machine.maxDb) return `The trend is already above the ${machine.maxDb} ${unit} limit.`;
+    const days = Math.round((crossingAt - now) / DAY_MS);
+    if (days > TREND_HORIZON_DAYS) return `Rising slowly; the limit is more than ${Math.round(TREND_HORIZON_DAYS / 365)} years away at this rate.`;
+    return `Projected to reach ${machine.maxDb} ${unit} around ${new Date(crossingAt).toLocaleDateString()} (in ${days} day${days === 1 ? '' : 's'}).`;
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div>
+        <button
+          onClick={onBack}
+          className="text-xs font-bold text-slate-500 hover:text-slate-300 uppercase tracking-widest flex items-center gap-1 mb-1"
+        >
+          <i className="fas fa-chevron-left"></i> Back
+        </button>
+        <h2 className="text-lg font-bold text-slate-100">{machine.name}</h2>
+        {error ? (
+          <p className="text-xs text-rose-400">{error}</p>
+        ) : (
+          <p className="text-[10px] text-slate-500 font-mono">{entries ? `${entries.length} records` : 'Loading...'}</p>
+        )}
+      </div>
+
+      <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-3">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Degradation Forecast</h3>
+          {forecast && (
+            <span className="text-[10px] font-mono text-slate-400">
+              {forecast.fit.slopePerDay >= 0 ? '+' : ''}{(forecast.fit.slopePerDay * 30).toFixed(2)} dB/month · R² {forecast.fit.r2.toFixed(2)}
+            </span>
+          )}
+        </div>
+        <p className={`text-sm leading-relaxed ${forecast && forecast.crossingAt !== null ? 'text-amber-400' : 'text-slate-300'}`}>
+          {forecastText()}
+        </p>
+        {forecast && forecast.fit.r2 < 0.5 && (
+          <p className="text-[10px] text-slate-500">Readings scatter widely around the trend; treat the projection as rough.</p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <TrendChart title="Leq" unit={unit} points={levels} limit={machine.maxDb} trendLine={trendLine} />
+        <TrendChart title="Peak Frequency" unit="Hz" points={frequencies} range={machine.peakFreqRange} />
+        <div className="space-y-2">
+          <TrendChart
+            title={`${formatBandFrequency(bands[bandIndex].nominal)} Hz Band`}
+            unit="dB"
+            points={bandLevels}
+            limit={bandLimit}
+          />
+          <select
+            value={bandIndex}
+            onChange={e => setBandIndex(Number(e.target.value))}
+            className="w-full bg-slate-900 border border-slate-800 rounded-lg px-2 py-2 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          >
+            {bands.map((band, i) => (
+              <option key={band.nominal} value={i}>
+                {formatBandFrequency(band.nominal)} Hz {resolution === BandResolution.OCTAVE ? 'octave' : 'one-third octave'} band
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MachineTrend;
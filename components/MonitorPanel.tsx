@@ -0,0 +1,366 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalibrationProfile, DiagnosticStatus, MachineStandard, MonitoringSession, TimeWeighting } from '../types';
+import {
+  ALARM_CLEAR_INTERVALS,
+  ALARM_CLEAR_MARGIN_DB,
+  DEFAULT_ALARM_RAISE_INTERVALS,
+  DEFAULT_MONITOR_INTERVAL,
+  MONITOR_CHART_INTERVALS,
+  MONITOR_EMPTY_INTERVAL_LIMIT,
+  MONITOR_INTERVAL_OPTIONS,
+  STATUS_STYLES
+} from '../constants';
+import { AudioProcessor } from '../services/audioService';
+import { calibrationSnapshot, profileForDevice } from '../services/calibration';
+import { describeError } from '../services/errors';
+import { describeCaptureError } from '../services/inputDevices';
+import { deleteMonitoringSession, getMonitoringSessions, putMonitoringSession } from '../services/historyStore';
+import { activeAlarm, createAlarmTracker, createMonitoringSession, recordInterval, sessionEnd, sessionLeq, toInterval } from '../services/monitoring';
+import { playAlarmTone, requestNotificationPermission, showNotification } from '../services/alerts';
+import { weightingUnit } from '../services/weighting';
+import { useWakeLock } from './useWakeLock';
+
+interface Props {
+  machine: MachineStandard;
+  deviceId?: string;
+  profiles: CalibrationProfile[];
+  manualOffset: number;
+  timeWeighting: TimeWeighting;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-blue-500 disabled:opacity-50';
+const labelClass = 'block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1';
+
+// Span of the interval chart around the machine's limit
+const CHART_BELOW_DB = 40;
+const CHART_ABOVE_DB = 10;
+
+const formatInterval = (seconds: number) => (seconds >= 60 ? `${seconds / 60} min` : `${seconds} s`);
+
+const formatDuration = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}`;
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const MonitorPanel: React.FC<Props> = ({ machine, deviceId, profiles, manualOffset, timeWeighting, onClose }) => {
+  const [intervalSeconds, setIntervalSeconds] = useState(DEFAULT_MONITOR_INTERVAL);
+  const [raiseIntervals, setRaiseIntervals] = useState(String(DEFAULT_ALARM_RAISE_INTERVALS));
+  const [processor, setProcessor] = useState<AudioProcessor | null>(null);
+  const [session, setSession] = useState<MonitoringSession | null>(null);
+  const [sessions, setSessions] = useState<MonitoringSession[]>([]);
+  const [level, setLevel] = useState<number | null>(null);
+  const [acknowledged, setAcknowledged] = useState(true);
+  const [paused, setPaused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const processorRef = useRef<AudioProcessor | null>(null);
+  const sessionRef = useRef<MonitoringSession | null>(null);
+
+  const running = processor !== null;
+  const unit = weightingUnit(machine.weighting);
+  const raiseCount = parseInt(raiseIntervals, 10);
+  const alarm = session ? activeAlarm(session) : null;
+
+  // Hidden pages may have their audio suspended; it is restarted as soon as the page is back
+  const resume = () => {
+    processorRef.current?.resume()
+      .then(runs => setPaused(!runs))
+      .catch(() => setPaused(true));
+  };
+  const wakeLock = useWakeLock(running, resume);
+
+  const reload = () => {
+    getMonitoringSessions(machine.id)
+      .then(setSessions)
+      .catch(err => setError(`Past sessions could not be loaded (${describeError(err)}).`));
+  };
+
+  useEffect(reload, [machine.id]);
+
+  // The microphone is released if the panel goes away mid-session
+  useEffect(() => {
+    if (!processor) return;
+    const unsubscribe = processor.subscribe(update => setLevel(update.metrics.db), machine);
+    return () => {
+      unsubscribe();
+      processor.stop();
+    };
+  }, [processor]);
+
+  const save = (updated: MonitoringSession) =>
+    putMonitoringSession(updated).catch(err => setError(`The monitoring log could not be saved (${describeError(err)}).`));
+
+  // One window per interval, each closed by the analysis worker on the audio clock
+  const monitor = async (opened: AudioProcessor, started: MonitoringSession) => {
+    let current = started;
+    let tracker = createAlarmTracker();
+    let empty = 0;
+    while (processorRef.current === opened) {
+      const startedAt = Date.now();
+      const summary = await opened.measureWindow(machine, current.intervalSeconds);
+      if (processorRef.current !== opened) return;
+      // A silent window can be a passing hitch, but a run of them means the input is gone
+      if (!summary) {
+        if (++empty < MONITOR_EMPTY_INTERVAL_LIMIT) continue;
+        setError(`Monitoring stopped: no signal reached the analysis for ${MONITOR_EMPTY_INTERVAL_LIMIT} intervals in a row. Check the microphone and start again.`);
+        await stop();
+        return;
+      }
+      empty = 0;
+
+      const step = recordInterval(current, tracker, toInterval(summary, startedAt, Date.now()), machine.maxDb);
+      current = step.session;
+      tracker = step.tracker;
+      sessionRef.current = current;
+      setSession(current);
+      save(current);
+
+      if (step.raised) {
+        const raised = activeAlarm(current)!;
+        setAcknowledged(false);
+        // The banner stays up whether or not the tone and notification get through
+        showNotification(
+          `${machine.name}: ABNORMAL`,
+          `Abnormal since ${formatTime(raised.raisedAt)}, up to ${raised.maxLeq} ${unit}.`,
+          `monitor-${current.id}`
+        ).catch(() => undefined);
+        // The next interval opens once the tone is over, or it would measure the alarm and keep it from clearing
+        await playAlarmTone().catch(() => undefined);
+      }
+      if (step.cleared) {
+        setAcknowledged(true);
+        showNotification(`${machine.name}: alarm cleared`, `Back below ${machine.maxDb - ALARM_CLEAR_MARGIN_DB} ${unit}.`, `monitor-${current.id}`)
+          .catch(() => undefined);
+      }
+    }
+  };
+
+  const start = async () => {
+    setError(null);
+    if (!Number.isInteger(raiseCount) || raiseCount < 1) {
+      setError('The alarm needs at least one abnormal interval.');
+      return;
+    }
+    await requestNotificationPermission().catch(() => false);
+    const opened = new AudioProcessor(manualOffset, machine.weighting, timeWeighting);
+    try {
+      await opened.initialize(deviceId);
+    } catch (err) {
+      opened.stop();
+      setError(describeCaptureError(err));
+      return;
+    }
+    const input = opened.getInputDevice();
+    const profile = input ? profileForDevice(profiles, input.deviceId) : undefined;
+    if (profile) {
+      opened.setCalibration(profile.offset);
+      opened.setResponseCorrection(profile.responseCurve ?? null);
+    }
+
+    const started = createMonitoringSession(machine, intervalSeconds, raiseCount, calibrationSnapshot(profile, manualOffset));
+    processorRef.current = opened;
+    sessionRef.current = started;
+    setSession(started);
+    setProcessor(opened);
+    setAcknowledged(true);
+    setPaused(false);
+    save(started);
+    monitor(opened, started).catch(err => {
+      setError(`Monitoring stopped unexpectedly (${describeError(err)}).`);
+      stop();
+    });
+  };
+
+  const stop = async () => {
+    const finished = sessionRef.current;
+    processorRef.current = null;
+    sessionRef.current = null;
+    setProcessor(null);
+    setSession(null);
+    setLevel(null);
+    if (!finished) return;
+    await save({ ...finished, endedAt: Date.now() });
+    reload();
+  };
+
+  const close = async () => {
+    if (running) await stop();
+    onClose();
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteMonitoringSession(id);
+    } catch (err) {
+      setError(`The session could not be deleted (${describeError(err)}).`);
+    }
+    reload();
+  };
+
+  const recent = session ? session.intervals.slice(-MONITOR_CHART_INTERVALS) : [];
+  const chartBottom = machine.maxDb - CHART_BELOW_DB;
+  const barHeight = (leq: number) =>
+    `${Math.min(100, Math.max(2, ((leq - chartBottom) / (CHART_BELOW_DB + CHART_ABOVE_DB)) * 100))}%`;
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-950 overflow-y-auto">
+      <div className="max-w-md mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              <i className="fas fa-satellite-dish text-blue-500"></i>Monitor
+            </h2>
+            <p className="text-xs text-slate-500">{machine.name} · limit {machine.maxDb} {unit}</p>
+          </div>
+          <button onClick={close} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+
+        {alarm && (
+          <div className={`p-4 rounded-2xl border ${STATUS_STYLES[DiagnosticStatus.ABNORMAL].panel} ${acknowledged ? '' : 'animate-pulse'}`}>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="text-sm font-black text-red-400 uppercase tracking-widest">
+                  <i className="fas fa-bell mr-2"></i>Alarm
+                </div>
+                <div className="text-xs text-slate-300 mt-1">
+                  Abnormal since {formatTime(alarm.raisedAt)} · up to {alarm.maxLeq} {unit}
+                </div>
+              </div>
+              {!acknowledged && (
+                <button onClick={() => setAcknowledged(true)} className="px-3 py-2 bg-red-600 hover:bg-red-500 rounded-lg text-[10px] font-bold uppercase tracking-widest">
+                  Acknowledge
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+          <div>
+            <label className={labelClass}>Leq Interval</label>
+            <div className="flex gap-2">
+              {MONITOR_INTERVAL_OPTIONS.map(seconds => (
+                <button
+                  key={seconds}
+                  disabled={running}
+                  onClick={() => setIntervalSeconds(seconds)}
+                  className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all disabled:opacity-50 ${
+                    intervalSeconds === seconds ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'
+                  }`}
+                >
+                  {formatInterval(seconds)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Alarm After (Abnormal Intervals)</label>
+            <input type="number" min="1" step="1" className={inputClass} value={raiseIntervals} disabled={running} onChange={e => setRaiseIntervals(e.target.value)} />
+          </div>
+          <p className="text-[10px] text-slate-500 leading-tight">
+            <i className="fas fa-info-circle mr-1"></i>
+            An alarm is raised once {Number.isInteger(raiseCount) && raiseCount > 0 ? raiseCount : '?'} intervals in a row grade ABNORMAL, and clears after {ALARM_CLEAR_INTERVALS} intervals at least {ALARM_CLEAR_MARGIN_DB} dB under the limit. Leave the app in front with the charger connected: the screen is kept on where the browser allows it.
+          </p>
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <button
+            onClick={running ? stop : start}
+            className={`w-full py-4 rounded-xl font-bold transition-all text-sm uppercase tracking-widest ${
+              running ? 'bg-rose-600 hover:bg-rose-500' : 'bg-blue-600 hover:bg-blue-500'
+            }`}
+          >
+            <i className={`fas ${running ? 'fa-stop' : 'fa-play'} mr-2`}></i>
+            {running ? 'Stop Monitoring' : 'Start Monitoring'}
+          </button>
+        </div>
+
+        {running && session && (
+          <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              {([
+                ['Now', level === null ? '--' : level.toFixed(1)],
+                ['Session Leq', sessionLeq(session)?.toFixed(1) ?? '--'],
+                ['Intervals', String(session.intervals.length)]
+              ] as [string, string][]).map(([label, value]) => (
+                <div key={label}>
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</div>
+                  <div className="font-mono font-bold text-slate-200">{value}</div>
+                </div>
+              ))}
+            </div>
+            <div className="relative h-24 flex items-end gap-px bg-slate-800/40 rounded-lg overflow-hidden">
+              <div
+                className="absolute left-0 right-0 border-t border-dashed border-amber-400/70"
+                style={{ bottom: barHeight(machine.maxDb) }}
+              ></div>
+              {recent.map(interval => (
+                <div
+                  key={interval.startedAt}
+                  title={`${formatTime(interval.startedAt)} · ${interval.leq} ${unit}`}
+                  className={`flex-1 ${STATUS_STYLES[interval.status].dot}`}
+                  style={{ height: barHeight(interval.leq) }}
+                ></div>
+              ))}
+            </div>
+            <div className="text-[10px] text-slate-500 space-y-1">
+              <p>
+                <i className={`fas ${wakeLock === 'held' ? 'fa-sun text-emerald-400' : 'fa-moon text-amber-400'} mr-1`}></i>
+                {wakeLock === 'held'
+                  ? 'Screen kept on.'
+                  : wakeLock === 'unsupported'
+                    ? 'This browser cannot keep the screen on; turn off auto-lock so monitoring keeps running.'
+                    : 'The screen may turn off, which can pause monitoring.'}
+              </p>
+              <p>Started {formatTime(session.startedAt)} · {formatInterval(session.intervalSeconds)} intervals</p>
+            </div>
+            {paused && (
+              <button onClick={resume} className="w-full py-2 bg-amber-600/20 border border-amber-500/40 rounded-lg text-xs text-amber-300">
+                <i className="fas fa-exclamation-triangle mr-1"></i>The browser paused the microphone. Tap to resume.
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Monitoring Sessions</h3>
+          {sessions.filter(s => s.id !== session?.id).length === 0 ? (
+            <p className="text-sm text-slate-600 text-center py-6">No monitoring sessions for this machine yet.</p>
+          ) : sessions.filter(s => s.id !== session?.id).map(past => (
+            <div key={past.id} className="bg-slate-900 p-4 rounded-2xl border border-slate-800 space-y-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="text-sm font-bold text-slate-100">{new Date(past.startedAt).toLocaleString()}</div>
+                  <div className="text-[10px] text-slate-500">
+                    {formatDuration(sessionEnd(past) - past.startedAt)} · {past.intervals.length} × {formatInterval(past.intervalSeconds)}
+                    {past.endedAt === null && ' · interrupted'}
+                  </div>
+                </div>
+                <button onClick={() => remove(past.id)} className="text-slate-600 hover:text-rose-400 transition-colors">
+                  <i className="fas fa-trash-alt text-xs"></i>
+                </button>
+              </div>
+              <div className="text-xs font-mono text-slate-300">
+                Leq {sessionLeq(past) ?? '--'} · max {past.intervals.length > 0 ? Math.max(...past.intervals.map(i => i.lmax)) : '--'} {unit}
+              </div>
+              {past.alarms.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {past.alarms.map(a => (
+                    <span key={a.raisedAt} className="text-[10px] font-mono bg-red-500/10 text-red-300 rounded px-2 py-1">
+                      {formatTime(a.raisedAt)}–{a.clearedAt ? formatTime(a.clearedAt) : 'end'} · {a.maxLeq} {unit}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MonitorPanel;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ProtocolPhase, ProtocolRun } from '../types';
+
+interface Props {
+  run: ProtocolRun;
+  onPositionReady: () => void;
+}
+
+const PHASE_LABELS: Record<ProtocolPhase, string> = {
+  [ProtocolPhase.POSITION]: 'Reposition',
+  [ProtocolPhase.SETTLE]: 'Settling (discarded)',
+  [ProtocolPhase.MEASURE]: 'Measuring'
+};
+
+const ProtocolPanel: React.FC<Props> = ({ run, onPositionReady }) => {
+  const step = run.steps[run.index];
+  const { repeats } = run.protocol;
+
+  return (
+    <div className="bg-slate-900 p-5 rounded-2xl border border-blue-500/30 space-y-3">
+      <div className="flex justify-between items-baseline">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+          Run {run.index + 1} / {run.steps.length}
+        </span>
+        <span className="text-[10px] font-bold text-blue-400 uppercase tracking-widest">{PHASE_LABELS[run.phase]}</span>
+      </div>
+      {step.position && (
+        <p className="text-sm text-slate-200">
+          <i className="fas fa-map-marker-alt text-blue-500 mr-2"></i>{step.position}
+          {repeats > 1 && <span className="text-slate-500 font-mono text-xs ml-2">repeat {step.repeat} / {repeats}</span>}
+        </p>
+      )}
+      {!step.position && repeats > 1 && (
+        <p className="text-xs text-slate-500 font-mono">Repeat {step.repeat} / {repeats}</p>
+      )}
+      {run.phase === ProtocolPhase.POSITION ? (
+        <>
+          <p className="text-xs text-slate-400 leading-relaxed">
+            Move the microphone to <span className="text-slate-200 font-semibold">{step.position}</span> and hold it steady.
+          </p>
+          <button
+            onClick={onPositionReady}
+            className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-all text-xs uppercase tracking-widest"
+          >
+            <i className="fas fa-check mr-2"></i>In Position
+          </button>
+        </>
+      ) : (
+        <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all duration-1000 ${run.phase === ProtocolPhase.SETTLE ? 'bg-slate-500' : 'bg-blue-500'}`}
+            style={{ width: `${(run.index / run.steps.length) * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProtocolPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { BandResolution, HistoryEntry, MeasurementSummary } from '../types';
+import { BASELINE_THRESHOLDS, STATUS_STYLES } from '../constants';
+import { bandDeltas } from '../services/baseline';
+import { formatBandFrequency } from '../services/octaveBands';
+
+interface Props {
+  current: MeasurementSummary;
+  records: HistoryEntry[]; // Earlier records that can serve as the reference, newest first
+  reference: HistoryEntry;
+  onSelect: (id: string) => void;
+  difference: boolean;
+  onDifferenceChange: (difference: boolean) => void;
+}
+
+const formatDelta = (value: number) => `${value > 0 ? '+' : ''}${value} dB`;
+
+const describeRecord = (entry: HistoryEntry) =>
+  `${new Date(entry.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} · ${entry.db} dB · ${entry.status}${entry.sourceFile ? ` · ${entry.sourceFile}` : ''}`;
+
+// Colours a band change by the same limits the baseline check grades drift with
+const deltaTone = (delta: number) =>
+  Math.abs(delta) > BASELINE_THRESHOLDS.abnormal.bandDelta ? 'text-red-400'
+    : Math.abs(delta) > BASELINE_THRESHOLDS.warning.bandDelta ? 'text-amber-400'
+    : 'text-slate-300';
+
+const ReferenceComparison: React.FC<Props> = ({ current, records, reference, onSelect, difference, onDifferenceChange }) => {
+  const deltas = reference.bands ? bandDeltas(current.bands, reference.bands, BandResolution.OCTAVE) : [];
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="flex gap-2">
+        <select
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          value={reference.id}
+          onChange={e => onSelect(e.target.value)}
+        >
+          {records.map(entry => (
+            <option key={entry.id} value={entry.id}>{describeRecord(entry)}</option>
+          ))}
+        </select>
+        <div className="flex bg-slate-800 rounded-lg p-0.5">
+          {([[false, 'Overlay'], [true, 'Diff']] as [boolean, string][]).map(([mode, label]) => (
+            <button
+              key={label}
+              onClick={() => onDifferenceChange(mode)}
+              className={`px-2 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${
+                difference === mode ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-between text-sm">
+        <span className="text-slate-400">
+          Leq vs reference <span className={`text-[10px] font-black ${STATUS_STYLES[reference.status].text}`}>{reference.status}</span>
+        </span>
+        <span className="text-slate-200 font-mono">{formatDelta(Math.round((current.leq - reference.db) * 10) / 10)}</span>
+      </div>
+      {deltas.length > 0 && (
+        <div className="grid grid-cols-5 gap-1">
+          {deltas.map(d => (
+            <div key={d.nominal} className="bg-slate-800/60 rounded px-1 py-1 text-center">
+              <div className="text-[9px] text-slate-500 font-mono">{formatBandFrequency(d.nominal)}Hz</div>
+              <div className={`text-[10px] font-mono font-bold ${deltaTone(d.delta)}`}>{formatDelta(d.delta)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceComparison;
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalibrationProfile, FrequencyWeighting, ResponsePoint, TimeWeighting } from '../types';
+import { RESPONSE_SWEEP_FREQUENCIES } from '../constants';
+import { AudioProcessor } from '../services/audioService';
+import { formatResponseCsv, normalizeResponse, parseResponseCsv } from '../services/responseCurve';
+import { formatBandFrequency } from '../services/octaveBands';
+import { downloadFile } from '../services/download';
+import { describeError } from '../services/errors';
+import { describeCaptureError } from '../services/inputDevices';
+import { useSteadyLevel } from './useSteadyLevel';
+
+interface Props {
+  profile: CalibrationProfile;
+  onSave: (curve: ResponsePoint[] | undefined) => void;
+  onCancel: () => void;
+}
+
+const actionClass = 'flex-1 py-2 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200 disabled:opacity-40';
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-blue-500';
+
+const formatDb = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+const ResponseCurvePanel: React.FC<Props> = ({ profile, onSave, onCancel }) => {
+  const [curve, setCurve] = useState<ResponsePoint[] | undefined>(profile.responseCurve);
+  const [error, setError] = useState<string | null>(null);
+  const [sweepStep, setSweepStep] = useState<number | null>(null);
+  const [sweepPoints, setSweepPoints] = useState<ResponsePoint[]>([]);
+  const [reference, setReference] = useState('');
+  const [processor, setProcessor] = useState<AudioProcessor | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { level, steady, average, reset } = useSteadyLevel(processor);
+  const sweeping = sweepStep !== null;
+
+  // Uncorrected, Z-weighted readings at the profile's sensitivity
+  useEffect(() => {
+    if (!sweeping) return;
+    let cancelled = false;
+    const opened = new AudioProcessor(profile.offset, FrequencyWeighting.Z, TimeWeighting.SLOW);
+    opened.initialize(profile.deviceId)
+      .then(() => {
+        if (!cancelled) setProcessor(opened);
+      })
+      .catch(err => {
+        setError(describeCaptureError(err));
+        setSweepStep(null);
+      });
+    return () => {
+      cancelled = true;
+      opened.stop();
+      setProcessor(null);
+    };
+  }, [sweeping, profile.offset, profile.deviceId]);
+
+  useEffect(() => {
+    if (processor && sweepStep !== null) {
+      processor.playTone(RESPONSE_SWEEP_FREQUENCIES[sweepStep]);
+      reset();
+    }
+  }, [processor, sweepStep, reset]);
+
+  const handleImport = async (file: File) => {
+    try {
+      setCurve(parseResponseCsv(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(`Could not read the response file (${describeError(err)}).`);
+    }
+  };
+
+  const startSweep = () => {
+    setError(null);
+    setSweepPoints([]);
+    setReference('');
+    setSweepStep(0);
+  };
+
+  const finishSweep = (points: ResponsePoint[]) => {
+    setSweepStep(null);
+    if (points.length >= 2) setCurve(normalizeResponse(points));
+    else setError('The sweep needs at least two recorded frequencies.');
+  };
+
+  const advance = (points: ResponsePoint[]) => {
+    setSweepPoints(points);
+    setReference('');
+    if (sweepStep === null) return;
+    if (sweepStep + 1 < RESPONSE_SWEEP_FREQUENCIES.length) setSweepStep(sweepStep + 1);
+    else finishSweep(points);
+  };
+
+  const recordStep = () => {
+    if (sweepStep === null) return;
+    // Response is what the phone reads above the reference at this frequency
+    const point = { frequency: RESPONSE_SWEEP_FREQUENCIES[sweepStep], db: average() - parseFloat(reference) };
+    advance([...sweepPoints, point]);
+  };
+
+  const referenceDb = parseFloat(reference);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-chart-line text-blue-500"></i>
+        <h2 className="text-lg font-bold">Frequency Response</h2>
+      </div>
+      <p className="text-xs text-slate-400">{profile.name}</p>
+
+      {error && <p className="text-xs text-red-400"><i className="fas fa-exclamation-circle mr-1"></i>{error}</p>}
+
+      {sweeping ? (
+        <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+          <div className="flex justify-between items-baseline">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              Step {sweepStep + 1} / {RESPONSE_SWEEP_FREQUENCIES.length}
+            </span>
+            <span className="text-2xl font-black font-mono text-blue-400">
+              {formatBandFrequency(RESPONSE_SWEEP_FREQUENCIES[sweepStep])} Hz
+            </span>
+          </div>
+          <div className="text-center">
+            <div className="text-4xl font-black font-mono text-slate-100">{level === null ? '--' : level.toFixed(1)}</div>
+            <div className={`text-[10px] font-bold uppercase tracking-widest mt-1 ${steady ? 'text-emerald-400' : 'text-amber-400'}`}>
+              {!processor ? 'Opening microphone...' : steady ? 'Reading steady' : 'Settling...'}
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 leading-relaxed">
+            Hold a reference meter (Z weighting, Slow) beside the microphone and enter its reading. Route the tone to an
+            external speaker for the lowest steps; phone speakers cannot reproduce them.
+          </p>
+          <input
+            type="number"
+            step="0.1"
+            placeholder="Reference reading (dB)"
+            className={inputClass}
+            value={reference}
+            onChange={e => setReference(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <button onClick={recordStep} disabled={!steady || !Number.isFinite(referenceDb)} className={actionClass}>Record</button>
+            <button onClick={() => advance(sweepPoints)} className={actionClass}>Skip</button>
+            <button onClick={() => finishSweep(sweepPoints)} className={actionClass}>Finish</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={actionClass}>
+              <i className="fas fa-file-import mr-1"></i> Import CSV
+            </button>
+            <button onClick={startSweep} className={actionClass}>
+              <i className="fas fa-wave-square mr-1"></i> Sweep
+            </button>
+            <button
+              onClick={() => curve && downloadFile(`${profile.name.replace(/[^\w-]+/g, '_')}_response.csv`, formatResponseCsv(curve), 'text/csv')}
+              disabled={!curve}
+              className={actionClass}
+            >
+              <i className="fas fa-file-export mr-1"></i> Export
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800">
+            {curve ? (
+              <>
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Response re 1 kHz (dB)</p>
+                <div className="flex flex-wrap gap-2">
+                  {curve.map(p => (
+                    <span key={p.frequency} className="text-[10px] font-mono px-2 py-1 rounded bg-slate-800 text-slate-300">
+                      {formatBandFrequency(p.frequency)}Hz {formatDb(p.db)}
+                    </span>
+                  ))}
+                </div>
+                <button onClick={() => setCurve(undefined)} className="mt-4 text-[10px] font-bold uppercase tracking-widest text-red-500 hover:text-red-400">
+                  Remove Curve
+                </button>
+              </>
+            ) : (
+              <p className="text-xs text-slate-500">
+                No correction: levels and spectra assume a flat microphone. Import the capsule's calibration file or measure a sweep.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={onCancel} className="py-4 bg-slate-800 hover:bg-slate-700 rounded-xl font-bold transition-all text-sm uppercase tracking-widest">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(curve)}
+          disabled={sweeping}
+          className="py-4 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-all text-sm uppercase tracking-widest disabled:opacity-40"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResponseCurvePanel;
@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SPECTROGRAM_COLUMNS, SPECTROGRAM_MIN_FREQUENCY, SPECTROGRAM_ROWS, SPECTRUM_RANGE_DB } from '../constants';
+import { formatBandFrequency } from '../services/octaveBands';
+
+interface Props {
+  data: Float32Array; // dBFS per bin; each new array is one more column
+  sampleRate: number;
+  offset: number;     // dB SPL at 0 dBFS, for the legend and readout
+}
+
+const GUTTER = { left: 28, bottom: 12 }; // CSS px for the axis labels
+const FREQUENCY_TICKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+// Dark blue through cyan and yellow to red
+const COLOR_STOPS: [number, number, number][] = [[15, 23, 42], [30, 64, 175], [6, 182, 212], [250, 204, 21], [239, 68, 68]];
+
+const COLOR_LUT = (() => {
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (COLOR_STOPS.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(COLOR_STOPS.length - 1, lower + 1);
+    const fraction = position - lower;
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] = COLOR_STOPS[lower][c] + (COLOR_STOPS[upper][c] - COLOR_STOPS[lower][c]) * fraction;
+    }
+  }
+  return lut;
+})();
+
+const GRADIENT_CSS = `linear-gradient(to right, ${COLOR_STOPS.map(([r, g, b]) => `rgb(${r},${g},${b})`).join(', ')})`;
+
+// Row 0 is the top of the plot, at the highest frequency
+const rowFrequency = (row: number, maxFrequency: number) =>
+  maxFrequency * Math.pow(SPECTROGRAM_MIN_FREQUENCY / maxFrequency, row / (SPECTROGRAM_ROWS - 1));
+
+const frequencyRow = (frequency: number, maxFrequency: number) =>
+  ((SPECTROGRAM_ROWS - 1) * Math.log(maxFrequency / frequency)) / Math.log(maxFrequency / SPECTROGRAM_MIN_FREQUENCY);
+
+interface History {
+  columns: Float32Array[]; // Ring of per-row levels (dBFS)
+  times: Float64Array;     // performance.now() of each column
+  head: number;            // Next column to write, and the oldest one
+  count: number;
+}
+
+const Spectrogram: React.FC<Props> = ({ data, sampleRate, offset }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastDataRef = useRef<Float32Array | null>(null);
+  const historyRef = useRef<History>({
+    columns: Array.from({ length: SPECTROGRAM_COLUMNS }, () => new Float32Array(SPECTROGRAM_ROWS).fill(-Infinity)),
+    times: new Float64Array(SPECTROGRAM_COLUMNS),
+    head: 0,
+    count: 0
+  });
+  // Columns are painted once into a ring-shaped image and unwrapped when drawn
+  const imageRef = useRef<{ canvas: HTMLCanvasElement; image: ImageData } | null>(null);
+  const [frozen, setFrozen] = useState(false);
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null); // Fractions of the plot area
+
+  const maxFrequency = sampleRate / 2;
+
+  // FFT bins behind each row; high rows span many bins and show the loudest
+  const rowBins = useMemo(() => {
+    if (!sampleRate || data.length === 0) return null;
+    const binHz = maxFrequency / data.length;
+    return Array.from({ length: SPECTROGRAM_ROWS }, (_, row) => {
+      const upper = row === 0 ? maxFrequency : Math.sqrt(rowFrequency(row, maxFrequency) * rowFrequency(row - 1, maxFrequency));
+      const lower = row === SPECTROGRAM_ROWS - 1 ? SPECTROGRAM_MIN_FREQUENCY : Math.sqrt(rowFrequency(row, maxFrequency) * rowFrequency(row + 1, maxFrequency));
+      const start = Math.min(data.length - 1, Math.floor(lower / binHz));
+      return [start, Math.max(start + 1, Math.min(data.length, Math.ceil(upper / binHz)))] as [number, number];
+    });
+  }, [sampleRate, maxFrequency, data.length]);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const ring = imageRef.current;
+    if (!canvas || !ctx || !ring) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const plot = {
+      x: GUTTER.left * dpr,
+      w: canvas.width - GUTTER.left * dpr,
+      h: canvas.height - GUTTER.bottom * dpr
+    };
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    ring.canvas.getContext('2d')?.putImageData(ring.image, 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    const { head, count, times } = historyRef.current;
+    // The oldest column sits at head: draw head..end, then 0..head, so time runs left to right
+    const olderWidth = ((SPECTROGRAM_COLUMNS - head) / SPECTROGRAM_COLUMNS) * plot.w;
+    ctx.drawImage(ring.canvas, head, 0, SPECTROGRAM_COLUMNS - head, SPECTROGRAM_ROWS, plot.x, 0, olderWidth, plot.h);
+    if (head > 0) {
+      ctx.drawImage(ring.canvas, 0, 0, head, SPECTROGRAM_ROWS, plot.x + olderWidth, 0, plot.w - olderWidth, plot.h);
+    }
+
+    ctx.font = `${8 * dpr}px monospace`;
+    ctx.fillStyle = 'rgb(148,163,184)';
+    ctx.strokeStyle = 'rgba(148,163,184,0.25)';
+    ctx.textAlign = 'right';
+    if (maxFrequency > 0) {
+      FREQUENCY_TICKS.filter(f => f < maxFrequency).forEach(f => {
+        const y = (frequencyRow(f, maxFrequency) / (SPECTROGRAM_ROWS - 1)) * plot.h;
+        ctx.fillText(formatBandFrequency(f), plot.x - 3 * dpr, y + 3 * dpr);
+        ctx.beginPath();
+        ctx.moveTo(plot.x, y);
+        ctx.lineTo(plot.x + plot.w, y);
+        ctx.stroke();
+      });
+    }
+
+    if (count > 1) {
+      const newest = times[(head + SPECTROGRAM_COLUMNS - 1) % SPECTROGRAM_COLUMNS];
+      const oldest = times[count < SPECTROGRAM_COLUMNS ? 0 : head];
+      ctx.textAlign = 'left';
+      ctx.fillText(`-${((newest - oldest) / 1000).toFixed(1)}s`, plot.x + (count < SPECTROGRAM_COLUMNS ? olderWidth : 0), canvas.height - 2 * dpr);
+      ctx.textAlign = 'right';
+      ctx.fillText(frozen ? 'frozen' : 'now', canvas.width - 2 * dpr, canvas.height - 2 * dpr);
+    }
+
+    if (cursor) {
+      ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+      ctx.beginPath();
+      ctx.moveTo(plot.x + cursor.x * plot.w, 0);
+      ctx.lineTo(plot.x + cursor.x * plot.w, plot.h);
+      ctx.moveTo(plot.x, cursor.y * plot.h);
+      ctx.lineTo(plot.x + plot.w, cursor.y * plot.h);
+      ctx.stroke();
+    }
+  }, [maxFrequency, frozen, cursor]);
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  // Canvas resolution follows its on-screen size
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    const ringCanvas = document.createElement('canvas');
+    ringCanvas.width = SPECTROGRAM_COLUMNS;
+    ringCanvas.height = SPECTROGRAM_ROWS;
+    imageRef.current = { canvas: ringCanvas, image: new ImageData(SPECTROGRAM_COLUMNS, SPECTROGRAM_ROWS) };
+
+    const observer = new ResizeObserver(() => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(container.clientWidth * dpr);
+      canvas.height = Math.round(container.clientHeight * dpr);
+      drawRef.current();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (frozen || !rowBins || data === lastDataRef.current || data.length === 0) return;
+    lastDataRef.current = data;
+
+    const history = historyRef.current;
+    const column = history.columns[history.head];
+    rowBins.forEach(([start, end], row) => {
+      let level = -Infinity;
+      for (let bin = start; bin < end; bin++) {
+        if (data[bin] > level) level = data[bin];
+      }
+      column[row] = level;
+    });
+    history.times[history.head] = performance.now();
+
+    const image = imageRef.current?.image;
+    if (image) {
+      const [minDb, maxDb] = SPECTRUM_RANGE_DB;
+      for (let row = 0; row < SPECTROGRAM_ROWS; row++) {
+        const shade = Math.round(Math.min(1, Math.max(0, (column[row] - minDb) / (maxDb - minDb))) * 255);
+        const pixel = (row * SPECTROGRAM_COLUMNS + history.head) * 4;
+        image.data[pixel] = COLOR_LUT[shade * 3];
+        image.data[pixel + 1] = COLOR_LUT[shade * 3 + 1];
+        image.data[pixel + 2] = COLOR_LUT[shade * 3 + 2];
+        image.data[pixel + 3] = 255;
+      }
+    }
+    history.head = (history.head + 1) % SPECTROGRAM_COLUMNS;
+    history.count = Math.min(SPECTROGRAM_COLUMNS, history.count + 1);
+  }, [data, frozen, rowBins]);
+
+  useEffect(draw, [draw, data]);
+
+  const handlePointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left - GUTTER.left) / (rect.width - GUTTER.left);
+    const y = (e.clientY - rect.top) / (rect.height - GUTTER.bottom);
+    setCursor(x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null);
+  };
+
+  const readout = (() => {
+    if (!cursor || maxFrequency <= 0) return null;
+    const { columns, times, head, count } = historyRef.current;
+    const column = (head + Math.min(SPECTROGRAM_COLUMNS - 1, Math.floor(cursor.x * SPECTROGRAM_COLUMNS))) % SPECTROGRAM_COLUMNS;
+    const row = Math.round(cursor.y * (SPECTROGRAM_ROWS - 1));
+    const level = columns[column][row];
+    if (count === 0 || !Number.isFinite(level)) return null;
+    const newest = times[(head + SPECTROGRAM_COLUMNS - 1) % SPECTROGRAM_COLUMNS];
+    return {
+      frequency: rowFrequency(row, maxFrequency),
+      level: level + offset,
+      age: (newest - times[column]) / 1000
+    };
+  })();
+
+  const [minDb, maxDb] = SPECTRUM_RANGE_DB;
+
+  return (
+    <div className="space-y-2">
+      <div ref={containerRef} className="w-full h-48 bg-slate-800 rounded-lg overflow-hidden relative">
+        <canvas
+          ref={canvasRef}
+          className="w-full h-full cursor-crosshair touch-none"
+          onPointerDown={handlePointer}
+          onPointerMove={handlePointer}
+          onPointerLeave={() => setCursor(null)}
+        />
+        <div className="absolute top-1 right-2 text-[10px] font-mono text-slate-200 bg-slate-900/70 px-1 rounded pointer-events-none">
+          {readout
+            ? `${readout.frequency >= 1000 ? `${(readout.frequency / 1000).toFixed(2)} kHz` : `${Math.round(readout.frequency)} Hz`} · ${readout.level.toFixed(1)} dB · -${readout.age.toFixed(1)}s`
+            : `SPECTROGRAM (${SPECTROGRAM_MIN_FREQUENCY} Hz - ${formatBandFrequency(Math.round(maxFrequency / 100) * 100)}Hz)`}
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-mono text-slate-500">{Math.round(minDb + offset)}</span>
+        <div className="flex-1 h-2 rounded" style={{ background: GRADIENT_CSS }} />
+        <span className="text-[10px] font-mono text-slate-500">{Math.round(maxDb + offset)} dB</span>
+        <button
+          onClick={() => setFrozen(f => !f)}
+          className={`ml-2 px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest ${frozen ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}
+        >
+          <i className={`fas ${frozen ? 'fa-play' : 'fa-pause'} mr-1`}></i>{frozen ? 'Resume' : 'Freeze'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Spectrogram;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { OutboxItem, RecordKind, SyncSettings, SyncState } from '../types';
+import { getRecord } from '../services/historyStore';
+import { describeError } from '../services/errors';
+import { differingFields } from '../services/sync';
+
+interface Props {
+  settings: SyncSettings;
+  onSave: (settings: SyncSettings) => void;
+  outbox: OutboxItem[];
+  online: boolean;
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  error: string | null;        // Why the queue could not be read or worked through
+  offlineError: string | null; // Why the app can't be cached for offline use
+  onSyncNow: () => void;
+  onKeepLocal: (item: OutboxItem) => void;
+  onAcceptRemote: (item: OutboxItem) => void;
+  onRetry: (item: OutboxItem) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-blue-500';
+
+const KIND_LABELS: Record<RecordKind, string> = {
+  [RecordKind.HISTORY]: 'Diagnostic',
+  [RecordKind.DOSIMETRY]: 'Dosimetry'
+};
+
+const SyncPanel: React.FC<Props> = ({
+  settings, onSave, outbox, online, syncing, lastSyncedAt, error, offlineError, onSyncNow, onKeepLocal, onAcceptRemote, onRetry
+}) => {
+  const [endpoint, setEndpoint] = useState(settings.endpoint);
+  const [token, setToken] = useState(settings.token);
+  const [differences, setDifferences] = useState<Record<string, string[]>>({});
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  const pending = outbox.filter(item => item.state === SyncState.PENDING);
+  const conflicts = outbox.filter(item => item.state === SyncState.CONFLICT);
+  const rejected = outbox.filter(item => item.state === SyncState.REJECTED);
+  const lastError = pending.find(item => item.lastError)?.lastError;
+  const dirty = endpoint.trim() !== settings.endpoint || token.trim() !== settings.token;
+
+  // Which fields each conflict is about, against the local copy
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(conflicts.map(async item => [item.key, differingFields(await getRecord(item.kind, item.recordId), item.remote?.record)] as const))
+      .then(entries => {
+        if (cancelled) return;
+        setDifferences(Object.fromEntries(entries));
+        setCompareError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setCompareError(`Conflicting records could not be compared (${describeError(err)}).`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [outbox]);
+
+  return (
+    <div className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-4">
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">Records Endpoint</label>
+        <input
+          type="url"
+          className={inputClass}
+          value={endpoint}
+          onChange={e => setEndpoint(e.target.value)}
+          placeholder="https://example.com/api (empty = keep records on this device)"
+        />
+      </div>
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">Access Token</label>
+        <input type="password" className={inputClass} value={token} onChange={e => setToken(e.target.value)} placeholder="Optional" />
+      </div>
+      {dirty && (
+        <button
+          onClick={() => onSave({ endpoint: endpoint.trim(), token: token.trim() })}
+          className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-all text-xs uppercase tracking-widest"
+        >
+          Save Sync Settings
+        </button>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-slate-800/50 text-sm">
+        <div className="flex justify-between">
+          <span className="text-slate-400">Connection</span>
+          <span className={online ? 'text-green-400' : 'text-amber-400'}>{online ? 'Online' : 'Offline'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Waiting to sync</span>
+          <span className="text-slate-200 font-mono">{pending.length}</span>
+        </div>
+        {lastSyncedAt && (
+          <div className="flex justify-between">
+            <span className="text-slate-400">Last synced</span>
+            <span className="text-slate-200 font-mono">{new Date(lastSyncedAt).toLocaleTimeString()}</span>
+          </div>
+        )}
+        {lastError && <p className="text-xs text-amber-400/80">Last attempt: {lastError}</p>}
+        {[error, compareError, offlineError].filter(Boolean).map(message => (
+          <p key={message} className="text-xs text-rose-400">{message}</p>
+        ))}
+      </div>
+
+      {conflicts.map(item => (
+        <div key={item.key} className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-xl space-y-2">
+          <p className="text-xs text-amber-300">
+            <i className="fas fa-code-branch mr-1"></i>
+            {KIND_LABELS[item.kind]} record {item.recordId.slice(0, 8)} differs on the server
+            {differences[item.key]?.length ? ` in ${differences[item.key].join(', ')}` : ''}.
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => onKeepLocal(item)} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-bold uppercase tracking-widest">
+              Keep Mine
+            </button>
+            <button onClick={() => onAcceptRemote(item)} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-bold uppercase tracking-widest">
+              Use Server's
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {rejected.map(item => (
+        <div key={item.key} className="flex items-center gap-3 p-3 bg-red-500/10 border border-red-500/30 rounded-xl">
+          <p className="flex-1 text-xs text-red-300">
+            {KIND_LABELS[item.kind]} record {item.recordId.slice(0, 8)} was refused: {item.lastError}
+          </p>
+          <button onClick={() => onRetry(item)} className="text-[10px] font-bold uppercase tracking-widest text-slate-300 hover:text-white">
+            Retry
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={onSyncNow}
+        disabled={!settings.endpoint || !online || syncing}
+        className="w-full py-3 bg-slate-800 hover:bg-slate-700 rounded-xl font-bold transition-all text-xs uppercase tracking-widest disabled:opacity-40"
+      >
+        <i className={`fas fa-sync-alt mr-2 ${syncing ? 'animate-spin' : ''}`}></i>Sync Now
+      </button>
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { ExpectedFundamental, TonalAnalysis, ToneKind } from '../types';
+
+interface Props {
+  analysis: TonalAnalysis;
+  expected?: ExpectedFundamental;
+}
+
+const KIND_STYLES: Record<ToneKind, string> = {
+  [ToneKind.HARMONIC]: 'text-emerald-400',
+  [ToneKind.SIDEBAND]: 'text-amber-400',
+  [ToneKind.UNRELATED]: 'text-red-400'
+};
+
+const TonalPanel: React.FC<Props> = ({ analysis, expected }) => {
+  return (
+    <div className="bg-slate-900/50 rounded-2xl p-5 border border-slate-800">
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4">Tonal Components</h3>
+      <div className="space-y-3">
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-400">Fundamental</span>
+          <span className="text-slate-200 font-mono">
+            {analysis.fundamental !== null ? `${analysis.fundamental} Hz` : 'None found'}
+            {expected && !analysis.fundamentalConfirmed && (
+              <span className="text-amber-400 ml-2 text-[10px]">NOT DETECTED</span>
+            )}
+          </span>
+        </div>
+        {analysis.components.length === 0 ? (
+          <p className="text-[10px] text-slate-500">No prominent tones above the broadband floor.</p>
+        ) : (
+          <div className="pt-2 border-t border-slate-800/50 space-y-1">
+            {analysis.components.map(c => (
+              <div key={c.frequency} className="flex justify-between text-xs font-mono">
+                <span className="text-slate-300">{c.frequency} Hz</span>
+                <span className="text-slate-500">{c.level} dB</span>
+                <span className={`uppercase text-[10px] font-bold w-24 text-right ${KIND_STYLES[c.kind]}`}>
+                  {c.kind === ToneKind.HARMONIC ? `H${c.order}` : c.kind === ToneKind.SIDEBAND ? `Side H${c.order}` : 'Unrelated'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TonalPanel;
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef } from 'react';
+import { DiagnosticStatus, TrendPoint } from '../types';
+
+export interface TrendChartPoint extends TrendPoint {
+  status: DiagnosticStatus;
+}
+
+interface Props {
+  title: string;
+  unit: string;
+  points: TrendChartPoint[];
+  limit?: number;                 // Drawn as a horizontal line
+  range?: [number, number];       // Acceptable span, drawn as a shaded band
+  trendLine?: [TrendPoint, TrendPoint];
+}
+
+// Canvas has no Tailwind, so the status colours are repeated here
+const STATUS_COLORS: Record<DiagnosticStatus, string> = {
+  [DiagnosticStatus.NORMAL]: 'rgb(16,185,129)',
+  [DiagnosticStatus.WARNING]: 'rgb(245,158,11)',
+  [DiagnosticStatus.ABNORMAL]: 'rgb(239,68,68)',
+  [DiagnosticStatus.INDETERMINATE]: 'rgb(167,139,250)',
+  [DiagnosticStatus.IDLE]: 'rgb(100,116,139)'
+};
+
+const PADDING = { left: 30, right: 8, top: 16, bottom: 14 };
+
+const formatDay = (timestamp: number) => new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const TrendChart: React.FC<Props> = ({ title, unit, points, limit, range, trendLine }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    if (points.length === 0) return;
+
+    const times = [...points.map(p => p.timestamp), ...(trendLine ?? []).map(p => p.timestamp)];
+    const values = [
+      ...points.map(p => p.value),
+      ...(trendLine ?? []).map(p => p.value),
+      ...(limit !== undefined ? [limit] : []),
+      ...(range ?? [])
+    ];
+    const t0 = Math.min(...times);
+    const t1 = Math.max(...times, t0 + 1);
+    const span = Math.max(...values) - Math.min(...values);
+    const v0 = Math.min(...values) - Math.max(1, span * 0.1);
+    const v1 = Math.max(...values) + Math.max(1, span * 0.1);
+
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const toX = (t: number) => PADDING.left + ((t - t0) / (t1 - t0)) * plotWidth;
+    const toY = (v: number) => PADDING.top + (1 - (v - v0) / (v1 - v0)) * plotHeight;
+
+    if (range) {
+      ctx.fillStyle = 'rgba(59,130,246,0.12)';
+      ctx.fillRect(PADDING.left, toY(range[1]), plotWidth, toY(range[0]) - toY(range[1]));
+    }
+
+    if (limit !== undefined) {
+      ctx.strokeStyle = 'rgb(250,204,21)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.moveTo(PADDING.left, toY(limit));
+      ctx.lineTo(width - PADDING.right, toY(limit));
+      ctx.stroke();
+    }
+
+    // Readings joined in time order, each dot coloured by its verdict
+    ctx.strokeStyle = 'rgb(71,85,105)';
+    ctx.beginPath();
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(toX(p.timestamp), toY(p.value)) : ctx.lineTo(toX(p.timestamp), toY(p.value))));
+    ctx.stroke();
+    points.forEach(p => {
+      ctx.fillStyle = STATUS_COLORS[p.status];
+      ctx.beginPath();
+      ctx.arc(toX(p.timestamp), toY(p.value), 2.5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    if (trendLine) {
+      ctx.strokeStyle = 'rgb(96,165,250)';
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(toX(trendLine[0].timestamp), toY(trendLine[0].value));
+      ctx.lineTo(toX(trendLine[1].timestamp), toY(trendLine[1].value));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    ctx.fillStyle = 'rgb(148,163,184)';
+    ctx.font = '8px monospace';
+    ctx.textAlign = 'right';
+    ctx.fillText(v1.toFixed(0), PADDING.left - 3, PADDING.top + 6);
+    ctx.fillText(v0.toFixed(0), PADDING.left - 3, height - PADDING.bottom);
+    ctx.textAlign = 'left';
+    ctx.fillText(formatDay(t0), PADDING.left, height - 2);
+    ctx.textAlign = 'right';
+    ctx.fillText(formatDay(t1), width - PADDING.right, height - 2);
+  }, [points, limit, range, trendLine]);
+
+  return (
+    <div className="w-full h-36 bg-slate-800 rounded-lg overflow-hidden relative">
+      <canvas ref={canvasRef} width={400} height={144} className="w-full h-full" />
+      <div className="absolute top-1 left-2 text-[10px] text-slate-400 font-mono">{title} ({unit})</div>
+      {points.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-500">No readings</div>
+      )}
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import { OutboxItem, SyncSettings, SyncState } from '../types';
+import { acceptRemoteRecord, getOutbox, onOutboxChange, updateOutboxItem } from '../services/historyStore';
+import { describeError } from '../services/errors';
+import { keepLocalCopy, requeue, syncOutbox } from '../services/sync';
+
+/**
+ * Keeps the outbox flowing to `settings.endpoint` while the app is open: queued
+ * records go out as they are saved, failed ones on their backoff schedule, and
+ * everything at once when the connection comes back.
+ */
+export const useRecordSync = (settings: SyncSettings) => {
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null); // Latest failure outside a record's own upload
+
+  const fail = (action: string) => (err: unknown) => setError(`${action} (${describeError(err)}).`);
+
+  const refresh = useCallback(() => {
+    getOutbox()
+      .then(setOutbox)
+      .catch(fail('The sync queue could not be read'));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return onOutboxChange(refresh);
+  }, [refresh]);
+
+  const sync = useCallback(async (dueBy?: number) => {
+    if (!settings.endpoint) return;
+    setSyncing(true);
+    try {
+      const result = await syncOutbox(settings, dueBy);
+      if (result.synced > 0) setLastSyncedAt(Date.now());
+      setError(null);
+    } catch (err) {
+      fail('Sync stopped')(err);
+    } finally {
+      setSyncing(false);
+      // Records queued while the run was under way weren't part of it
+      refresh();
+    }
+  }, [settings, refresh]);
+
+  // Skips the backoff: something changed that may make failed uploads go through
+  const syncNow = useCallback(() => sync(Infinity), [sync]);
+
+  useEffect(() => {
+    const update = () => {
+      setOnline(navigator.onLine);
+      if (navigator.onLine) syncNow();
+    };
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, [syncNow]);
+
+  // New settings, e.g. a corrected token, get a fresh attempt
+  useEffect(() => {
+    syncNow();
+  }, [syncNow]);
+
+  // Wakes up for the earliest pending attempt
+  useEffect(() => {
+    if (!online || !settings.endpoint) return;
+    const pending = outbox.filter(item => item.state === SyncState.PENDING);
+    if (pending.length === 0) return;
+    const next = Math.min(...pending.map(item => item.nextAttemptAt));
+    const timer = setTimeout(() => sync(), Math.max(0, next - Date.now()));
+    return () => clearTimeout(timer);
+  }, [outbox, online, settings.endpoint, sync]);
+
+  const keepLocal = useCallback((item: OutboxItem) => {
+    updateOutboxItem(item.key, keepLocalCopy(item, Date.now())).catch(fail('Your copy could not be kept'));
+  }, []);
+  // Resolves with whether the server's copy replaced the local record
+  const acceptRemote = useCallback((item: OutboxItem) => acceptRemoteRecord(item).then(
+    () => true,
+    err => {
+      fail("The server's copy could not be applied")(err);
+      return false;
+    }
+  ), []);
+  const retry = useCallback((item: OutboxItem) => {
+    updateOutboxItem(item.key, requeue(item, Date.now())).catch(fail('The record could not be queued again'));
+  }, []);
+
+  return { outbox, online, syncing, lastSyncedAt, error, syncNow, keepLocal, acceptRemote, retry };
+};
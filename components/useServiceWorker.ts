@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { describeError } from '../services/errors';
+
+/**
+ * Registers the worker that caches the app for offline use, and returns why
+ * when that fails. The dev server serves modules the worker knows nothing about.
+ */
+export const useServiceWorker = (): string | null => {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(err => setError(`The app could not be set up for offline use (${describeError(err)}).`));
+  }, []);
+
+  return error;
+};
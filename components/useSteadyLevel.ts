@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CALIBRATION_STEADY_SECONDS } from '../constants';
+import { AudioProcessor } from '../services/audioService';
+import { isSteady } from '../services/calibration';
+import { energyAverage } from '../services/levelStatistics';
+
+const POLL_INTERVAL_MS = 100;
+const STEADY_READINGS = (CALIBRATION_STEADY_SECONDS * 1000) / POLL_INTERVAL_MS;
+
+// Polls a running processor and reports when its level has held still long enough to capture
+export const useSteadyLevel = (processor: AudioProcessor | null) => {
+  const [level, setLevel] = useState<number | null>(null);
+  const [peakFrequency, setPeakFrequency] = useState(0);
+  const [steady, setSteady] = useState(false);
+  const readingsRef = useRef<number[]>([]);
+
+  useEffect(() => {
+    readingsRef.current = [];
+    if (!processor) return;
+    const timer = setInterval(() => {
+      const reading = processor.getLevel();
+      const readings = readingsRef.current;
+      readings.push(reading);
+      if (readings.length > STEADY_READINGS) readings.shift();
+      setLevel(reading);
+      setPeakFrequency(processor.getPeakFrequency());
+      setSteady(readings.length === STEADY_READINGS && isSteady(readings));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [processor]);
+
+  // Energy average of the steady stretch
+  const average = useCallback(() => energyAverage(readingsRef.current), []);
+
+  // Starts a fresh steadiness window, e.g. after the stimulus changed
+  const reset = useCallback(() => {
+    readingsRef.current = [];
+    setSteady(false);
+  }, []);
+
+  return { level, peakFrequency, steady, average, reset };
+};
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type WakeLockStatus = 'held' | 'released' | 'unsupported';
+
+/**
+ * Keeps the screen on while `active`. Browsers drop the lock whenever the page
+ * is hidden, so it is taken again each time the page comes back; `onVisible`
+ * runs then too, to restart whatever else the browser paused.
+ */
+export const useWakeLock = (active: boolean, onVisible?: () => void): WakeLockStatus => {
+  const [status, setStatus] = useState<WakeLockStatus>('released');
+  const onVisibleRef = useRef(onVisible);
+  onVisibleRef.current = onVisible;
+
+  useEffect(() => {
+    if (!active) return;
+    if (!('wakeLock' in navigator)) {
+      setStatus('unsupported');
+      return;
+    }
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+    const acquire = () => {
+      navigator.wakeLock.request('screen')
+        .then(lock => {
+          if (cancelled) {
+            lock.release();
+            return;
+          }
+          sentinel = lock;
+          setStatus('held');
+          lock.addEventListener('release', () => {
+            if (!cancelled) setStatus('released');
+          });
+        })
+        // Refused, e.g. in battery saver; the page still works while it stays in front
+        .catch(() => setStatus('released'));
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      acquire();
+      onVisibleRef.current?.();
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibility);
+      sentinel?.release();
+      setStatus('released');
+    };
+  }, [active]);
+
+  return status;
+};
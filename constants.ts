@@ -1,5 +1,5 @@
 
-import { MachineStandard } from './types';
+import { BackgroundValidity, BandResolution, CalibrationState, DiagnosticStatus, DoseCriterion, FrequencyWeighting, MachineStandard, MeasurementProtocol, RunKind, TimeWeighting } from './types';
 
 export const MACHINE_STANDARDS: MachineStandard[] = [
   {
@@ -7,6 +7,7 @@ export const MACHINE_STANDARDS: MachineStandard[] = [
     name: 'Washing Machine - Spin Cycle',
     category: 'Home Appliance',
     maxDb: 72,
+    weighting: FrequencyWeighting.A,
     peakFreqRange: [50, 200]
   },
   {
@@ -14,13 +15,16 @@ export const MACHINE_STANDARDS: MachineStandard[] = [
     name: 'Industrial Conveyor Belt',
     category: 'Manufacturing',
     maxDb: 85,
-    peakFreqRange: [100, 500]
+    weighting: FrequencyWeighting.A,
+    peakFreqRange: [100, 500],
+    expectedFundamental: { frequency: 100, tolerance: 0.02, source: '2x line frequency (50 Hz mains)' }
   },
   {
     id: 'm3',
     name: 'Pneumatic Drill (Stationary)',
     category: 'Construction',
     maxDb: 105,
+    weighting: FrequencyWeighting.A,
     peakFreqRange: [800, 2000]
   },
   {
@@ -28,16 +32,196 @@ export const MACHINE_STANDARDS: MachineStandard[] = [
     name: 'Centrifugal Pump (Medium)',
     category: 'Utilities',
     maxDb: 78,
-    peakFreqRange: [200, 600]
+    weighting: FrequencyWeighting.A,
+    peakFreqRange: [200, 600],
+    expectedFundamental: { frequency: 49.2, tolerance: 0.03, source: 'Shaft speed (2950 RPM)' },
+    protocol: { settleSeconds: 5, durationSeconds: 10, repeats: 2, positions: ['Drive end', 'Non-drive end'] },
+    bandLimits: {
+      resolution: BandResolution.OCTAVE,
+      maxLevels: { 31.5: 45, 63: 58, 125: 66, 250: 72, 500: 73, 1000: 70, 2000: 67, 4000: 63, 8000: 58, 16000: 50 }
+    }
   },
   {
     id: 'm5',
     name: 'HVAC Air Handler',
     category: 'Facilities',
     maxDb: 65,
-    peakFreqRange: [60, 150]
+    weighting: FrequencyWeighting.A,
+    peakFreqRange: [60, 150],
+    bandLimits: {
+      resolution: BandResolution.OCTAVE,
+      maxLevels: { 31.5: 40, 63: 52, 125: 58, 250: 60, 500: 60, 1000: 58, 2000: 56, 4000: 53, 8000: 48, 16000: 42 }
+    }
   }
 ];
 
-export const CALIBRATION_STORAGE_KEY = 'acoustic_tool_calibration_v1';
-export const DEFAULT_CALIBRATION_OFFSET = -20; // Default offset for web audio RMS
+// The original single 10 second diagnostic window
+export const DEFAULT_PROTOCOL: MeasurementProtocol = { settleSeconds: 0, durationSeconds: 10, repeats: 1, positions: [] };
+export const MAX_PROTOCOL_SECONDS = 600;
+export const MAX_PROTOCOL_REPEATS = 10;
+
+// Background correction per ISO 3746
+export const BACKGROUND_MIN_DIFFERENCE_DB = 3;  // Below this the result is invalid
+export const BACKGROUND_NEGLIGIBLE_DB = 10;     // Above this no correction is applied
+
+// Degradation forecast
+export const TREND_WINDOW_DAYS = 90;    // Only recent records describe the current wear rate
+export const TREND_MIN_POINTS = 4;
+export const TREND_MIN_SPAN_DAYS = 1;
+export const TREND_HORIZON_DAYS = 730;  // Crossings further out are reported as not foreseeable
+
+// Occupational noise dosimetry. Doses are against an 8 h reference day.
+export const DOSE_REFERENCE_HOURS = 8;
+export const DEFAULT_SHIFT_HOURS = 8;
+export const DOSE_CRITERIA: DoseCriterion[] = [
+  { name: 'OSHA PEL', criterionLevel: 90, exchangeRate: 5, thresholdLevel: 90 },
+  { name: 'OSHA Action Level', criterionLevel: 90, exchangeRate: 5, thresholdLevel: 80 },
+  { name: 'NIOSH REL', criterionLevel: 85, exchangeRate: 3, thresholdLevel: 80 }
+];
+export const DEFAULT_SITE_CRITERION: DoseCriterion = { name: 'Site', criterionLevel: 85, exchangeRate: 3, thresholdLevel: 80 };
+
+// Unattended monitoring: an alarm needs ABNORMAL to persist, and clears only once the level
+// has dropped below the limit by the margin for as many intervals
+export const MONITOR_INTERVAL_OPTIONS = [10, 60, 300]; // Seconds per Leq interval
+export const DEFAULT_MONITOR_INTERVAL = 60;
+export const DEFAULT_ALARM_RAISE_INTERVALS = 3;
+export const ALARM_CLEAR_INTERVALS = 3;
+export const ALARM_CLEAR_MARGIN_DB = 2;
+export const MONITOR_CHART_INTERVALS = 60; // Most recent intervals drawn live
+export const MONITOR_EMPTY_INTERVAL_LIMIT = 3; // Intervals in a row without signal before monitoring gives up
+
+// v1 stored an offset on top of a fixed +100 dB; v2 stores the SPL at 0 dBFS directly
+export const LEGACY_CALIBRATION_STORAGE_KEY = 'acoustic_tool_calibration_v1';
+export const CALIBRATION_STORAGE_KEY = 'acoustic_tool_calibration_v2';
+export const LEGACY_HISTORY_STORAGE_KEY = 'acoustic_tool_history_v1'; // Migrated into IndexedDB
+export const HISTORY_PAGE_SIZE = 25;
+export const MACHINE_STORAGE_KEY = 'acoustic_tool_machines_v1';
+export const CATALOGUE_FORMAT = 'acoustic-diag-machines';
+export const ASSET_LINK_PARAM = 'asset'; // ?asset=<tag> opens that machine, e.g. from a QR label
+export const DEFAULT_CALIBRATION_OFFSET = 80; // dB SPL at 0 dBFS, typical of phone MEMS mics
+export const CALIBRATION_PROFILES_STORAGE_KEY = 'acoustic_tool_calibration_profiles_v1';
+export const LAST_INPUT_DEVICE_STORAGE_KEY = 'acoustic_tool_last_input_device';
+export const INPUT_DEVICE_STORAGE_KEY = 'acoustic_tool_input_device'; // Picked microphone; absent = system default
+
+// Calibration wizard
+export const CALIBRATOR_REFERENCE = { level: 94, frequency: 1000 }; // Class 1 calibrator, 1 Pa
+export const CALIBRATOR_FREQUENCY_TOLERANCE = 0.05; // Relative; rejects readings that aren't the calibrator tone
+export const CALIBRATION_STEADY_SECONDS = 3; // Readings must hold still this long before capture
+export const CALIBRATION_STEADY_SPREAD_DB = 0.5;
+export const CALIBRATION_CHECK_TOLERANCE_DB = 1; // Allowed error at each check level
+export const CALIBRATION_MAX_AGE_DAYS = 30;
+
+// Microphone response correction
+export const CORRECTION_FIR_TAPS = 8192; // ~6 Hz resolution at 48 kHz, enough to shape a sub-100 Hz roll-off
+export const MAX_CORRECTION_DB = 20; // Boost ceiling, so a deep roll-off doesn't turn into amplified noise
+export const RESPONSE_SWEEP_FREQUENCIES = [31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 500, 1000, 2000, 4000, 8000];
+
+export const MIN_STABLE_SNR_DB = 10; // Below this the reading is dominated by the input noise floor
+export const PEAK_PROMINENCE_DB = 20; // Peak height over the spectral floor to count as a dominant tone
+export const TONE_PROMINENCE_DB = 15; // Height over the local floor for a peak to count as a tone
+export const BAND_RANGE_DB: [number, number] = [20, 120]; // dB span of the band-bar view
+export const SPECTRUM_RANGE_DB: [number, number] = [-120, -20]; // dBFS span of the FFT view
+export const SPECTROGRAM_COLUMNS = 600; // Updates of history, 30 s at UI_UPDATE_INTERVAL
+export const SPECTROGRAM_ROWS = 160;    // Log-spaced frequency rows
+export const SPECTROGRAM_MIN_FREQUENCY = 20;
+export const SNAPSHOT_MIN_FREQUENCY = 20; // Grid of the spectrum kept with each record
+export const SNAPSHOT_MAX_FREQUENCY = 20000;
+export const SNAPSHOT_POINTS_PER_OCTAVE = 12;
+export const COMPARISON_RANGE_DB = 20; // ± span of the difference curve
+
+// Deviation from a machine's own baseline that grades a run as WARNING / ABNORMAL (dB)
+export const BASELINE_THRESHOLDS = {
+  warning: { levelDelta: 3, spectralDistance: 3, bandDelta: 6 },
+  abnormal: { levelDelta: 6, spectralDistance: 6, bandDelta: 10 }
+};
+export const BASELINE_BAND_FLOOR_DB = 20; // Bands quieter than this in both runs are ignored
+export const BASELINE_STORAGE_KEY = 'acoustic_tool_baselines_v1';
+export const TECHNICIAN_STORAGE_KEY = 'acoustic_tool_technician';
+export const SITE_CRITERION_STORAGE_KEY = 'acoustic_tool_site_criterion_v1';
+export const SYNC_SETTINGS_STORAGE_KEY = 'acoustic_tool_sync_v1';
+
+// Record sync: failed uploads back off exponentially up to the cap
+export const SYNC_RETRY_BASE_MS = 30 * 1000;
+export const SYNC_RETRY_MAX_MS = 60 * 60 * 1000;
+export const SYNC_REQUEST_TIMEOUT_MS = 20 * 1000;
+
+// IEC 61672 exponential time constants (s). Impulse rises fast and decays slowly.
+export const TIME_WEIGHTING_CONSTANTS: Record<TimeWeighting, { label: string; riseTime: number; fallTime: number }> = {
+  [TimeWeighting.FAST]: { label: 'Fast', riseTime: 0.125, fallTime: 0.125 },
+  [TimeWeighting.SLOW]: { label: 'Slow', riseTime: 1, fallTime: 1 },
+  [TimeWeighting.IMPULSE]: { label: 'Impulse', riseTime: 0.035, fallTime: 1.5 }
+};
+
+export const BAND_FFT_SIZE = 32768; // Fine enough to resolve the 25 Hz one-third-octave band
+export const LEVEL_REPORT_INTERVAL = 0.02; // Seconds between time-weighted level samples
+
+// Analysis worker cadence, in samples of the captured signal
+export const SPECTRUM_FFT_SIZE = 2048;  // Live spectrum and peak frequency
+export const SPECTRUM_HOP = 1024;       // New short spectrum every hop; also the size of the chunks the tap posts
+export const BAND_HOP = 8192;           // New long spectrum (bands, tones) every hop
+export const SPECTRUM_SMOOTHING = 0.5;  // Of the live spectrum only; windows average raw frames
+export const UI_UPDATE_INTERVAL = 0.05; // Seconds of signal between updates posted to the UI
+
+// Offline file analysis: decoded files are resampled to one rate so results don't depend on the source format
+export const OFFLINE_SAMPLE_RATE = 48000;
+
+// Tailwind classes per verdict
+export const STATUS_STYLES: Record<DiagnosticStatus, { text: string; dot: string; panel: string }> = {
+  [DiagnosticStatus.NORMAL]: { text: 'text-emerald-400', dot: 'bg-emerald-500', panel: 'bg-emerald-950/40 border-emerald-500/50 shadow-emerald-500/10' },
+  [DiagnosticStatus.WARNING]: { text: 'text-amber-400', dot: 'bg-amber-500', panel: 'bg-amber-950/40 border-amber-500/50 shadow-amber-500/10' },
+  [DiagnosticStatus.ABNORMAL]: { text: 'text-red-500', dot: 'bg-red-500', panel: 'bg-red-950/40 border-red-500/50 shadow-red-500/10' },
+  [DiagnosticStatus.INDETERMINATE]: { text: 'text-violet-400', dot: 'bg-violet-500', panel: 'bg-violet-950/40 border-violet-500/50 shadow-violet-500/10' },
+  [DiagnosticStatus.IDLE]: { text: 'text-slate-400', dot: 'bg-slate-500', panel: 'bg-slate-900 border-slate-800' }
+};
+
+// Status panel of runs that record a reference instead of a verdict
+export const REFERENCE_RUN_STYLES: Record<RunKind.BASELINE | RunKind.BACKGROUND, {
+  label: string;
+  running: string;
+  finished: string;
+  text: string;
+  dot: string;
+  panel: string;
+}> = {
+  [RunKind.BASELINE]: {
+    label: 'BASELINE',
+    running: 'Recording Healthy Reference',
+    finished: 'Healthy Reference Saved',
+    text: 'text-blue-400',
+    dot: 'bg-blue-400',
+    panel: 'bg-blue-950/40 border-blue-500/50 shadow-blue-500/10'
+  },
+  [RunKind.BACKGROUND]: {
+    label: 'BACKGROUND',
+    running: 'Measuring With Machine Off',
+    finished: 'Background Level Saved',
+    text: 'text-slate-300',
+    dot: 'bg-slate-300',
+    panel: 'bg-slate-900 border-slate-500/50'
+  }
+};
+
+export const BACKGROUND_VALIDITY_STYLES: Record<BackgroundValidity, { label: string; badge: string }> = {
+  [BackgroundValidity.NEGLIGIBLE]: { label: 'NO CORRECTION', badge: 'bg-slate-800 text-slate-400' },
+  [BackgroundValidity.CORRECTED]: { label: 'CORRECTED', badge: 'bg-blue-500/10 text-blue-400' },
+  [BackgroundValidity.INVALID]: { label: 'INVALID', badge: 'bg-red-500/10 text-red-400' }
+};
+
+export const CALIBRATION_STATE_STYLES: Record<CalibrationState, { label: string; badge: string; warning?: string }> = {
+  [CalibrationState.CURRENT]: { label: 'CALIBRATED', badge: 'bg-green-500/10 text-green-400' },
+  [CalibrationState.STALE]: {
+    label: 'STALE',
+    badge: 'bg-amber-500/10 text-amber-400',
+    warning: `Calibration is older than ${CALIBRATION_MAX_AGE_DAYS} days. Recalibrate this microphone.`
+  },
+  [CalibrationState.FAILED]: {
+    label: 'CHECK FAILED',
+    badge: 'bg-red-500/10 text-red-400',
+    warning: 'A calibration check point was out of tolerance. Recalibrate this microphone.'
+  },
+  [CalibrationState.MISSING]: {
+    label: 'UNCALIBRATED',
+    badge: 'bg-amber-500/10 text-amber-400',
+    warning: 'This microphone has no calibration profile; levels use the manual full-scale setting.'
+  }
+};
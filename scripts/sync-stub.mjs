@@ -0,0 +1,81 @@
+// In-memory implementation of the records sync API in docs/sync-api.md, for trying sync locally.
+//   npm run sync-stub                      listens on http://localhost:8787
+//   PORT=9000 TOKEN=secret FAIL_RATE=0.3 npm run sync-stub
+// FAIL_RATE answers that share of uploads with 503 to exercise retries.
+import { createServer } from 'http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TOKEN = process.env.TOKEN ?? '';
+const FAIL_RATE = Number(process.env.FAIL_RATE ?? 0);
+const KINDS = new Set(['history', 'dosimetry']);
+
+const records = new Map(); // `${kind}/${id}` -> { record, revision }
+let nextRevision = 1;
+
+// Key order must not make two copies of the same record look different
+const canonical = value =>
+  Array.isArray(value) ? `[${value.map(canonical).join(',')}]`
+  : value && typeof value === 'object' ? `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${canonical(value[k])}`).join(',')}}`
+  : JSON.stringify(value);
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag, Retry-After'
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { ...CORS, ...(body === undefined ? {} : { 'Content-Type': 'application/json' }), ...headers });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const etag = revision => `"${revision}"`;
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+  const [, collection, kind, rawId] = new URL(req.url, 'http://localhost').pathname.split('/');
+  if (collection !== 'records' || !KINDS.has(kind)) return send(res, 404, { error: 'Not found' });
+
+  if (req.method === 'GET' && !rawId) {
+    return send(res, 200, [...records.entries()].filter(([key]) => key.startsWith(`${kind}/`)).map(([, stored]) => stored));
+  }
+  if (req.method !== 'PUT' || !rawId) return send(res, 405, { error: 'Method not allowed' });
+  if (Math.random() < FAIL_RATE) return send(res, 503, { error: 'Simulated outage' }, { 'Retry-After': '10' });
+
+  const id = decodeURIComponent(rawId);
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    return send(res, 400, { error: 'Body is not JSON' });
+  }
+  if (body?.kind !== kind || body?.record?.id !== id) return send(res, 422, { error: 'Record does not match its URL' });
+
+  const key = `${kind}/${id}`;
+  const current = records.get(key);
+  const conflict = status => send(res, status, { record: current.record, revision: etag(current.revision) }, { ETag: etag(current.revision) });
+
+  if (req.headers['if-none-match'] === '*' && current) {
+    // A replay of what is already stored, e.g. after a lost response, is not a conflict
+    if (canonical(current.record) === canonical(body.record)) return send(res, 200, undefined, { ETag: etag(current.revision) });
+    return conflict(409);
+  }
+  if (req.headers['if-match'] && (!current || req.headers['if-match'] !== etag(current.revision))) {
+    return current ? conflict(412) : send(res, 412, { error: 'Record no longer exists' });
+  }
+
+  const stored = { record: body.record, revision: nextRevision++ };
+  records.set(key, stored);
+  console.log(`${current ? 'replaced' : 'created'} ${key} at revision ${stored.revision}`);
+  return send(res, current ? 200 : 201, undefined, { ETag: etag(stored.revision) });
+}).listen(PORT, () => console.log(`Sync stub listening on http://localhost:${PORT}`));
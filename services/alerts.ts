@@ -0,0 +1,52 @@
+const TONE_FREQUENCY = 880;
+const TONE_PULSES = 3;
+const PULSE_SECONDS = 0.2;
+const TONE_GRACE_MS = 1000; // Past the tone's length before a context that never started is given up on
+
+// Asked for while the user is starting a session, since browsers only prompt after a gesture
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Shows a system notification. Mobile browsers only allow them through the
+ * service worker, so it is used whenever one is in control of the page.
+ */
+export const showNotification = async (title: string, body: string, tag: string): Promise<void> => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const registration = navigator.serviceWorker?.controller ? await navigator.serviceWorker.ready : null;
+  if (registration) await registration.showNotification(title, { body, tag, requireInteraction: true });
+  else new Notification(title, { body, tag, requireInteraction: true });
+};
+
+/**
+ * A few short beeps on a context of their own, plus vibration in step with
+ * them where there is a motor. Resolves once both are over, so a measurement
+ * can wait them out instead of hearing them.
+ */
+export const playAlarmTone = async (): Promise<void> => {
+  const pulseMs = PULSE_SECONDS * 1000;
+  navigator.vibrate?.(Array.from({ length: TONE_PULSES * 2 - 1 }, () => pulseMs));
+  const ctx = new AudioContext();
+  const gain = ctx.createGain();
+  gain.gain.value = 0;
+  gain.connect(ctx.destination);
+  const oscillator = ctx.createOscillator();
+  oscillator.frequency.value = TONE_FREQUENCY;
+  oscillator.connect(gain);
+  for (let i = 0; i < TONE_PULSES; i++) {
+    const start = ctx.currentTime + i * PULSE_SECONDS * 2;
+    gain.gain.setValueAtTime(0.5, start);
+    gain.gain.setValueAtTime(0, start + PULSE_SECONDS);
+  }
+  oscillator.start();
+  oscillator.stop(ctx.currentTime + TONE_PULSES * PULSE_SECONDS * 2);
+  // A context the browser won't start never ends the oscillator
+  await Promise.race([
+    new Promise(resolve => (oscillator.onended = resolve)),
+    new Promise(resolve => setTimeout(resolve, TONE_PULSES * pulseMs * 2 + TONE_GRACE_MS))
+  ]);
+  await ctx.close();
+};
@@ -0,0 +1,258 @@
+import { describe, expect, it } from 'vitest';
+import { BandResolution, DiagnosticStatus, FrequencyWeighting, MachineStandard } from '../types';
+import { BAND_FFT_SIZE, BAND_HOP, LEVEL_REPORT_INTERVAL, PEAK_PROMINENCE_DB, SPECTRUM_FFT_SIZE } from '../constants';
+import { DiagnosticWindow, applyWeighting, createMagnitudeSpectrum, evaluateStatus, levelDb, magnitudeSpectrum, meanSquare, summarizeWindow } from './analysis';
+import { THIRD_OCTAVE_BANDS, bandsFor, buildBandWeights, computeBandPowers } from './octaveBands';
+import { dbToPower } from './spectrum';
+import { snapshotBands } from './spectrumSnapshot';
+
+const SAMPLE_RATE = 48000;
+const FRAME = 32768;
+const OFFSET = 100; // dB SPL at 0 dBFS; keeps the test signals below full scale
+
+const pump: MachineStandard = {
+  id: 'test-pump',
+  name: 'Test Pump',
+  category: 'Pumps',
+  maxDb: 85,
+  weighting: FrequencyWeighting.Z,
+  peakFreqRange: [100, 2000]
+};
+
+// Peak amplitude of a sine reading `level` dB with the test calibration
+const sineAmplitude = (level: number) => Math.SQRT2 * Math.pow(10, (level - OFFSET) / 20);
+
+const sine = (frequency: number, amplitude: number, length = FRAME): Float32Array => {
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) out[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  return out;
+};
+
+// Seeded so every run sees the same noise
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Paul Kellet's pink filter over seeded white noise, scaled to read `level` dB(Z)
+const pinkNoise = (level: number, length = FRAME, seed = 1): Float32Array => {
+  const random = mulberry32(seed);
+  const out = new Float32Array(length);
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < length; i++) {
+    const white = random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.969 * b2 + white * 0.153852;
+    b3 = 0.8665 * b3 + white * 0.3104856;
+    b4 = 0.55 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.016898;
+    out[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+    b6 = white * 0.115926;
+  }
+  const scale = Math.sqrt(Math.pow(10, (level - OFFSET) / 10) / meanSquare(out));
+  return out.map(v => v * scale);
+};
+
+const mix = (...signals: Float32Array[]) => signals[0].map((_, i) => signals.reduce((acc, s) => acc + s[i], 0));
+
+// Gain of the weighting network on a steady sine, ignoring the filters' start-up transient
+const weightedGainDb = (frequency: number, weighting: FrequencyWeighting) => {
+  const input = sine(frequency, 0.5);
+  const output = applyWeighting(input, weighting, SAMPLE_RATE);
+  const settle = SAMPLE_RATE / 4;
+  return 10 * Math.log10(meanSquare(output.subarray(settle)) / meanSquare(input.subarray(settle)));
+};
+
+describe('levelDb', () => {
+  it('reads a full-scale sine at -3 dBFS plus the calibration', () => {
+    expect(levelDb(meanSquare(sine(1000, 1)), OFFSET)).toBeCloseTo(OFFSET - 3.01, 1);
+  });
+
+  it('floors silence instead of returning -Infinity', () => {
+    expect(levelDb(0, OFFSET)).toBe(OFFSET - 120);
+  });
+});
+
+// IEC 61672-1 design goal with its Class 1 acceptance limits
+const expectClass1 = (actual: number, goal: number, plus: number, minus: number) => {
+  expect(actual).toBeLessThanOrEqual(goal + plus);
+  expect(actual).toBeGreaterThanOrEqual(goal - minus);
+};
+
+describe('applyWeighting', () => {
+  it('stays inside the Class 1 limits for A weighting', () => {
+    expect(weightedGainDb(1000, FrequencyWeighting.A)).toBeCloseTo(0, 1);
+    expectClass1(weightedGainDb(31.5, FrequencyWeighting.A), -39.4, 1.5, 1.5);
+    expectClass1(weightedGainDb(100, FrequencyWeighting.A), -19.1, 1.0, 1.0);
+    expectClass1(weightedGainDb(8000, FrequencyWeighting.A), -1.1, 1.5, 2.5);
+  });
+
+  it('stays inside the Class 1 limits for C weighting', () => {
+    expect(weightedGainDb(1000, FrequencyWeighting.C)).toBeCloseTo(0, 1);
+    expectClass1(weightedGainDb(63, FrequencyWeighting.C), -0.8, 1.0, 1.0);
+    expectClass1(weightedGainDb(8000, FrequencyWeighting.C), -3.0, 1.5, 2.5);
+  });
+
+  it('leaves the signal untouched for Z weighting', () => {
+    const input = sine(50, 0.5);
+    expect(applyWeighting(input, FrequencyWeighting.Z, SAMPLE_RATE)).toEqual(input);
+  });
+});
+
+describe('magnitudeSpectrum', () => {
+  it('scales like AnalyserNode: a full-scale sine peaks at 20·log10(0.42 / 2)', () => {
+    const spectrum = magnitudeSpectrum(sine(SAMPLE_RATE / FRAME * 512, 1));
+    expect(spectrum[512]).toBeCloseTo(20 * Math.log10(0.21), 1);
+  });
+
+  it('rejects frames that are not a power of two', () => {
+    expect(() => magnitudeSpectrum(new Float32Array(1000))).toThrow();
+  });
+
+  it('gives the same result from reused buffers, frame after frame', () => {
+    const spectrum = createMagnitudeSpectrum(2048);
+    const out = new Float32Array(1024);
+    spectrum(sine(3000, 0.5, 2048), out);
+    const frame = sine(1000, 0.1, 2048);
+    const reused = spectrum(frame, out);
+    const fresh = magnitudeSpectrum(frame);
+    expect(reused).toBe(out);
+    for (const bin of [10, 43, 128, 500]) expect(reused[bin]).toBeCloseTo(fresh[bin], 4);
+  });
+});
+
+// Gathers a window the way the analysis worker does: a meter report every LEVEL_REPORT_INTERVAL,
+// a short spectrum every SPECTRUM_FFT_SIZE samples and a long one every BAND_HOP
+const gatherWindow = (signal: Float32Array, weighting: FrequencyWeighting): DiagnosticWindow => {
+  const weighted = applyWeighting(signal, weighting, SAMPLE_RATE);
+  const window: DiagnosticWindow = {
+    levels: [],
+    maxMeanSquare: 0,
+    minMeanSquare: Infinity,
+    energy: 0,
+    samples: 0,
+    spectrumSum: new Float64Array(SPECTRUM_FFT_SIZE / 2),
+    spectrumFrames: 0,
+    fineSpectrumSum: new Float64Array(BAND_FFT_SIZE / 2),
+    bandPowerSum: new Float64Array(THIRD_OCTAVE_BANDS.length),
+    fineFrames: 0
+  };
+
+  const report = Math.round(LEVEL_REPORT_INTERVAL * SAMPLE_RATE);
+  for (let start = 0; start + report <= weighted.length; start += report) {
+    const value = meanSquare(weighted.subarray(start, start + report));
+    window.levels.push(levelDb(value, OFFSET));
+    window.maxMeanSquare = Math.max(window.maxMeanSquare, value);
+    window.minMeanSquare = Math.min(window.minMeanSquare, value);
+    window.energy += value * report;
+    window.samples += report;
+  }
+
+  const shortSpectrum = createMagnitudeSpectrum(SPECTRUM_FFT_SIZE);
+  for (let start = 0; start + SPECTRUM_FFT_SIZE <= weighted.length; start += SPECTRUM_FFT_SIZE) {
+    shortSpectrum(weighted.subarray(start, start + SPECTRUM_FFT_SIZE)).forEach((db, i) => (window.spectrumSum[i] += dbToPower(db)));
+    window.spectrumFrames++;
+  }
+
+  const longSpectrum = createMagnitudeSpectrum(BAND_FFT_SIZE);
+  const bandWeights = buildBandWeights(THIRD_OCTAVE_BANDS, SAMPLE_RATE, BAND_FFT_SIZE);
+  for (let start = 0; start + BAND_FFT_SIZE <= weighted.length; start += BAND_HOP) {
+    const fine = longSpectrum(weighted.subarray(start, start + BAND_FFT_SIZE));
+    fine.forEach((db, i) => (window.fineSpectrumSum[i] += dbToPower(db)));
+    computeBandPowers(fine, bandWeights).forEach((p, i) => (window.bandPowerSum[i] += p));
+    window.fineFrames++;
+  }
+  return window;
+};
+
+const snapshotWeights = buildBandWeights(snapshotBands(SAMPLE_RATE), SAMPLE_RATE, BAND_FFT_SIZE);
+const WINDOW = 2 * FRAME;
+
+const summarize = (signal: Float32Array, standard: MachineStandard) =>
+  summarizeWindow(gatherWindow(signal, standard.weighting), standard, SAMPLE_RATE, OFFSET, snapshotWeights)!;
+
+describe('summarizeWindow', () => {
+  it('reports level and frequency of a tone inside the operating range', () => {
+    const summary = summarize(sine(1000, sineAmplitude(70), WINDOW), pump);
+    expect(summary.leq).toBeCloseTo(70, 0);
+    expect(Math.abs(summary.peakFrequency - 1000)).toBeLessThanOrEqual(1);
+    expect(summary.bands.octave[bandsFor(BandResolution.OCTAVE).findIndex(b => b.nominal === 1000)]).toBeCloseTo(70, 0);
+    expect(summary.status).toBe(DiagnosticStatus.NORMAL);
+    expect(summary.durationMs).toBe(1360);
+  });
+
+  it('flags a level above the machine maximum', () => {
+    const summary = summarize(sine(1000, sineAmplitude(pump.maxDb + 3), WINDOW), pump);
+    expect(summary.leq).toBeCloseTo(pump.maxDb + 3, 0);
+    expect(summary.status).toBe(DiagnosticStatus.ABNORMAL);
+  });
+
+  it('flags a prominent tone outside peakFreqRange even when the level is fine', () => {
+    const summary = summarize(sine(5000, sineAmplitude(70), WINDOW), pump);
+    expect(Math.abs(summary.peakFrequency - 5000)).toBeLessThanOrEqual(1);
+    expect(summary.leq).toBeLessThan(pump.maxDb);
+    expect(summary.status).toBe(DiagnosticStatus.ABNORMAL);
+  });
+
+  it('reads the level of pink noise and passes it without a tone', () => {
+    const aWeighted = { ...pump, weighting: FrequencyWeighting.A, peakFreqRange: [100, 5000] as [number, number] };
+    const noise = pinkNoise(70, WINDOW);
+    expect(summarize(noise, { ...aWeighted, weighting: FrequencyWeighting.Z }).leq).toBeCloseTo(70, 1);
+    expect(summarize(noise, aWeighted).status).toBe(DiagnosticStatus.NORMAL);
+  });
+
+  it('picks a whine out of pink noise when it lies outside the range', () => {
+    const aWeighted = { ...pump, weighting: FrequencyWeighting.A, peakFreqRange: [100, 5000] as [number, number] };
+    const summary = summarize(mix(pinkNoise(70, WINDOW), sine(8000, sineAmplitude(72), WINDOW)), aWeighted);
+    expect(Math.abs(summary.peakFrequency - 8000)).toBeLessThanOrEqual(1);
+    expect(summary.status).toBe(DiagnosticStatus.ABNORMAL);
+  });
+
+  it('flags a band above the machine envelope', () => {
+    const enveloped: MachineStandard = {
+      ...pump,
+      maxDb: 100,
+      bandLimits: { resolution: BandResolution.OCTAVE, maxLevels: { 1000: 65 } }
+    };
+    const summary = summarize(sine(1000, sineAmplitude(70), WINDOW), enveloped);
+    expect(summary.exceededBands).toEqual([1000]);
+    expect(summary.status).toBe(DiagnosticStatus.ABNORMAL);
+  });
+
+  it('takes Leq from the energy rather than the sampled levels', () => {
+    const quietThenLoud = Float32Array.from([...sine(1000, sineAmplitude(60), FRAME), ...sine(1000, sineAmplitude(80), FRAME)]);
+    const summary = summarize(quietThenLoud, pump);
+    expect(summary.leq).toBeCloseTo(77, 0);
+    expect(summary).toMatchObject({ lmin: 60, lmax: 80 });
+  });
+
+  it('has nothing to report for a window without meter reports', () => {
+    expect(summarizeWindow(gatherWindow(new Float32Array(0), pump.weighting), pump, SAMPLE_RATE, OFFSET, snapshotWeights)).toBeNull();
+  });
+});
+
+describe('evaluateStatus', () => {
+  const normal = { db: 70, peakFrequency: 500, peakProminence: 30, exceededBands: [] };
+
+  it('passes a quiet machine with its peak in range', () => {
+    expect(evaluateStatus(pump, normal)).toBe(DiagnosticStatus.NORMAL);
+  });
+
+  it('ignores an out-of-range peak that does not stand clear of the floor', () => {
+    expect(evaluateStatus(pump, { ...normal, peakFrequency: 5000, peakProminence: PEAK_PROMINENCE_DB })).toBe(DiagnosticStatus.NORMAL);
+    expect(evaluateStatus(pump, { ...normal, peakFrequency: 5000, peakProminence: PEAK_PROMINENCE_DB + 1 })).toBe(DiagnosticStatus.ABNORMAL);
+  });
+
+  it('treats the maximum level as inclusive', () => {
+    expect(evaluateStatus(pump, { ...normal, db: pump.maxDb })).toBe(DiagnosticStatus.NORMAL);
+    expect(evaluateStatus(pump, { ...normal, db: pump.maxDb + 0.1 })).toBe(DiagnosticStatus.ABNORMAL);
+  });
+
+  it('flags band exceedances and tonal anomalies', () => {
+    expect(evaluateStatus(pump, { ...normal, exceededBands: [1000] })).toBe(DiagnosticStatus.ABNORMAL);
+    expect(evaluateStatus(pump, { ...normal, tonalAnomalies: 1 })).toBe(DiagnosticStatus.ABNORMAL);
+  });
+});
@@ -0,0 +1,232 @@
+import { DiagnosticStatus, FrequencyWeighting, MachineStandard, MeasurementSummary } from '../types';
+import { PEAK_PROMINENCE_DB } from '../constants';
+import { computeLevelStatistics } from './levelStatistics';
+import { BandWeights, findBandExceedances, toBandSpectrum } from './octaveBands';
+import { estimateNoiseFloor, estimateSnr, findPeakBin, powerToDb } from './spectrum';
+import { createSpectrumSnapshot } from './spectrumSnapshot';
+import { analyzeTones, findTonalAnomalies } from './tonal';
+import { designWeightingFilter } from './weighting';
+
+// DOM-free analysis core. Everything here works on plain sample and spectrum
+// arrays, so the live graph, offline rendering and the test suite share it.
+
+const SILENCE_MEAN_SQUARE = 1e-12;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const meanSquare = (samples: ArrayLike<number>): number => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return sum / samples.length;
+};
+
+// Level in dBFS (full-scale sine RMS = -3 dBFS) shifted by the calibration, which is the SPL at 0 dBFS
+export const levelDb = (meanSquareValue: number, calibrationOffset: number): number =>
+  10 * Math.log10(meanSquareValue || SILENCE_MEAN_SQUARE) + calibrationOffset;
+
+// Runs the same biquad cascade the live graph builds from IIRFilterNodes (transposed direct form II)
+export const applyWeighting = (samples: Float32Array, weighting: FrequencyWeighting, sampleRate: number): Float32Array => {
+  const out = Float32Array.from(samples);
+  for (const { b, a } of designWeightingFilter(weighting, sampleRate)) {
+    let z1 = 0;
+    let z2 = 0;
+    for (let i = 0; i < out.length; i++) {
+      const x = out[i];
+      const y = b[0] * x + z1;
+      z1 = b[1] * x - a[1] * y + z2;
+      z2 = b[2] * x - a[2] * y;
+      out[i] = y;
+    }
+  }
+  return out;
+};
+
+export interface TwiddleTable {
+  cos: Float64Array;
+  sin: Float64Array;
+}
+
+// exp(-2πik/n) for k < n/2, shared by every stage of an n-point FFT
+export const twiddleTable = (n: number): TwiddleTable => {
+  const table = { cos: new Float64Array(n / 2), sin: new Float64Array(n / 2) };
+  for (let k = 0; k < n / 2; k++) {
+    table.cos[k] = Math.cos((-2 * Math.PI * k) / n);
+    table.sin[k] = Math.sin((-2 * Math.PI * k) / n);
+  }
+  return table;
+};
+
+// In-place iterative radix-2 FFT. Pass a table when transforming many frames of one size.
+export const fft = (re: Float64Array, im: Float64Array, twiddles: TwiddleTable = twiddleTable(re.length)) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size / 2;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = twiddles.cos[k * stride];
+        const sin = twiddles.sin[k * stride];
+        const evenRe = re[start + k], evenIm = im[start + k];
+        const oddRe = re[start + k + half], oddIm = im[start + k + half];
+        const tRe = oddRe * cos - oddIm * sin;
+        const tIm = oddRe * sin + oddIm * cos;
+        re[start + k] = evenRe + tRe;
+        im[start + k] = evenIm + tIm;
+        re[start + k + half] = evenRe - tRe;
+        im[start + k + half] = evenIm - tIm;
+      }
+    }
+  }
+};
+
+// magnitudeSpectrum for repeated frames of `n` samples: window, twiddles and work arrays are allocated once
+export const createMagnitudeSpectrum = (n: number) => {
+  if (n < 2 || (n & (n - 1)) !== 0) throw new Error('Frame length must be a power of two.');
+
+  const window = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const phase = (2 * Math.PI * i) / n;
+    window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+  }
+  const twiddles = twiddleTable(n);
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+
+  return (frame: ArrayLike<number>, out: Float32Array = new Float32Array(n / 2)): Float32Array => {
+    for (let i = 0; i < n; i++) re[i] = frame[i] * window[i];
+    im.fill(0);
+    fft(re, im, twiddles);
+    for (let k = 0; k < n / 2; k++) {
+      out[k] = 20 * Math.log10(Math.hypot(re[k], im[k]) / n);
+    }
+    return out;
+  };
+};
+
+/**
+ * dBFS magnitude spectrum of one frame, computed the way
+ * AnalyserNode.getFloatFrequencyData does with smoothing off: Blackman window,
+ * magnitude scaled by 1/N, frame.length / 2 bins.
+ */
+export const magnitudeSpectrum = (frame: Float32Array): Float32Array =>
+  createMagnitudeSpectrum(frame.length)(frame);
+
+export interface SpectrumFeatures {
+  peakFrequency: number; // Interpolated frequency of the loudest bin (Hz)
+  peakProminence: number; // Its height above the spectral floor (dB)
+  snr: number;
+}
+
+export const analyzeSpectrum = (spectrumDb: ArrayLike<number>, binHz: number): SpectrumFeatures => {
+  const peak = findPeakBin(spectrumDb);
+  return {
+    peakFrequency: peak.position * binHz,
+    peakProminence: peak.level - estimateNoiseFloor(spectrumDb),
+    snr: estimateSnr(spectrumDb)
+  };
+};
+
+export interface StatusInputs {
+  db: number;
+  peakFrequency: number;
+  peakProminence: number;
+  exceededBands: number[];
+  tonalAnomalies?: number;
+}
+
+// Diagnostic logic. A peak outside the range only counts when it stands clear of the spectral floor.
+export const evaluateStatus = (standard: MachineStandard, inputs: StatusInputs): DiagnosticStatus => {
+  const { db, peakFrequency, peakProminence, exceededBands, tonalAnomalies = 0 } = inputs;
+  const dbExceeded = db > standard.maxDb;
+  const freqAbnormal = peakFrequency > standard.peakFreqRange[1] || peakFrequency < standard.peakFreqRange[0];
+
+  return (dbExceeded || exceededBands.length > 0 || tonalAnomalies > 0 || (peakProminence > PEAK_PROMINENCE_DB && freqAbnormal))
+    ? DiagnosticStatus.ABNORMAL
+    : DiagnosticStatus.NORMAL;
+};
+
+// Everything a diagnostic window gathers from the level meter and the two FFTs
+export interface DiagnosticWindow {
+  levels: number[];          // Time-weighted level at every meter report
+  maxMeanSquare: number;
+  minMeanSquare: number;
+  energy: number;            // Integrated squared samples for Leq
+  samples: number;
+  spectrumSum: Float64Array; // Per-bin power of the short FFT
+  spectrumFrames: number;
+  fineSpectrumSum: Float64Array; // Per-bin power of the long FFT, for tonal analysis
+  bandPowerSum: Float64Array;    // Per one-third-octave band mean square
+  fineFrames: number;
+}
+
+// Mean per-bin power of `frames` spectra, back in dB
+const averageSpectrum = (powerSum: Float64Array, frames: number): Float64Array =>
+  powerSum.map(p => powerToDb(p / Math.max(1, frames)));
+
+/**
+ * Verdict for a closed window, graded against `standard`. Leq and extremes come
+ * from the meter's own energy, percentiles from its sampled levels, and the
+ * peak, bands and tones from spectra averaged over the whole window. Null when
+ * the window saw no meter reports.
+ */
+export const summarizeWindow = (
+  window: DiagnosticWindow,
+  standard: MachineStandard,
+  sampleRate: number,
+  calibrationOffset: number,
+  snapshotWeights: BandWeights
+): MeasurementSummary | null => {
+  if (window.levels.length === 0) return null;
+
+  const stats = {
+    ...computeLevelStatistics(window.levels),
+    leq: round1(levelDb(window.energy / window.samples, calibrationOffset)),
+    lmax: round1(levelDb(window.maxMeanSquare, calibrationOffset)),
+    lmin: round1(levelDb(window.minMeanSquare, calibrationOffset))
+  };
+
+  // Peak of the averaged spectrum, so a single transient frame can't decide the verdict
+  const averaged = averageSpectrum(window.spectrumSum, window.spectrumFrames);
+  const { peakFrequency, peakProminence } = analyzeSpectrum(averaged, sampleRate / (averaged.length * 2));
+
+  // Tones are picked from the long FFT, whose bins are ~1.5 Hz wide
+  const fine = averageSpectrum(window.fineSpectrumSum, window.fineFrames);
+  const tonal = analyzeTones(fine, sampleRate / (fine.length * 2), calibrationOffset, standard.expectedFundamental);
+  const tonalAnomalies = findTonalAnomalies(tonal, standard.expectedFundamental);
+
+  const bands = toBandSpectrum(
+    Array.from(window.bandPowerSum, p => p / Math.max(1, window.fineFrames)),
+    calibrationOffset
+  );
+  const exceededBands = findBandExceedances(standard, bands);
+
+  return {
+    ...stats,
+    peakFrequency: Math.round(peakFrequency),
+    peakProminence: round1(peakProminence),
+    bands,
+    spectrum: createSpectrumSnapshot(fine, snapshotWeights, calibrationOffset),
+    exceededBands,
+    tonal,
+    status: evaluateStatus(standard, {
+      db: stats.leq,
+      peakFrequency,
+      peakProminence,
+      exceededBands,
+      tonalAnomalies: tonalAnomalies.length
+    }),
+    frameCount: window.levels.length,
+    durationMs: Math.round((window.samples / sampleRate) * 1000),
+    levels: [...window.levels]
+  };
+};
@@ -1,120 +1,458 @@
 
-import { AudioMetrics, DiagnosticStatus, MachineStandard } from '../types';
+import { AudioClip, CaptureSettings, DoseCriterion, DoseState, FrequencyWeighting, InputDevice, MachineStandard, MeasurementSummary, ResponsePoint, TimeWeighting } from '../types';
+import { LEVEL_REPORT_INTERVAL, OFFLINE_SAMPLE_RATE, SPECTRUM_HOP, TIME_WEIGHTING_CONSTANTS } from '../constants';
+import { levelDb } from './analysis';
+import { designWeightingFilter } from './weighting';
+import { designCorrectionFilter } from './responseCurve';
+import { activeProcessing, measurementConstraints, readCaptureSettings } from './inputDevices';
+import levelMeterUrl from './worklets/levelMeter.worklet.ts?worker&url';
+import type { LevelMeterOptions, ReportTarget } from './worklets/levelMeter.worklet';
+import sampleTapUrl from './worklets/sampleTap.worklet.ts?worker&url';
+import type { SampleTapOptions } from './worklets/sampleTap.worklet';
+import pcmRecorderUrl from './worklets/pcmRecorder.worklet.ts?worker&url';
+import type { PcmChunk } from './worklets/pcmRecorder.worklet';
+import AnalysisWorker from './workers/analysis.worker.ts?worker';
+import type { AnalysisMessage, AnalysisRequest, AnalysisUpdate } from './workers/analysis.worker';
+import { concatChunks, encodeWav } from './wav';
 
+export type { AnalysisUpdate } from './workers/analysis.worker';
+
+const FLUSH_TIMEOUT_MS = 500;
+const TONE_GAIN = 0.3;
+
+// Points a worklet's output at `port` and resolves once the worklet has switched over
+const handOver = (node: AudioWorkletNode, port: MessagePort): Promise<void> =>
+  new Promise(resolve => {
+    node.port.onmessage = (e: MessageEvent<'connected'>) => {
+      if (e.data !== 'connected') return;
+      node.port.onmessage = null;
+      resolve();
+    };
+    const target: ReportTarget = { port };
+    node.port.postMessage(target, [port]);
+  });
+
+// Raw (unweighted) PCM captured alongside a diagnostic window
+interface ClipRecording {
+  node: AudioWorkletNode;
+  chunks: Float32Array[];
+  onFinal: (() => void) | null;
+}
+
+/**
+ * Capture graph on the audio thread, analysis in a worker. Worklets post the
+ * weighted signal and meter reports straight to the worker, so windows stay
+ * sample-accurate however busy or throttled the UI thread is; the UI only
+ * receives updates every UI_UPDATE_INTERVAL.
+ */
 export class AudioProcessor {
-  private audioCtx: AudioContext | null = null;
-  private analyser: AnalyserNode | null = null;
+  private audioCtx: BaseAudioContext | null = null;
+  private worker: Worker | null = null;
   private stream: MediaStream | null = null;
-  private source: MediaStreamAudioSourceNode | null = null;
-  private aWeightingFilter: BiquadFilterNode[] = [];
+  private source: AudioNode | null = null;
+  private input: GainNode | null = null;               // Head of the analysis chain
+  private correction: ConvolverNode | null = null;     // Microphone response correction, between source and input
+  private tone: OscillatorNode | null = null;          // Test tone for response sweeps
+  private weightingFilter: IIRFilterNode[] = [];
+  private weighted: AudioNode | null = null;           // End of the weighting chain
+  private levelMeter: AudioWorkletNode | null = null;
+  private sampleTap: AudioWorkletNode | null = null;
+  private peakFilter: IIRFilterNode[] = [];
+  private peakMeter: AudioWorkletNode | null = null;
+  private recording: ClipRecording | null = null;
   
   private calibrationOffset: number = 0;
+  private weighting: FrequencyWeighting;
+  private timeWeighting: TimeWeighting;
+  private peakWeighting: FrequencyWeighting | null;
+  private latest: AnalysisUpdate | null = null;
+  private listener: ((update: AnalysisUpdate) => void) | null = null;
+  private pendingWindows = new Map<number, (summary: MeasurementSummary | null) => void>();
+  private pendingDoses = new Map<number, (state: DoseState | null) => void>();
+  private nextWindowId = 0;
 
-  constructor(offset: number) {
+  constructor(
+    offset: number,
+    weighting: FrequencyWeighting = FrequencyWeighting.A,
+    timeWeighting: TimeWeighting = TimeWeighting.FAST,
+    peakWeighting: FrequencyWeighting | null = null // Adds a peak-level chain in this weighting, e.g. C for LCpeak
+  ) {
     this.calibrationOffset = offset;
+    this.weighting = weighting;
+    this.timeWeighting = timeWeighting;
+    this.peakWeighting = peakWeighting;
+  }
+
+  /**
+   * Opens `deviceId` (or the system default) with all voice processing off.
+   * Refuses, releasing the microphone, when the browser keeps any of it on.
+   */
+  async initialize(deviceId?: string): Promise<void> {
+    const audioCtx: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.audioCtx = audioCtx;
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: measurementConstraints(deviceId), video: false });
+    const processing = activeProcessing(readCaptureSettings(this.stream.getAudioTracks()[0]));
+    if (processing.length > 0) {
+      this.stop();
+      throw new Error(`This browser would not turn off ${processing.join(', ').toLowerCase()} on this input, so it cannot measure sound levels.`);
+    }
+    await this.buildGraph(audioCtx, audioCtx.createMediaStreamSource(this.stream));
+    this.post({ type: 'updates', standard: null });
+  }
+
+  // Restarts a live context the browser suspended, e.g. while the page was hidden. Returns whether it runs.
+  async resume(): Promise<boolean> {
+    if (!(this.audioCtx instanceof AudioContext)) return false;
+    if (this.audioCtx.state === 'suspended') await this.audioCtx.resume();
+    return this.audioCtx.state === 'running';
+  }
+
+  /**
+   * Runs a recorded file through the same graph as live input and returns the
+   * summary of the whole file as one diagnostic window. Rendering is offline,
+   * so it finishes as fast as the machine allows rather than in real time.
+   */
+  async analyzeFile(file: File, standard: MachineStandard): Promise<MeasurementSummary | null> {
+    const decoder = new OfflineAudioContext(1, 1, OFFLINE_SAMPLE_RATE);
+    const buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+
+    const audioCtx = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+    const source = audioCtx.createBufferSource();
+    source.buffer = buffer;
+    await this.buildGraph(audioCtx, source);
+    // Offline rendering only pulls nodes that lead to the destination
+    this.weighted?.connect(audioCtx.destination);
+
+    this.beginWindow();
+    source.start();
+    await audioCtx.startRendering();
+
+    // Meter reports travel by message and can trail the end of rendering
+    const reportSamples = Math.round(LEVEL_REPORT_INTERVAL * buffer.sampleRate);
+    return this.finishWindow(standard, Math.floor(buffer.length / reportSamples) * reportSamples);
+  }
+
+  private async buildGraph(audioCtx: BaseAudioContext, source: AudioNode): Promise<void> {
+    this.audioCtx = audioCtx;
+    this.source = source;
+
+    // Frequency weighting network designed for the context's actual sample rate
+    const sections = designWeightingFilter(this.weighting, audioCtx.sampleRate);
+    this.weightingFilter = sections.map(({ b, a }) => audioCtx.createIIRFilter(b, a));
+
+    // Everything downstream of `input` (levels, spectra, bands) sees the corrected signal
+    this.input = audioCtx.createGain();
+    source.connect(this.input);
+
+    let node: AudioNode = this.input;
+    for (const filter of this.weightingFilter) {
+      node.connect(filter);
+      node = filter;
+    }
+    this.weighted = node;
+
+    const levelChannel = new MessageChannel();
+    const sampleChannel = new MessageChannel();
+    const peakChannel = this.peakWeighting ? new MessageChannel() : null;
+    this.worker = new AnalysisWorker();
+    this.worker.onmessage = (e: MessageEvent<AnalysisMessage>) => this.handleMessage(e.data);
+    const configure: AnalysisRequest = {
+      type: 'configure',
+      sampleRate: audioCtx.sampleRate,
+      calibrationOffset: this.calibrationOffset,
+      levelPort: levelChannel.port2,
+      samplePort: sampleChannel.port2,
+      peakPort: peakChannel?.port2
+    };
+    this.worker.postMessage(configure, peakChannel
+      ? [levelChannel.port2, sampleChannel.port2, peakChannel.port2]
+      : [levelChannel.port2, sampleChannel.port2]);
+
+    // Time weighting runs on every sample in the audio thread, not on per-frame snapshots
+    await Promise.all([
+      audioCtx.audioWorklet.addModule(levelMeterUrl),
+      audioCtx.audioWorklet.addModule(sampleTapUrl),
+      audioCtx.audioWorklet.addModule(pcmRecorderUrl)
+    ]);
+    const { riseTime, fallTime } = TIME_WEIGHTING_CONSTANTS[this.timeWeighting];
+    const processorOptions: LevelMeterOptions = { riseTime, fallTime, reportInterval: LEVEL_REPORT_INTERVAL };
+    this.levelMeter = new AudioWorkletNode(audioCtx, 'level-meter', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions
+    });
+    node.connect(this.levelMeter);
+
+    // Spectra and bands are computed in the worker from the weighted signal itself
+    const tapOptions: SampleTapOptions = { chunkSamples: SPECTRUM_HOP };
+    this.sampleTap = new AudioWorkletNode(audioCtx, 'sample-tap', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: tapOptions
+    });
+    node.connect(this.sampleTap);
+
+    // Peaks need their own weighting network; only the meter's per-block peak is used
+    if (this.peakWeighting && peakChannel) {
+      this.peakFilter = designWeightingFilter(this.peakWeighting, audioCtx.sampleRate)
+        .map(({ b, a }) => audioCtx.createIIRFilter(b, a));
+      let peakNode: AudioNode = this.input;
+      for (const filter of this.peakFilter) {
+        peakNode.connect(filter);
+        peakNode = filter;
+      }
+      this.peakMeter = new AudioWorkletNode(audioCtx, 'level-meter', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions
+      });
+      peakNode.connect(this.peakMeter);
+    }
+
+    await Promise.all([
+      handOver(this.levelMeter, levelChannel.port1),
+      handOver(this.sampleTap, sampleChannel.port1),
+      ...(this.peakMeter && peakChannel ? [handOver(this.peakMeter, peakChannel.port1)] : [])
+    ]);
+  }
+
+  private post(request: AnalysisRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  private handleMessage(message: AnalysisMessage) {
+    if (message.type === 'update') {
+      this.latest = message;
+      this.listener?.(message);
+      return;
+    }
+    if (message.type === 'dose') {
+      this.pendingDoses.get(message.id)?.(message.state);
+      this.pendingDoses.delete(message.id);
+      return;
+    }
+    this.pendingWindows.get(message.id)?.(message.summary);
+    this.pendingWindows.delete(message.id);
   }
 
-  async initialize(): Promise<void> {
-    this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-    this.source = this.audioCtx.createMediaStreamSource(this.stream);
-    this.analyser = this.audioCtx.createAnalyser();
-    this.analyser.fftSize = 2048;
-    this.analyser.smoothingTimeConstant = 0.5;
-
-    // A-weighting approximation using multiple biquad filters
-    // This is a simplified cascaded filter chain to mimic dBA
-    const hpf1 = this.audioCtx.createBiquadFilter();
-    hpf1.type = 'highpass';
-    hpf1.frequency.value = 20.6;
-    
-    const hpf2 = this.audioCtx.createBiquadFilter();
-    hpf2.type = 'highpass';
-    hpf2.frequency.value = 107.7;
-    
-    const lpf1 = this.audioCtx.createBiquadFilter();
-    lpf1.type = 'lowpass';
-    lpf1.frequency.value = 12200;
-
-    const notch = this.audioCtx.createBiquadFilter();
-    notch.type = 'peaking';
-    notch.frequency.value = 2500;
-    notch.gain.value = 1.2;
-
-    this.source.connect(hpf1);
-    hpf1.connect(hpf2);
-    hpf2.connect(lpf1);
-    lpf1.connect(notch);
-    notch.connect(this.analyser);
-
-    this.aWeightingFilter = [hpf1, hpf2, lpf1, notch];
+  getWeighting(): FrequencyWeighting {
+    return this.weighting;
+  }
+
+  getTimeWeighting(): TimeWeighting {
+    return this.timeWeighting;
+  }
+
+  getSampleRate(): number {
+    return this.audioCtx ? this.audioCtx.sampleRate : 0;
   }
 
   setCalibration(offset: number) {
     this.calibrationOffset = offset;
+    this.post({ type: 'calibration', offset });
   }
 
-  getMetrics(standard: MachineStandard): AudioMetrics {
-    if (!this.analyser || !this.audioCtx) {
-      return { db: 0, peakFrequency: 0, isStable: false, status: DiagnosticStatus.IDLE };
+  /**
+   * Inserts (or with null, removes) the inverse of the microphone's frequency
+   * response ahead of the weighting filters. The raw clip tap stays uncorrected.
+   */
+  setResponseCorrection(curve: ResponsePoint[] | null): void {
+    const { audioCtx, source, input } = this;
+    if (!audioCtx || !source || !input) return;
+
+    if (this.correction) {
+      source.disconnect(this.correction);
+      this.correction.disconnect();
+      this.correction = null;
+    } else {
+      source.disconnect(input);
     }
 
-    const bufferLength = this.analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    const timeData = new Uint8Array(this.analyser.fftSize);
-    
-    this.analyser.getByteFrequencyData(dataArray);
-    this.analyser.getByteTimeDomainData(timeData);
-
-    // Calculate RMS for dB
-    let sum = 0;
-    for (let i = 0; i < timeData.length; i++) {
-      const val = (timeData[i] - 128) / 128;
-      sum += val * val;
+    if (!curve || curve.length === 0) {
+      source.connect(input);
+      return;
     }
-    const rms = Math.sqrt(sum / timeData.length);
-    // Standard formula for dB SPL (relative to 1) + user calibration offset
-    const db = 20 * Math.log10(rms || 1e-6) + 100 + this.calibrationOffset;
-
-    // Find peak frequency
-    let maxVal = -1;
-    let maxIndex = -1;
-    for (let i = 0; i < dataArray.length; i++) {
-      if (dataArray[i] > maxVal) {
-        maxVal = dataArray[i];
-        maxIndex = i;
-      }
+    const impulse = designCorrectionFilter(curve, audioCtx.sampleRate);
+    const buffer = audioCtx.createBuffer(1, impulse.length, audioCtx.sampleRate);
+    buffer.copyToChannel(impulse, 0);
+    this.correction = new ConvolverNode(audioCtx, { buffer, disableNormalization: true });
+    source.connect(this.correction);
+    this.correction.connect(input);
+  }
+
+  // Plays a steady sine through the default output, or silences it with null
+  playTone(frequency: number | null, gain: number = TONE_GAIN): void {
+    if (this.tone) {
+      this.tone.stop();
+      this.tone.disconnect();
+      this.tone = null;
     }
-    const peakFrequency = maxIndex * (this.audioCtx.sampleRate / this.analyser.fftSize);
+    if (frequency === null || !(this.audioCtx instanceof AudioContext)) return;
+    const level = new GainNode(this.audioCtx, { gain });
+    this.tone = new OscillatorNode(this.audioCtx, { frequency });
+    this.tone.connect(level).connect(this.audioCtx.destination);
+    this.tone.start();
+  }
 
-    // Diagnostic logic
-    const dbExceeded = db > standard.maxDb;
-    const freqAbnormal = peakFrequency > standard.peakFreqRange[1] || peakFrequency < standard.peakFreqRange[0];
-    
-    const status = (dbExceeded || (maxVal > 200 && freqAbnormal)) 
-      ? DiagnosticStatus.ABNORMAL 
-      : DiagnosticStatus.NORMAL;
+  // Microphone behind the live stream; null for offline analysis
+  getInputDevice(): InputDevice | null {
+    const settings = this.getCaptureSettings();
+    return settings && { deviceId: settings.deviceId, label: settings.label };
+  }
 
-    return {
-      db: Math.round(db * 10) / 10,
-      peakFrequency: Math.round(peakFrequency),
-      isStable: rms > 0.001,
-      status
+  getCaptureSettings(): CaptureSettings | null {
+    const track = this.stream?.getAudioTracks()[0];
+    return track ? readCaptureSettings(track) : null;
+  }
+
+  // Latest time-weighted level, with no standard to grade against
+  getLevel(): number {
+    return this.latest ? this.latest.level : levelDb(0, this.calibrationOffset);
+  }
+
+  getPeakFrequency(): number {
+    return this.latest ? this.latest.metrics.peakFrequency : 0;
+  }
+
+  /**
+   * Delivers the worker's throttled updates, graded against `standard`, until
+   * the returned function is called. One listener at a time.
+   */
+  subscribe(listener: (update: AnalysisUpdate) => void, standard: MachineStandard | null = null): () => void {
+    this.listener = listener;
+    this.post({ type: 'updates', standard });
+    return () => {
+      if (this.listener === listener) this.listener = null;
     };
   }
 
-  getFrequencyData(): Uint8Array {
-    if (!this.analyser) return new Uint8Array(0);
-    const data = new Uint8Array(this.analyser.frequencyBinCount);
-    this.analyser.getByteFrequencyData(data);
-    return data;
+  beginWindow(captureClip = false): void {
+    if (captureClip) this.startRecording();
+    this.post({ type: 'beginWindow' });
+  }
+
+  /**
+   * Opens a window that the worker closes after `seconds` of audio, so its
+   * length holds while UI timers are throttled. Resolves with its summary, or
+   * null if finishWindow() closed it first.
+   */
+  measureWindow(standard: MachineStandard, seconds: number, captureClip = false): Promise<MeasurementSummary | null> {
+    if (!this.worker || !this.audioCtx) return Promise.resolve(null);
+    if (captureClip) this.startRecording();
+    const id = this.nextWindowId++;
+    const samples = Math.round(seconds * this.audioCtx.sampleRate);
+    return new Promise(resolve => {
+      this.pendingWindows.set(id, resolve);
+      this.post({ type: 'beginWindow', close: { id, standard, samples } });
+    });
+  }
+
+  /**
+   * Closes the window and resolves with its summary, or null if it saw no
+   * signal. `expectedSamples` makes the worker wait for reports still in flight.
+   */
+  finishWindow(standard: MachineStandard, expectedSamples?: number): Promise<MeasurementSummary | null> {
+    if (!this.worker) return Promise.resolve(null);
+    const id = this.nextWindowId++;
+    return new Promise(resolve => {
+      this.pendingWindows.set(id, resolve);
+      this.post({ type: 'finishWindow', id, standard, expectedSamples });
+    });
+  }
+
+  /**
+   * Starts integrating noise dose against `criteria`. The running state comes
+   * with every update; endDose() returns the final one.
+   */
+  beginDose(criteria: DoseCriterion[]): void {
+    this.post({ type: 'beginDose', criteria });
+  }
+
+  endDose(): Promise<DoseState | null> {
+    if (!this.worker) return Promise.resolve(null);
+    const id = this.nextWindowId++;
+    return new Promise(resolve => {
+      this.pendingDoses.set(id, resolve);
+      this.post({ type: 'endDose', id });
+    });
+  }
+
+  // Taps the source ahead of the weighting filters so the clip is what the microphone heard
+  private startRecording() {
+    if (!this.audioCtx || !this.source) return;
+    const node = new AudioWorkletNode(this.audioCtx, 'pcm-recorder', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit'
+    });
+    const recording: ClipRecording = { node, chunks: [], onFinal: null };
+    node.port.onmessage = (e: MessageEvent<PcmChunk>) => {
+      recording.chunks.push(e.data.samples);
+      if (e.data.final) recording.onFinal?.();
+    };
+    this.source.connect(node);
+    this.recording = recording;
+  }
+
+  /**
+   * Ends clip capture and encodes it as WAV. Call before stop(): the recorder
+   * is asked to flush its partial block, which needs the context still running.
+   */
+  async finishRecording(): Promise<AudioClip | null> {
+    const recording = this.recording;
+    this.recording = null;
+    if (!recording || !this.audioCtx) return null;
+
+    const sampleRate = this.audioCtx.sampleRate;
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      recording.onFinal = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      recording.node.port.postMessage('flush');
+    });
+    recording.node.port.onmessage = null;
+    recording.node.disconnect();
+
+    const samples = concatChunks(recording.chunks);
+    if (samples.length === 0) return null;
+    return {
+      wav: encodeWav(samples, sampleRate),
+      sampleRate,
+      durationMs: Math.round((samples.length / sampleRate) * 1000)
+    };
   }
 
   stop(): void {
+    if (this.recording) {
+      this.recording.node.port.onmessage = null;
+      this.recording.node.disconnect();
+      this.recording = null;
+    }
+    this.playTone(null);
+    this.levelMeter?.disconnect();
+    this.sampleTap?.disconnect();
+    this.peakMeter?.disconnect();
+    this.listener = null;
+    this.worker?.terminate();
+    this.worker = null;
+    this.pendingWindows.forEach(resolve => resolve(null));
+    this.pendingWindows.clear();
+    this.pendingDoses.forEach(resolve => resolve(null));
+    this.pendingDoses.clear();
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
     }
-    if (this.audioCtx) {
+    // Offline contexts end with their rendering and have nothing to close
+    if (this.audioCtx instanceof AudioContext) {
       this.audioCtx.close();
     }
   }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { BackgroundLevel, BackgroundValidity, DiagnosticStatus, FrequencyWeighting, MachineStandard, MeasurementSummary } from '../types';
+import { applyBackground, backgroundCorrection } from './background';
+
+const background = (leq: number): BackgroundLevel => ({ machineId: 'm1', leq, measuredAt: 0 });
+
+const standard: MachineStandard = {
+  id: 'm1',
+  name: 'Test pump',
+  category: 'Test',
+  maxDb: 80,
+  weighting: FrequencyWeighting.A,
+  peakFreqRange: [50, 500]
+};
+
+const summary: MeasurementSummary = {
+  leq: 81,
+  lmax: 84,
+  lmin: 78,
+  l10: 83,
+  l50: 81,
+  l90: 79,
+  peakFrequency: 100,
+  peakProminence: 20,
+  bands: { octave: [], thirdOctave: [] },
+  spectrum: { minFrequency: 20, pointsPerOctave: 12, levels: [] },
+  exceededBands: [],
+  tonal: { fundamental: null, fundamentalConfirmed: false, components: [] },
+  status: DiagnosticStatus.ABNORMAL,
+  frameCount: 100,
+  durationMs: 10000,
+  levels: []
+};
+
+describe('backgroundCorrection', () => {
+  it('applies the ISO 3746 correction between 3 and 10 dB', () => {
+    // Equal energies 3 dB apart: removing the background halves the energy
+    expect(backgroundCorrection(73, background(70))).toMatchObject({ correction: 3, validity: BackgroundValidity.CORRECTED });
+    expect(backgroundCorrection(76, background(70))).toMatchObject({ correction: 1.3, validity: BackgroundValidity.CORRECTED });
+    expect(backgroundCorrection(80, background(70)).correction).toBe(0.5);
+  });
+
+  it('skips the correction when the background is far below', () => {
+    expect(backgroundCorrection(81, background(70))).toMatchObject({ difference: 11, correction: 0, validity: BackgroundValidity.NEGLIGIBLE });
+  });
+
+  it('flags a difference under 3 dB as invalid and holds the correction at its limit', () => {
+    expect(backgroundCorrection(71.5, background(70))).toMatchObject({ difference: 1.5, correction: 3, validity: BackgroundValidity.INVALID });
+  });
+});
+
+describe('applyBackground', () => {
+  it('re-grades a run whose level only exceeded the limit because of background', () => {
+    const corrected = applyBackground(standard, summary, background(77));
+    expect(corrected.leq).toBe(78.8);
+    expect(corrected.status).toBe(DiagnosticStatus.NORMAL);
+    expect(corrected.lmax).toBe(summary.lmax);
+  });
+
+  it('leaves a run too close to the background ungraded', () => {
+    const corrected = applyBackground(standard, { ...summary, exceededBands: [250] }, background(summary.leq - 1));
+    expect(corrected.status).toBe(DiagnosticStatus.INDETERMINATE);
+  });
+
+  it('keeps failures that have nothing to do with level', () => {
+    const corrected = applyBackground(standard, { ...summary, exceededBands: [250] }, background(77));
+    expect(corrected.status).toBe(DiagnosticStatus.ABNORMAL);
+  });
+});
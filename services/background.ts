@@ -0,0 +1,49 @@
+import { BackgroundCorrection, BackgroundLevel, BackgroundValidity, DiagnosticStatus, MachineStandard, MeasurementSummary } from '../types';
+import { BACKGROUND_MIN_DIFFERENCE_DB, BACKGROUND_NEGLIGIBLE_DB } from '../constants';
+import { evaluateStatus } from './analysis';
+import { findTonalAnomalies } from './tonal';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * ISO 3746 background correction K1 = -10 lg(1 - 10^(-0.1 ΔL)). Below the
+ * minimum difference the correction is held at its limit and the result is
+ * invalid: the machine level is then only an upper bound.
+ */
+export const backgroundCorrection = (measuredDb: number, background: BackgroundLevel): BackgroundCorrection => {
+  const difference = measuredDb - background.leq;
+  const validity = difference > BACKGROUND_NEGLIGIBLE_DB ? BackgroundValidity.NEGLIGIBLE
+    : difference >= BACKGROUND_MIN_DIFFERENCE_DB ? BackgroundValidity.CORRECTED
+    : BackgroundValidity.INVALID;
+  const correction = validity === BackgroundValidity.NEGLIGIBLE ? 0
+    : validity === BackgroundValidity.CORRECTED ? -10 * Math.log10(1 - Math.pow(10, -0.1 * difference))
+    : -10 * Math.log10(1 - Math.pow(10, -0.1 * BACKGROUND_MIN_DIFFERENCE_DB));
+  return {
+    backgroundDb: background.leq,
+    measuredAt: background.measuredAt,
+    difference: round1(difference),
+    correction: round1(correction),
+    validity
+  };
+};
+
+/**
+ * Corrects a run's Leq for background and re-grades it. Only the overall
+ * level is corrected; bands, extremes and percentiles stay as measured.
+ * A run too close to the background is not graded at all.
+ */
+export const applyBackground = (standard: MachineStandard, summary: MeasurementSummary, background: BackgroundLevel): MeasurementSummary => {
+  const { correction, validity } = backgroundCorrection(summary.leq, background);
+  const leq = round1(summary.leq - correction);
+  return {
+    ...summary,
+    leq,
+    status: validity === BackgroundValidity.INVALID ? DiagnosticStatus.INDETERMINATE : evaluateStatus(standard, {
+      db: leq,
+      peakFrequency: summary.peakFrequency,
+      peakProminence: summary.peakProminence,
+      exceededBands: summary.exceededBands,
+      tonalAnomalies: findTonalAnomalies(summary.tonal, standard.expectedFundamental).length
+    })
+  };
+};
@@ -0,0 +1,84 @@
+import { BandResolution, BandSpectrum, BaselineComparison, BandDrift, DiagnosticStatus, MachineBaseline, MachineStandard, MeasurementSummary } from '../types';
+import { BASELINE_BAND_FLOOR_DB, BASELINE_STORAGE_KEY, BASELINE_THRESHOLDS } from '../constants';
+import { bandsFor } from './octaveBands';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const SEVERITY: Record<DiagnosticStatus, number> = {
+  [DiagnosticStatus.IDLE]: 0,
+  [DiagnosticStatus.NORMAL]: 1,
+  [DiagnosticStatus.INDETERMINATE]: 2, // Can't be called normal, but nothing was found either
+  [DiagnosticStatus.WARNING]: 3,
+  [DiagnosticStatus.ABNORMAL]: 4
+};
+
+export const worstStatus = (...statuses: DiagnosticStatus[]): DiagnosticStatus =>
+  statuses.reduce((worst, s) => (SEVERITY[s] > SEVERITY[worst] ? s : worst), DiagnosticStatus.IDLE);
+
+export const createBaseline = (machine: MachineStandard, summary: MeasurementSummary): MachineBaseline => ({
+  machineId: machine.id,
+  recordedAt: Date.now(),
+  weighting: machine.weighting,
+  levels: {
+    leq: summary.leq,
+    lmax: summary.lmax,
+    lmin: summary.lmin,
+    l10: summary.l10,
+    l50: summary.l50,
+    l90: summary.l90
+  },
+  peakFrequency: summary.peakFrequency,
+  bands: summary.bands
+});
+
+// Level change per band against a reference run, skipping bands too quiet in both to mean anything
+export const bandDeltas = (current: BandSpectrum, reference: BandSpectrum, resolution: BandResolution): BandDrift[] => {
+  const key = resolution === BandResolution.OCTAVE ? 'octave' : 'thirdOctave';
+  const deltas: BandDrift[] = [];
+  bandsFor(resolution).forEach((band, i) => {
+    const level = current[key][i];
+    const referenceLevel = reference[key][i];
+    if (level === undefined || referenceLevel === undefined) return;
+    if (level < BASELINE_BAND_FLOOR_DB && referenceLevel < BASELINE_BAND_FLOOR_DB) return;
+    deltas.push({ nominal: band.nominal, delta: round1(level - referenceLevel) });
+  });
+  return deltas;
+};
+
+export const compareToBaseline = (summary: MeasurementSummary, baseline: MachineBaseline): BaselineComparison => {
+  const { warning, abnormal } = BASELINE_THRESHOLDS;
+
+  const deltas = bandDeltas(summary.bands, baseline.bands, BandResolution.THIRD_OCTAVE);
+
+  const spectralDistance = deltas.length
+    ? Math.sqrt(deltas.reduce((acc, d) => acc + d.delta * d.delta, 0) / deltas.length)
+    : 0;
+  const levelDelta = summary.leq - baseline.levels.leq;
+  const driftedBands = deltas.filter(d => Math.abs(d.delta) > warning.bandDelta);
+
+  const grade = (value: number, warnAt: number, abnormalAt: number) =>
+    value > abnormalAt ? DiagnosticStatus.ABNORMAL : value > warnAt ? DiagnosticStatus.WARNING : DiagnosticStatus.NORMAL;
+
+  const status = worstStatus(
+    grade(Math.abs(levelDelta), warning.levelDelta, abnormal.levelDelta),
+    grade(spectralDistance, warning.spectralDistance, abnormal.spectralDistance),
+    grade(Math.max(0, ...driftedBands.map(d => Math.abs(d.delta))), warning.bandDelta, abnormal.bandDelta)
+  );
+
+  return {
+    baselineRecordedAt: baseline.recordedAt,
+    levelDelta: round1(levelDelta),
+    spectralDistance: round1(spectralDistance),
+    driftedBands,
+    status
+  };
+};
+
+export const loadBaselines = (): Record<string, MachineBaseline> => {
+  const saved = localStorage.getItem(BASELINE_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const storeBaselines = (baselines: Record<string, MachineBaseline>): void => {
+  localStorage.setItem(BASELINE_STORAGE_KEY, JSON.stringify(baselines));
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationMethod, CalibrationProfile, CalibrationState } from '../types';
+import { CALIBRATION_MAX_AGE_DAYS } from '../constants';
+import { calibrationState, isSteady, offsetFromReading, upsertProfile } from './calibration';
+
+const NOW = Date.UTC(2025, 0, 31);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const profile = (overrides: Partial<CalibrationProfile> = {}): CalibrationProfile => ({
+  id: 'p1',
+  name: 'Handset mic',
+  deviceId: 'device-a',
+  deviceLabel: 'Built-in Microphone',
+  offset: 112.4,
+  method: CalibrationMethod.CALIBRATOR,
+  calibratedAt: NOW - DAY_MS,
+  checks: [{ referenceDb: 114, measuredDb: 114.3 }],
+  ...overrides
+});
+
+describe('offsetFromReading', () => {
+  it('makes the captured dBFS reading equal the reference level', () => {
+    // A 94 dB calibrator reading -18.4 dBFS
+    expect(offsetFromReading(94, -18.4)).toBe(112.4);
+  });
+});
+
+describe('isSteady', () => {
+  it('accepts readings within the allowed spread and rejects drifting ones', () => {
+    expect(isSteady([-18.4, -18.2, -18.5])).toBe(true);
+    expect(isSteady([-18.4, -17.2, -18.5])).toBe(false);
+    expect(isSteady([])).toBe(false);
+  });
+});
+
+describe('calibrationState', () => {
+  it('grades a recent profile with passing checks as current', () => {
+    expect(calibrationState(profile(), NOW)).toBe(CalibrationState.CURRENT);
+  });
+
+  it('reports a missing profile', () => {
+    expect(calibrationState(undefined, NOW)).toBe(CalibrationState.MISSING);
+  });
+
+  it('goes stale after the recalibration interval', () => {
+    const old = profile({ calibratedAt: NOW - (CALIBRATION_MAX_AGE_DAYS + 1) * DAY_MS });
+    expect(calibrationState(old, NOW)).toBe(CalibrationState.STALE);
+  });
+
+  it('fails when a check point is out of tolerance', () => {
+    const failed = profile({ checks: [{ referenceDb: 114, measuredDb: 115.6 }] });
+    expect(calibrationState(failed, NOW)).toBe(CalibrationState.FAILED);
+  });
+});
+
+describe('upsertProfile', () => {
+  it('replaces the profile of a recalibrated device', () => {
+    const other = profile({ id: 'p2', deviceId: 'device-b' });
+    const updated = upsertProfile([profile(), other], profile({ id: 'p3', offset: 110 }));
+    expect(updated.map(p => p.id)).toEqual(['p2', 'p3']);
+  });
+});
@@ -0,0 +1,57 @@
+import { CalibrationCheck, CalibrationProfile, CalibrationSnapshot, CalibrationState } from '../types';
+import {
+  CALIBRATION_CHECK_TOLERANCE_DB,
+  CALIBRATION_MAX_AGE_DAYS,
+  CALIBRATION_PROFILES_STORAGE_KEY,
+  CALIBRATION_STEADY_SPREAD_DB,
+  LAST_INPUT_DEVICE_STORAGE_KEY
+} from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const loadCalibrationProfiles = (): CalibrationProfile[] => {
+  const saved = localStorage.getItem(CALIBRATION_PROFILES_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const storeCalibrationProfiles = (profiles: CalibrationProfile[]): void => {
+  localStorage.setItem(CALIBRATION_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+// The input the app last opened, so settings can show its status without asking for the mic
+export const loadLastInputDevice = (): string | null => localStorage.getItem(LAST_INPUT_DEVICE_STORAGE_KEY);
+
+export const storeLastInputDevice = (deviceId: string): void => {
+  localStorage.setItem(LAST_INPUT_DEVICE_STORAGE_KEY, deviceId);
+};
+
+export const profileForDevice = (profiles: CalibrationProfile[], deviceId: string | null): CalibrationProfile | undefined =>
+  deviceId ? profiles.find(p => p.deviceId === deviceId) : undefined;
+
+// A device has at most one profile; recalibrating replaces it
+export const upsertProfile = (profiles: CalibrationProfile[], profile: CalibrationProfile): CalibrationProfile[] =>
+  [...profiles.filter(p => p.deviceId !== profile.deviceId), profile];
+
+// Offset that makes a dBFS reading equal the reference level
+export const offsetFromReading = (referenceDb: number, measuredDbFs: number): number =>
+  Math.round((referenceDb - measuredDbFs) * 10) / 10;
+
+export const checkPasses = (check: CalibrationCheck): boolean =>
+  Math.abs(check.measuredDb - check.referenceDb) <= CALIBRATION_CHECK_TOLERANCE_DB;
+
+// True once the readings hold within the allowed spread
+export const isSteady = (levels: number[]): boolean =>
+  levels.length > 0 && Math.max(...levels) - Math.min(...levels) <= CALIBRATION_STEADY_SPREAD_DB;
+
+export const calibrationState = (profile: CalibrationProfile | undefined, now: number = Date.now()): CalibrationState => {
+  if (!profile) return CalibrationState.MISSING;
+  if (!profile.checks.every(checkPasses)) return CalibrationState.FAILED;
+  if (now - profile.calibratedAt > CALIBRATION_MAX_AGE_DAYS * DAY_MS) return CalibrationState.STALE;
+  return CalibrationState.CURRENT;
+};
+
+// What a record keeps of the calibration it was measured with
+export const calibrationSnapshot = (profile: CalibrationProfile | undefined, manualOffset: number): CalibrationSnapshot =>
+  profile
+    ? { offset: profile.offset, profileName: profile.name, calibratedAt: profile.calibratedAt, responseCorrected: Boolean(profile.responseCurve) }
+    : { offset: manualOffset, responseCorrected: false };
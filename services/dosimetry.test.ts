@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DoseCriterion } from '../types';
+import { DOSE_CRITERIA } from '../constants';
+import { accumulateDose, allowedSeconds, createDoseState, dailyExposure, doseResults, equivalentLevel } from './dosimetry';
+
+const HOUR_S = 3600;
+const [OSHA_PEL, OSHA_ACTION, NIOSH] = DOSE_CRITERIA;
+
+// Steady `level` for `hours`, fed in one-second blocks like the meter would
+const expose = (criteria: DoseCriterion[], segments: [number, number][]) => {
+  const state = createDoseState(criteria);
+  segments.forEach(([level, hours]) => {
+    for (let s = 0; s < hours * HOUR_S; s++) accumulateDose(state, { level, leq: level, peak: level + 10, seconds: 1 });
+  });
+  return state;
+};
+
+describe('allowedSeconds', () => {
+  it('halves the allowance per exchange rate', () => {
+    expect(allowedSeconds(90, OSHA_PEL)).toBeCloseTo(8 * HOUR_S);
+    expect(allowedSeconds(95, OSHA_PEL)).toBeCloseTo(4 * HOUR_S);
+    expect(allowedSeconds(88, NIOSH)).toBeCloseTo(4 * HOUR_S);
+  });
+});
+
+describe('doseResults', () => {
+  it('reaches 100 % and a TWA at the criterion for a full day at the criterion level', () => {
+    const [osha, niosh] = doseResults(expose([OSHA_PEL, NIOSH], [[90, 8]]), 8);
+    expect(osha.dose).toBeCloseTo(100, 0);
+    expect(osha.twa).toBeCloseTo(90, 1);
+    // 5 dB above the NIOSH criterion at 3 dB per halving
+    expect(niosh.dose).toBeCloseTo(100 * Math.pow(2, 5 / 3), 0);
+    expect(niosh.twa).toBeCloseTo(90, 1);
+  });
+
+  it('ignores levels below the threshold', () => {
+    const [pel, action] = doseResults(expose([OSHA_PEL, OSHA_ACTION], [[85, 8]]), 8);
+    expect(pel.dose).toBe(0);
+    expect(action.dose).toBeCloseTo(50, 0);
+  });
+
+  it('projects the dose so far to the end of the shift', () => {
+    const [osha] = doseResults(expose([OSHA_PEL], [[95, 2]]), 8);
+    expect(osha.dose).toBeCloseTo(50, 0);
+    expect(osha.projectedDose).toBeCloseTo(200, 0);
+  });
+});
+
+describe('dailyExposure', () => {
+  it('normalises the equivalent level to 8 hours', () => {
+    const state = expose([NIOSH], [[85, 2], [91, 2]]);
+    expect(equivalentLevel(state)).toBeCloseTo(10 * Math.log10((Math.pow(10, 8.5) + Math.pow(10, 9.1)) / 2), 1);
+    expect(dailyExposure(state)).toBeCloseTo(equivalentLevel(state) - 10 * Math.log10(2), 1);
+    expect(state.peak).toBe(101);
+  });
+});
+
+describe('accumulateDose', () => {
+  it('leaves the peak empty when nothing measures it', () => {
+    const state = createDoseState([NIOSH]);
+    accumulateDose(state, { level: 85, leq: 85, peak: null, seconds: 1 });
+    expect(state.peak).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { DoseCriterion, DoseResult, DoseState } from '../types';
+import { DEFAULT_SITE_CRITERION, DOSE_REFERENCE_HOURS, SITE_CRITERION_STORAGE_KEY } from '../constants';
+
+const HOUR_S = 3600;
+const SILENCE_DB = -100;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const loadSiteCriterion = (): DoseCriterion => {
+  const saved = localStorage.getItem(SITE_CRITERION_STORAGE_KEY);
+  return saved ? { ...DEFAULT_SITE_CRITERION, ...JSON.parse(saved) } : DEFAULT_SITE_CRITERION;
+};
+
+export const storeSiteCriterion = (criterion: DoseCriterion): void => {
+  localStorage.setItem(SITE_CRITERION_STORAGE_KEY, JSON.stringify(criterion));
+};
+
+// Seconds `level` may last before using up the whole allowance: T = 8 h / 2^((L - Lc) / Q)
+export const allowedSeconds = (level: number, criterion: DoseCriterion): number =>
+  (DOSE_REFERENCE_HOURS * HOUR_S) / Math.pow(2, (level - criterion.criterionLevel) / criterion.exchangeRate);
+
+export const createDoseState = (criteria: DoseCriterion[]): DoseState => ({
+  criteria,
+  seconds: 0,
+  exposure: 0,
+  doses: criteria.map(() => 0),
+  lmax: SILENCE_DB,
+  peak: null
+});
+
+/**
+ * Adds one meter block to `state`, in place: it runs every few milliseconds
+ * for a whole shift. `level` is the Slow A level that doses are graded on,
+ * `leq` the block's energy level, `peak` its C-weighted peak, or null when
+ * nothing measures peaks.
+ */
+export const accumulateDose = (state: DoseState, block: { level: number; leq: number; peak: number | null; seconds: number }): void => {
+  state.seconds += block.seconds;
+  state.exposure += Math.pow(10, block.leq / 10) * block.seconds;
+  state.criteria.forEach((criterion, i) => {
+    if (block.level >= criterion.thresholdLevel) state.doses[i] += block.seconds / allowedSeconds(block.level, criterion);
+  });
+  state.lmax = Math.max(state.lmax, block.level);
+  if (block.peak !== null) state.peak = Math.max(state.peak ?? SILENCE_DB, block.peak);
+};
+
+export const equivalentLevel = (state: DoseState): number =>
+  state.seconds > 0 ? 10 * Math.log10(state.exposure / state.seconds) : SILENCE_DB;
+
+// LEX,8h = LAeq,T + 10 lg(T / 8 h), always energy-based whatever the dose exchange rate
+export const dailyExposure = (state: DoseState): number =>
+  state.seconds > 0 ? equivalentLevel(state) + 10 * Math.log10(state.seconds / (DOSE_REFERENCE_HOURS * HOUR_S)) : SILENCE_DB;
+
+// Level that would give `dose` percent over the 8 h reference: TWA = Lc + Q / lg 2 · lg(D / 100)
+export const twaFromDose = (dose: number, criterion: DoseCriterion): number =>
+  dose > 0 ? criterion.criterionLevel + (criterion.exchangeRate / Math.log10(2)) * Math.log10(dose / 100) : SILENCE_DB;
+
+/**
+ * Dose and TWA per criterion. The projection assumes the rest of a
+ * `shiftHours` shift looks like the part measured so far.
+ */
+export const doseResults = (state: DoseState, shiftHours: number): DoseResult[] =>
+  state.criteria.map((criterion, i) => {
+    const dose = state.doses[i] * 100;
+    const projected = state.seconds > 0 ? dose * ((shiftHours * HOUR_S) / state.seconds) : 0;
+    return {
+      criterion,
+      dose: round1(dose),
+      twa: round1(twaFromDose(dose, criterion)),
+      projectedDose: round1(projected)
+    };
+  });
@@ -0,0 +1,20 @@
+// Saves generated content through a temporary object URL
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Opens a self-contained page in a new window and brings up the print dialog, where it can be saved as PDF
+export const printDocument = (html: string): boolean => {
+  const page = window.open('', '_blank');
+  if (!page) return false;
+  page.document.write(html);
+  page.document.close();
+  page.focus();
+  page.print();
+  return true;
+};
@@ -0,0 +1,5 @@
+// Reason to put in brackets after a user-facing message, e.g. "The log could not be saved (QuotaExceededError)."
+export const describeError = (err: unknown): string => {
+  if (err instanceof Error) return (err.message || err.name).replace(/\.$/, '');
+  return typeof err === 'string' && err ? err.replace(/\.$/, '') : 'unknown error';
+};
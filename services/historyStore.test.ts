@@ -0,0 +1,53 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { DiagnosticStatus, HistoryEntry, RecordKind, SyncState } from '../types';
+import { LEGACY_HISTORY_STORAGE_KEY } from '../constants';
+import { getMachineHistory, getOutbox } from './historyStore';
+
+const entry = (id: string): HistoryEntry => ({
+  id,
+  machineId: 'pump',
+  machineName: 'Pump',
+  timestamp: Date.UTC(2024, 0, Number(id)),
+  status: DiagnosticStatus.NORMAL,
+  db: 70,
+  peakFrequency: 100
+});
+
+describe('legacy history migration', () => {
+  beforeAll(() => {
+    const saved = new Map([[LEGACY_HISTORY_STORAGE_KEY, JSON.stringify([entry('1'), entry('2')])]]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => saved.get(key) ?? null,
+      removeItem: (key: string) => saved.delete(key)
+    });
+  });
+
+  it('queues the migrated records for sync', async () => {
+    expect((await getMachineHistory('pump')).map(e => e.id)).toEqual(['1', '2']);
+    const outbox = await getOutbox();
+    expect(outbox.map(item => item.key).sort()).toEqual(['history/1', 'history/2']);
+    expect(outbox.every(item => item.kind === RecordKind.HISTORY && item.state === SyncState.PENDING)).toBe(true);
+    expect(localStorage.getItem(LEGACY_HISTORY_STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe('unreadable legacy history', () => {
+  beforeAll(() => {
+    const saved = new Map([[LEGACY_HISTORY_STORAGE_KEY, '[{"id": "3"']]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => saved.get(key) ?? null,
+      removeItem: (key: string) => saved.delete(key)
+    });
+  });
+
+  it('keeps the log until the user discards it', async () => {
+    // A fresh module opens the database again, as a later app start would
+    vi.resetModules();
+    const store = await import('./historyStore');
+    expect(await store.hasUnreadableLegacyHistory()).toBe(true);
+    expect(localStorage.getItem(LEGACY_HISTORY_STORAGE_KEY)).not.toBeNull();
+    store.discardLegacyHistory();
+    expect(await store.hasUnreadableLegacyHistory()).toBe(false);
+  });
+});
@@ -0,0 +1,308 @@
+import { DosimetryRecord, HistoryEntry, HistoryFilter, MonitoringSession, OutboxItem, RecordKind, SyncState } from '../types';
+import { LEGACY_HISTORY_STORAGE_KEY } from '../constants';
+
+const DB_NAME = 'acoustic_tool';
+const DB_VERSION = 5;
+const HISTORY_STORE = 'history';
+const CLIP_STORE = 'clips'; // WAV blobs keyed by history entry id
+const DOSIMETRY_STORE = 'dosimetry';
+const OUTBOX_STORE = 'outbox'; // Records still to be sent to the sync endpoint
+const MONITORING_STORE = 'monitoring'; // Unattended monitoring sessions; not synced
+
+const RECORD_STORES: Record<RecordKind, string> = {
+  [RecordKind.HISTORY]: HISTORY_STORE,
+  [RecordKind.DOSIMETRY]: DOSIMETRY_STORE
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const outboxListeners = new Set<() => void>();
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const outboxItem = (kind: RecordKind, recordId: string): OutboxItem => ({
+  key: `${kind}/${recordId}`,
+  kind,
+  recordId,
+  queuedAt: Date.now(),
+  state: SyncState.PENDING,
+  attempts: 0,
+  nextAttemptAt: 0
+});
+
+// Each case upgrades from the previous schema version and falls through to the next
+const upgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  switch (oldVersion) {
+    case 0: {
+      const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+      store.createIndex('timestamp', 'timestamp');
+      store.createIndex('machineId', 'machineId');
+    }
+    // falls through
+    case 1:
+      db.createObjectStore(CLIP_STORE);
+    // falls through
+    case 2:
+      db.createObjectStore(DOSIMETRY_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+    // falls through
+    case 3: {
+      // Records made before sync existed are queued too
+      const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' });
+      outbox.createIndex('kind', 'kind');
+      (Object.keys(RECORD_STORES) as RecordKind[]).forEach(kind => {
+        const request = tx.objectStore(RECORD_STORES[kind]).getAllKeys();
+        request.onsuccess = () => request.result.forEach(id => outbox.put(outboxItem(kind, String(id))));
+      });
+    }
+    // falls through
+    case 4:
+      db.createObjectStore(MONITORING_STORE, { keyPath: 'id' }).createIndex('machineId', 'machineId');
+  }
+};
+
+const notifyOutbox = () => outboxListeners.forEach(listener => listener());
+
+// The capped localStorage log of earlier versions; null when it can't be parsed
+const readLegacyHistory = (saved: string): HistoryEntry[] | null => {
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Moves records from the capped localStorage log into the database, once. An unreadable log stays until the user discards it.
+const migrateLegacyHistory = async (db: IDBDatabase) => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_STORAGE_KEY);
+  if (!saved) return;
+  const entries = readLegacyHistory(saved);
+  if (!entries) return;
+
+  // Runs after the schema upgrade, so the records are queued for sync here rather than there
+  const tx = db.transaction([HISTORY_STORE, OUTBOX_STORE], 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  entries.forEach(entry => {
+    store.put(entry);
+    outbox.put(outboxItem(RecordKind.HISTORY, entry.id));
+  });
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+  if (entries.length > 0) notifyOutbox();
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      await migrateLegacyHistory(db);
+      return db;
+    });
+  }
+  return dbPromise;
+};
+
+// Whether an earlier version's log is still waiting because it could not be read
+export const hasUnreadableLegacyHistory = async (): Promise<boolean> => {
+  await openDb();
+  return localStorage.getItem(LEGACY_HISTORY_STORAGE_KEY) !== null;
+};
+
+export const discardLegacyHistory = (): void => localStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+
+// Called whenever records are queued or leave the queue, so sync can run without polling
+export const onOutboxChange = (listener: () => void): (() => void) => {
+  outboxListeners.add(listener);
+  return () => outboxListeners.delete(listener);
+};
+
+export const addHistoryEntry = async (entry: HistoryEntry, clip?: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_STORE, CLIP_STORE, OUTBOX_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(entry);
+  if (clip) tx.objectStore(CLIP_STORE).put(clip, entry.id);
+  tx.objectStore(OUTBOX_STORE).put(outboxItem(RecordKind.HISTORY, entry.id));
+  await transactionDone(tx);
+  notifyOutbox();
+};
+
+export const getClip = async (entryId: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const tx = db.transaction(CLIP_STORE, 'readonly');
+  const request = tx.objectStore(CLIP_STORE).get(entryId);
+  await transactionDone(tx);
+  return (request.result as Blob | undefined) ?? null;
+};
+
+// Local only: records already synced stay on the server
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_STORE, CLIP_STORE, OUTBOX_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).clear();
+  tx.objectStore(CLIP_STORE).clear();
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  const queued = outbox.index('kind').getAllKeys(RecordKind.HISTORY);
+  queued.onsuccess = () => queued.result.forEach(key => outbox.delete(key));
+  await transactionDone(tx);
+  notifyOutbox();
+};
+
+// Every record of one machine, oldest first
+export const getMachineHistory = async (machineId: string): Promise<HistoryEntry[]> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const request = tx.objectStore(HISTORY_STORE).index('machineId').getAll(machineId);
+  await transactionDone(tx);
+  return (request.result as HistoryEntry[]).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const matches = (entry: HistoryEntry, filter: HistoryFilter): boolean => {
+  if (filter.machineId && entry.machineId !== filter.machineId) return false;
+  if (filter.status && entry.status !== filter.status) return false;
+  if (filter.text) {
+    const needle = filter.text.toLowerCase();
+    const haystack = [entry.machineName, entry.status, String(entry.db), String(entry.peakFrequency), entry.sourceFile ?? '', entry.technician ?? '', entry.assetTag ?? '', entry.location ?? ''].join(' ').toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+};
+
+/**
+ * Newest-first page of records matching `filter`, with the total match count.
+ * The date range narrows the cursor on the timestamp index; the rest is filtered while walking it.
+ */
+export const queryHistory = async (
+  filter: HistoryFilter,
+  page: number,
+  pageSize: number
+): Promise<{ entries: HistoryEntry[]; total: number }> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const index = tx.objectStore(HISTORY_STORE).index('timestamp');
+
+  const range = filter.from !== undefined || filter.to !== undefined
+    ? IDBKeyRange.bound(filter.from ?? 0, filter.to ?? Number.MAX_SAFE_INTEGER)
+    : undefined;
+
+  const entries: HistoryEntry[] = [];
+  const skip = page * pageSize;
+  let total = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(range, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const entry = cursor.value as HistoryEntry;
+      if (matches(entry, filter)) {
+        if (total >= skip && entries.length < pageSize) entries.push(entry);
+        total++;
+      }
+      cursor.continue();
+    };
+  });
+
+  return { entries, total };
+};
+
+export const addDosimetryRecord = async (record: DosimetryRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([DOSIMETRY_STORE, OUTBOX_STORE], 'readwrite');
+  tx.objectStore(DOSIMETRY_STORE).put(record);
+  tx.objectStore(OUTBOX_STORE).put(outboxItem(RecordKind.DOSIMETRY, record.id));
+  await transactionDone(tx);
+  notifyOutbox();
+};
+
+// Every dosimetry session, newest first
+export const getDosimetryRecords = async (): Promise<DosimetryRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(DOSIMETRY_STORE, 'readonly');
+  const request = tx.objectStore(DOSIMETRY_STORE).index('startedAt').getAll();
+  await transactionDone(tx);
+  return (request.result as DosimetryRecord[]).reverse();
+};
+
+export const deleteDosimetryRecord = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([DOSIMETRY_STORE, OUTBOX_STORE], 'readwrite');
+  tx.objectStore(DOSIMETRY_STORE).delete(id);
+  tx.objectStore(OUTBOX_STORE).delete(`${RecordKind.DOSIMETRY}/${id}`);
+  await transactionDone(tx);
+  notifyOutbox();
+};
+
+// Queued records, oldest first
+export const getOutbox = async (): Promise<OutboxItem[]> => {
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readonly');
+  const request = tx.objectStore(OUTBOX_STORE).getAll();
+  await transactionDone(tx);
+  return (request.result as OutboxItem[]).sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const getRecord = async (kind: RecordKind, id: string): Promise<HistoryEntry | DosimetryRecord | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(RECORD_STORES[kind], 'readonly');
+  const request = tx.objectStore(RECORD_STORES[kind]).get(id);
+  await transactionDone(tx);
+  return request.result;
+};
+
+// Saves the item's new sync state, or drops it from the queue when null
+export const updateOutboxItem = async (key: string, item: OutboxItem | null): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  if (item) tx.objectStore(OUTBOX_STORE).put(item);
+  else tx.objectStore(OUTBOX_STORE).delete(key);
+  await transactionDone(tx);
+  notifyOutbox();
+};
+
+// Settles a conflict in the server's favour: its copy replaces the local record, which leaves the queue
+export const acceptRemoteRecord = async (item: OutboxItem): Promise<void> => {
+  if (!item.remote) return;
+  const db = await openDb();
+  const tx = db.transaction([RECORD_STORES[item.kind], OUTBOX_STORE], 'readwrite');
+  tx.objectStore(RECORD_STORES[item.kind]).put(item.remote.record);
+  tx.objectStore(OUTBOX_STORE).delete(item.key);
+  await transactionDone(tx);
+  notifyOutbox();
+};
+
+// Written after every interval, so a session survives the app being closed overnight
+export const putMonitoringSession = async (session: MonitoringSession): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(MONITORING_STORE, 'readwrite');
+  tx.objectStore(MONITORING_STORE).put(session);
+  await transactionDone(tx);
+};
+
+// Sessions of one machine, newest first
+export const getMonitoringSessions = async (machineId: string): Promise<MonitoringSession[]> => {
+  const db = await openDb();
+  const tx = db.transaction(MONITORING_STORE, 'readonly');
+  const request = tx.objectStore(MONITORING_STORE).index('machineId').getAll(machineId);
+  await transactionDone(tx);
+  return (request.result as MonitoringSession[]).sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteMonitoringSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(MONITORING_STORE, 'readwrite');
+  tx.objectStore(MONITORING_STORE).delete(id);
+  await transactionDone(tx);
+};
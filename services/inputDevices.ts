@@ -0,0 +1,66 @@
+import { CaptureSettings, InputDevice } from '../types';
+import { INPUT_DEVICE_STORAGE_KEY } from '../constants';
+
+// Browser voice processing; each one alters level or spectrum
+export const PROCESSING_FEATURES = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' }
+] as const;
+
+// Raw capture: every processing stage off, on the chosen device when there is one
+export const measurementConstraints = (deviceId?: string): MediaTrackConstraints => ({
+  deviceId: deviceId ? { exact: deviceId } : undefined,
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false
+});
+
+export const readCaptureSettings = (track: MediaStreamTrack): CaptureSettings => {
+  const settings = track.getSettings();
+  return {
+    deviceId: settings.deviceId ?? '',
+    label: track.label,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    sampleRate: settings.sampleRate,
+    channelCount: settings.channelCount
+  };
+};
+
+// Processing the browser reports as still on, which makes the input unusable for measurement
+export const activeProcessing = (settings: CaptureSettings): string[] =>
+  PROCESSING_FEATURES.filter(f => settings[f.key] === true).map(f => f.label);
+
+// Processing the browser doesn't report at all, so it can't be confirmed off
+export const unverifiedProcessing = (settings: CaptureSettings): string[] =>
+  PROCESSING_FEATURES.filter(f => settings[f.key] === undefined).map(f => f.label);
+
+/**
+ * Audio inputs, minus the browser's "default"/"communications" aliases. Labels
+ * are empty until microphone permission has been granted once.
+ */
+export const listInputDevices = async (): Promise<InputDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` }));
+};
+
+export const loadSelectedInputDevice = (): string => localStorage.getItem(INPUT_DEVICE_STORAGE_KEY) ?? '';
+
+export const storeSelectedInputDevice = (deviceId: string): void => {
+  if (deviceId) localStorage.setItem(INPUT_DEVICE_STORAGE_KEY, deviceId);
+  else localStorage.removeItem(INPUT_DEVICE_STORAGE_KEY);
+};
+
+// User-facing reason a capture could not start
+export const describeCaptureError = (err: unknown): string => {
+  const name = (err as { name?: string } | null)?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'Microphone access is required for acoustic diagnostics.';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'The selected microphone is not available. Reconnect it or pick another input in settings.';
+  }
+  return err instanceof Error ? err.message : 'The microphone could not be opened.';
+};
@@ -0,0 +1,42 @@
+import { LevelStatistics } from '../types';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Level exceeded `percent`% of the time, e.g. 10 -> L10
+const exceedanceLevel = (sortedAscending: number[], percent: number): number => {
+  const rank = (1 - percent / 100) * (sortedAscending.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const fraction = rank - lower;
+  return sortedAscending[lower] + (sortedAscending[upper] - sortedAscending[lower]) * fraction;
+};
+
+// Energy average of a series of dB levels, optionally weighted (e.g. by duration)
+export const energyAverage = (levels: number[], weights?: number[]): number => {
+  if (levels.length === 0) return 0;
+  let energy = 0;
+  let total = 0;
+  levels.forEach((level, i) => {
+    const weight = weights?.[i] ?? 1;
+    energy += weight * Math.pow(10, level / 10);
+    total += weight;
+  });
+  return total > 0 ? 10 * Math.log10(energy / total) : 0;
+};
+
+export const computeLevelStatistics = (levels: number[]): LevelStatistics => {
+  if (levels.length === 0) {
+    return { leq: 0, lmax: 0, lmin: 0, l10: 0, l50: 0, l90: 0 };
+  }
+
+  const sorted = [...levels].sort((a, b) => a - b);
+
+  return {
+    leq: round1(energyAverage(levels)),
+    lmax: round1(sorted[sorted.length - 1]),
+    lmin: round1(sorted[0]),
+    l10: round1(exceedanceLevel(sorted, 10)),
+    l50: round1(exceedanceLevel(sorted, 50)),
+    l90: round1(exceedanceLevel(sorted, 90))
+  };
+};
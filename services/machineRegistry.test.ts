@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { MachineStandard } from '../types';
+import { MACHINE_STANDARDS } from '../constants';
+import { assetTagFromCode, duplicateMachine, exportCatalogue, findMachineByAssetTag, mergeCatalogue, parseCatalogue, validateMachine } from './machineRegistry';
+
+const pump = (id: string, assetTag?: string): MachineStandard => ({ ...MACHINE_STANDARDS[0], id, name: `Pump ${id}`, assetTag });
+
+describe('asset tags', () => {
+  const catalogue = [pump('a', 'P-101'), pump('b', 'P-102'), pump('c')];
+
+  it('finds the machine regardless of case and spacing', () => {
+    expect(findMachineByAssetTag(catalogue, ' p-102 ')?.id).toBe('b');
+    expect(findMachineByAssetTag(catalogue, 'P-999')).toBeUndefined();
+    expect(findMachineByAssetTag(catalogue, '')).toBeUndefined();
+  });
+
+  it('reads the tag from a bare code or an app link', () => {
+    expect(assetTagFromCode(' P-101\n')).toBe('P-101');
+    expect(assetTagFromCode('https://diag.example/?asset=P-102')).toBe('P-102');
+    expect(assetTagFromCode('https://vendor.example/parts/123')).toBe('https://vendor.example/parts/123');
+  });
+
+  it('refuses a tag another machine already carries', () => {
+    expect(validateMachine(pump('c', 'p-101'), catalogue)).toEqual(['Asset tag p-101 is already used by Pump a.']);
+    expect(validateMachine(pump('a', 'P-101'), catalogue)).toEqual([]);
+  });
+
+  it('refuses imports that would give a tag to two machines', () => {
+    expect(() => parseCatalogue(exportCatalogue([pump('x', 'P-201'), pump('y', 'p-201')]))).toThrow('Pump x: Asset tag P-201 is already used by Pump y.');
+    expect(() => mergeCatalogue(catalogue, [pump('x', 'P-101')])).toThrow('Pump x: Asset tag P-101 is already used by Pump a.');
+    // Re-importing a machine under its own id keeps its tag
+    expect(mergeCatalogue(catalogue, [pump('a', 'P-101')])).toHaveLength(3);
+  });
+
+  it('leaves the tag and location off a duplicate', () => {
+    const copy = duplicateMachine({ ...pump('a', 'P-101'), location: 'Bay 3' });
+    expect(copy).toMatchObject({ assetTag: undefined, location: undefined });
+    expect(validateMachine(copy, catalogue)).toEqual([]);
+  });
+});
+
+describe('parseCatalogue', () => {
+  const file = (entry: object) => JSON.stringify([{ ...MACHINE_STANDARDS[0], ...entry }]);
+
+  it('accepts every built-in standard', () => {
+    // Built-ins are validated like any entry, then left out since the app already has them
+    expect(parseCatalogue(JSON.stringify(MACHINE_STANDARDS))).toEqual([]);
+  });
+
+  it('refuses thresholds that are not numbers', () => {
+    expect(() => parseCatalogue(file({ bandLimits: { resolution: 'OCTAVE', maxLevels: { 1000: 'loud' } } })))
+      .toThrow('Band envelope levels must be between 0 and 160 dB.');
+    expect(() => parseCatalogue(file({ expectedFundamental: { frequency: '50 Hz', tolerance: 0.03, source: 'mains' } })))
+      .toThrow('Expected fundamental must be a positive frequency.');
+    expect(() => parseCatalogue(file({ expectedFundamental: { frequency: 50, tolerance: 'wide', source: 'mains' } })))
+      .toThrow('Fundamental tolerance must be a fraction between 0 and 1.');
+    expect(() => parseCatalogue('[42]')).toThrow('Entry 1 is not an object.');
+  });
+});
@@ -0,0 +1,231 @@
+import { BandResolution, FrequencyWeighting, MachineStandard } from '../types';
+import { bandsFor } from './octaveBands';
+import { ASSET_LINK_PARAM, CATALOGUE_FORMAT, MACHINE_STANDARDS, MACHINE_STORAGE_KEY, MAX_PROTOCOL_REPEATS, MAX_PROTOCOL_SECONDS } from '../constants';
+
+const CATALOGUE_VERSION = 1;
+
+interface CatalogueFile {
+  format: string;
+  version: number;
+  exportedAt: number;
+  machines: MachineStandard[];
+}
+
+// Built-in standards ship with the app and are read-only templates
+export const isBuiltIn = (id: string): boolean => MACHINE_STANDARDS.some(m => m.id === id);
+
+export const loadCustomMachines = (): MachineStandard[] => {
+  const saved = localStorage.getItem(MACHINE_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const storeCustomMachines = (machines: MachineStandard[]): void => {
+  localStorage.setItem(MACHINE_STORAGE_KEY, JSON.stringify(machines));
+};
+
+export const createBlankMachine = (): MachineStandard => ({
+  id: crypto.randomUUID(),
+  name: '',
+  category: '',
+  maxDb: 80,
+  weighting: FrequencyWeighting.A,
+  peakFreqRange: [50, 1000]
+});
+
+// The copy is another physical unit, so it doesn't inherit the tag or where the original stands
+export const duplicateMachine = (machine: MachineStandard): MachineStandard => ({
+  ...structuredClone(machine),
+  id: crypto.randomUUID(),
+  name: `${machine.name} (Copy)`,
+  assetTag: undefined,
+  location: undefined
+});
+
+// Tags are matched the way a technician reads them off a label: case and surrounding space don't count
+const sameTag = (a: string, b: string) => a.trim().toUpperCase() === b.trim().toUpperCase();
+
+export const findMachineByAssetTag = (machines: MachineStandard[], tag: string): MachineStandard | undefined =>
+  tag.trim() ? machines.find(m => m.assetTag && sameTag(m.assetTag, tag)) : undefined;
+
+/**
+ * Asset tag held by a scanned code: either the bare tag, as on most barcode
+ * labels, or a link to this app carrying it in ?asset=.
+ */
+export const assetTagFromCode = (code: string): string => {
+  const text = code.trim();
+  if (/^https?:\/\//i.test(text)) {
+    try {
+      const tag = new URL(text).searchParams.get(ASSET_LINK_PARAM);
+      if (tag) return tag.trim();
+    } catch {
+      // Not a parseable URL after all; use it as printed
+    }
+  }
+  return text;
+};
+
+// Why the machine's tag can't be used: another machine in `catalogue` already carries it
+const assetTagConflict = (machine: MachineStandard, catalogue: MachineStandard[]): string | null => {
+  const owner = machine.assetTag ? findMachineByAssetTag(catalogue.filter(m => m.id !== machine.id), machine.assetTag) : undefined;
+  return owner ? `Asset tag ${machine.assetTag} is already used by ${owner.name}.` : null;
+};
+
+// Returns a list of problems; empty when the machine can be saved. `catalogue` is checked for reused asset tags.
+export const validateMachine = (machine: MachineStandard, catalogue: MachineStandard[] = []): string[] => {
+  const errors: string[] = [];
+  if (!machine.name.trim()) errors.push('Name is required.');
+  if (!machine.category.trim()) errors.push('Category is required.');
+  if (!Number.isFinite(machine.maxDb) || machine.maxDb <= 0 || machine.maxDb > 160) {
+    errors.push('Max level must be between 0 and 160 dB.');
+  }
+  const [low, high] = machine.peakFreqRange;
+  if (!Number.isFinite(low) || !Number.isFinite(high) || low < 0 || high <= low) {
+    errors.push('Frequency range must have a lower bound below its upper bound.');
+  }
+  if (!Object.values(FrequencyWeighting).includes(machine.weighting)) {
+    errors.push('Unknown frequency weighting.');
+  }
+  if (machine.bandLimits) {
+    const nominals = bandsFor(machine.bandLimits.resolution).map(b => b.nominal);
+    const limits = Object.entries(machine.bandLimits.maxLevels);
+    if (limits.some(([nominal]) => !nominals.includes(Number(nominal)))) {
+      errors.push('Band envelope names a band outside the standard series.');
+    }
+    if (limits.some(([, level]) => !Number.isFinite(level) || level <= 0 || level > 160)) {
+      errors.push('Band envelope levels must be between 0 and 160 dB.');
+    }
+  }
+  if (machine.expectedFundamental) {
+    const { frequency, tolerance } = machine.expectedFundamental;
+    if (!Number.isFinite(frequency) || frequency <= 0) errors.push('Expected fundamental must be a positive frequency.');
+    if (!Number.isFinite(tolerance) || tolerance <= 0 || tolerance >= 1) {
+      errors.push('Fundamental tolerance must be a fraction between 0 and 1.');
+    }
+  }
+  const tagConflict = assetTagConflict(machine, catalogue);
+  if (tagConflict) errors.push(tagConflict);
+  if (machine.protocol) {
+    const { settleSeconds, durationSeconds, repeats, positions } = machine.protocol;
+    if (!Number.isInteger(settleSeconds) || settleSeconds < 0 || settleSeconds > MAX_PROTOCOL_SECONDS) {
+      errors.push(`Settle time must be whole seconds from 0 to ${MAX_PROTOCOL_SECONDS}.`);
+    }
+    if (!Number.isInteger(durationSeconds) || durationSeconds < 1 || durationSeconds > MAX_PROTOCOL_SECONDS) {
+      errors.push(`Run duration must be whole seconds from 1 to ${MAX_PROTOCOL_SECONDS}.`);
+    }
+    if (!Number.isInteger(repeats) || repeats < 1 || repeats > MAX_PROTOCOL_REPEATS) {
+      errors.push(`Repeats must be a whole number from 1 to ${MAX_PROTOCOL_REPEATS}.`);
+    }
+    if (new Set(positions).size !== positions.length || positions.some(p => !p.trim())) {
+      errors.push('Measurement positions must be named and distinct.');
+    }
+  }
+  return errors;
+};
+
+export const exportCatalogue = (machines: MachineStandard[]): string => {
+  const file: CatalogueFile = {
+    format: CATALOGUE_FORMAT,
+    version: CATALOGUE_VERSION,
+    exportedAt: Date.now(),
+    machines
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+type Fields = Record<string, unknown>;
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const asObject = (value: unknown): Fields | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Fields) : undefined;
+
+// Hand-edited files may quote numbers; anything else becomes NaN and fails validation
+const asNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+// Normalises one imported entry, keeping only the fields this version understands
+const parseMachine = (raw: unknown, index: number): MachineStandard => {
+  const fields = asObject(raw);
+  if (!fields) throw new Error(`Entry ${index + 1} is not an object.`);
+
+  const range = Array.isArray(fields.peakFreqRange) ? fields.peakFreqRange : [];
+  const machine: MachineStandard = {
+    id: asString(fields.id) || crypto.randomUUID(),
+    name: asString(fields.name) ?? '',
+    category: asString(fields.category) ?? '',
+    maxDb: asNumber(fields.maxDb),
+    // Checked against the known weightings by validateMachine
+    weighting: (fields.weighting ?? FrequencyWeighting.A) as FrequencyWeighting,
+    peakFreqRange: [asNumber(range[0]), asNumber(range[1])],
+    assetTag: asString(fields.assetTag),
+    location: asString(fields.location)
+  };
+
+  const bandLimits = asObject(fields.bandLimits);
+  const maxLevels = asObject(bandLimits?.maxLevels);
+  if (bandLimits && maxLevels && Object.values(BandResolution).includes(bandLimits.resolution as BandResolution)) {
+    machine.bandLimits = {
+      resolution: bandLimits.resolution as BandResolution,
+      maxLevels: Object.fromEntries(Object.entries(maxLevels).map(([nominal, level]) => [Number(nominal), asNumber(level)]))
+    };
+  }
+  const fundamental = asObject(fields.expectedFundamental);
+  if (fundamental) {
+    machine.expectedFundamental = {
+      frequency: asNumber(fundamental.frequency),
+      tolerance: asNumber(fundamental.tolerance ?? 0.03),
+      source: asString(fundamental.source) ?? ''
+    };
+  }
+
+  const protocol = asObject(fields.protocol);
+  if (protocol) {
+    machine.protocol = {
+      settleSeconds: asNumber(protocol.settleSeconds ?? 0),
+      durationSeconds: asNumber(protocol.durationSeconds),
+      repeats: asNumber(protocol.repeats ?? 1),
+      positions: Array.isArray(protocol.positions) ? protocol.positions.map(String) : []
+    };
+  }
+
+  const errors = validateMachine(machine);
+  if (errors.length > 0) throw new Error(`Entry ${index + 1} (${machine.name || 'unnamed'}): ${errors[0]}`);
+  return machine;
+};
+
+// Accepts an exported catalogue file or a bare array of machines
+export const parseCatalogue = (json: string): MachineStandard[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  const file = asObject(data);
+  const entries = Array.isArray(data) ? data : file?.machines;
+  if (!Array.isArray(entries)) throw new Error('No machine list found in file.');
+  if (file && file.format !== CATALOGUE_FORMAT) {
+    throw new Error('File is not a machine catalogue export.');
+  }
+
+  const machines = entries.map(parseMachine).filter(m => !isBuiltIn(m.id));
+  rejectTagConflicts(machines, machines);
+  return machines;
+};
+
+// A scanned tag has to lead to exactly one machine, so imports can't bring duplicates in
+const rejectTagConflicts = (machines: MachineStandard[], catalogue: MachineStandard[]) => {
+  for (const machine of machines) {
+    const conflict = assetTagConflict(machine, catalogue);
+    if (conflict) throw new Error(`${machine.name}: ${conflict}`);
+  }
+};
+
+// Imported machines replace custom ones with the same id and are appended otherwise
+export const mergeCatalogue = (existing: MachineStandard[], imported: MachineStandard[]): MachineStandard[] => {
+  const importedIds = new Set(imported.map(m => m.id));
+  const merged = [...existing.filter(m => !importedIds.has(m.id)), ...imported];
+  rejectTagConflicts(imported, merged);
+  return merged;
+};
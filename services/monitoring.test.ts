@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosticStatus, MonitoringSession } from '../types';
+import { MACHINE_STANDARDS } from '../constants';
+import { activeAlarm, createAlarmTracker, createMonitoringSession, recordInterval, sessionLeq } from './monitoring';
+
+const MAX_DB = 85;
+const MINUTE = 60_000;
+
+// Feeds one-minute intervals at the given levels, graded against MAX_DB alone
+const run = (levels: number[], raiseIntervals = 3) => {
+  let session: MonitoringSession = { ...createMonitoringSession(MACHINE_STANDARDS[0], 60, raiseIntervals), startedAt: 0 };
+  let tracker = createAlarmTracker();
+  const events: string[] = [];
+  levels.forEach((leq, i) => {
+    const status = leq > MAX_DB ? DiagnosticStatus.ABNORMAL : DiagnosticStatus.NORMAL;
+    const step = recordInterval(session, tracker, { startedAt: i * MINUTE, endedAt: (i + 1) * MINUTE, leq, lmax: leq + 3, status }, MAX_DB);
+    ({ session, tracker } = step);
+    if (step.raised) events.push(`raised ${i}`);
+    if (step.cleared) events.push(`cleared ${i}`);
+  });
+  return { session, events };
+};
+
+describe('recordInterval', () => {
+  it('raises only once ABNORMAL has lasted the minimum duration', () => {
+    expect(run([90, 90, 80, 90, 90]).events).toEqual([]);
+    const { session, events } = run([80, 90, 92, 91]);
+    expect(events).toEqual(['raised 3']);
+    expect(activeAlarm(session)).toEqual({ raisedAt: MINUTE, clearedAt: null, maxLeq: 92 });
+  });
+
+  it('clears with hysteresis below the limit', () => {
+    // 84 dB is under the limit but inside the clear margin, so the alarm holds
+    expect(run([90, 90, 84, 84, 84, 84], 2).events).toEqual(['raised 1']);
+    const { session, events } = run([90, 90, 82, 90, 82, 82, 82], 2);
+    expect(events).toEqual(['raised 1', 'cleared 6']);
+    expect(session.alarms).toEqual([{ raisedAt: 0, clearedAt: 7 * MINUTE, maxLeq: 90 }]);
+  });
+
+  it('keeps every interval for the session level', () => {
+    const { session } = run([80, 80]);
+    expect(session.intervals).toHaveLength(2);
+    expect(sessionLeq(session)).toBe(80);
+  });
+});
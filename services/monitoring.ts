@@ -0,0 +1,94 @@
+import { AlarmEvent, AlarmTracker, CalibrationSnapshot, DiagnosticStatus, MachineStandard, MeasurementSummary, MonitorInterval, MonitoringSession } from '../types';
+import { ALARM_CLEAR_INTERVALS, ALARM_CLEAR_MARGIN_DB } from '../constants';
+import { energyAverage } from './levelStatistics';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const createMonitoringSession = (
+  machine: MachineStandard,
+  intervalSeconds: number,
+  raiseIntervals: number,
+  calibration?: CalibrationSnapshot
+): MonitoringSession => ({
+  id: crypto.randomUUID(),
+  machineId: machine.id,
+  machineName: machine.name,
+  startedAt: Date.now(),
+  endedAt: null,
+  intervalSeconds,
+  raiseIntervals,
+  intervals: [],
+  alarms: [],
+  calibration
+});
+
+export const createAlarmTracker = (): AlarmTracker => ({ abnormalCount: 0, clearCount: 0 });
+
+// Only the level, its maximum and the verdict are kept, so a night of intervals stays small
+export const toInterval = (summary: MeasurementSummary, startedAt: number, endedAt: number): MonitorInterval => ({
+  startedAt,
+  endedAt,
+  leq: summary.leq,
+  lmax: summary.lmax,
+  status: summary.status
+});
+
+export const activeAlarm = (session: MonitoringSession): AlarmEvent | null => {
+  const last = session.alarms[session.alarms.length - 1];
+  return last && last.clearedAt === null ? last : null;
+};
+
+/**
+ * Appends an interval and raises or clears the alarm. Raising takes
+ * `session.raiseIntervals` consecutive ABNORMAL intervals; clearing takes
+ * ALARM_CLEAR_INTERVALS that are not ABNORMAL and sit ALARM_CLEAR_MARGIN_DB
+ * under the limit, so a level hovering at the limit doesn't toggle the alarm.
+ */
+export const recordInterval = (
+  session: MonitoringSession,
+  tracker: AlarmTracker,
+  interval: MonitorInterval,
+  maxDb: number
+): { session: MonitoringSession; tracker: AlarmTracker; raised: boolean; cleared: boolean } => {
+  const intervals = [...session.intervals, interval];
+  const abnormal = interval.status === DiagnosticStatus.ABNORMAL;
+  const alarm = activeAlarm(session);
+
+  if (alarm) {
+    const quiet = !abnormal && interval.leq <= maxDb - ALARM_CLEAR_MARGIN_DB;
+    const clearCount = quiet ? tracker.clearCount + 1 : 0;
+    const cleared = clearCount >= ALARM_CLEAR_INTERVALS;
+    const updated = { ...alarm, maxLeq: Math.max(alarm.maxLeq, interval.leq), clearedAt: cleared ? interval.endedAt : null };
+    return {
+      session: { ...session, intervals, alarms: [...session.alarms.slice(0, -1), updated] },
+      tracker: cleared ? createAlarmTracker() : { abnormalCount: 0, clearCount },
+      raised: false,
+      cleared
+    };
+  }
+
+  const abnormalCount = abnormal ? tracker.abnormalCount + 1 : 0;
+  if (abnormalCount < session.raiseIntervals) {
+    return { session: { ...session, intervals }, tracker: { abnormalCount, clearCount: 0 }, raised: false, cleared: false };
+  }
+  const stretch = intervals.slice(-abnormalCount);
+  const raisedAlarm: AlarmEvent = {
+    raisedAt: stretch[0].startedAt,
+    clearedAt: null,
+    maxLeq: Math.max(...stretch.map(i => i.leq))
+  };
+  return {
+    session: { ...session, intervals, alarms: [...session.alarms, raisedAlarm] },
+    tracker: createAlarmTracker(),
+    raised: true,
+    cleared: false
+  };
+};
+
+// Leq over the whole session; intervals are the same length, so their energies average directly
+export const sessionLeq = (session: MonitoringSession): number | null =>
+  session.intervals.length > 0 ? round1(energyAverage(session.intervals.map(i => i.leq))) : null;
+
+// When the session ended; one the app never closed ends with its last interval
+export const sessionEnd = (session: MonitoringSession): number =>
+  session.endedAt ?? session.intervals[session.intervals.length - 1]?.endedAt ?? session.startedAt;
@@ -0,0 +1,86 @@
+import { BandResolution, BandSpectrum, MachineStandard } from '../types';
+import { dbToPower, powerToDb } from './spectrum';
+
+export interface FrequencyBand {
+  nominal: number; // Label frequency, e.g. 31.5
+  center: number;  // Exact base-10 mid-band frequency
+  lower: number;
+  upper: number;
+}
+
+const THIRD_OCTAVE_NOMINALS = [
+  25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+  1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000, 20000
+];
+
+// IEC 61260-1 base-10 bands: fm = 1000 * 10^(x/10), edges at fm * 10^(±1/20)
+export const THIRD_OCTAVE_BANDS: FrequencyBand[] = THIRD_OCTAVE_NOMINALS.map((nominal, i) => {
+  const center = 1000 * Math.pow(10, (i - 16) / 10);
+  return { nominal, center, lower: center * Math.pow(10, -1 / 20), upper: center * Math.pow(10, 1 / 20) };
+});
+
+// Each octave spans exactly three one-third-octave bands: 31.5 Hz .. 16 kHz
+export const OCTAVE_BANDS: FrequencyBand[] = [];
+for (let i = 1; i < THIRD_OCTAVE_BANDS.length - 1; i += 3) {
+  const { nominal, center } = THIRD_OCTAVE_BANDS[i];
+  OCTAVE_BANDS.push({ nominal, center, lower: THIRD_OCTAVE_BANDS[i - 1].lower, upper: THIRD_OCTAVE_BANDS[i + 1].upper });
+}
+
+export const bandsFor = (resolution: BandResolution): FrequencyBand[] =>
+  resolution === BandResolution.OCTAVE ? OCTAVE_BANDS : THIRD_OCTAVE_BANDS;
+
+export const formatBandFrequency = (nominal: number): string =>
+  nominal >= 1000 ? `${nominal / 1000}k` : `${nominal}`;
+
+// Share of each FFT bin that falls inside each band
+export type BandWeights = { bin: number; weight: number }[][];
+
+export const buildBandWeights = (bands: FrequencyBand[], sampleRate: number, fftSize: number): BandWeights => {
+  const binWidth = sampleRate / fftSize;
+  const binCount = fftSize / 2;
+  return bands.map(({ lower, upper }) => {
+    const weights: { bin: number; weight: number }[] = [];
+    const first = Math.max(1, Math.floor(lower / binWidth + 0.5));
+    const last = Math.min(binCount - 1, Math.ceil(upper / binWidth - 0.5));
+    for (let bin = first; bin <= last; bin++) {
+      const overlap = Math.min(upper, (bin + 0.5) * binWidth) - Math.max(lower, (bin - 0.5) * binWidth);
+      if (overlap > 0) weights.push({ bin, weight: overlap / binWidth });
+    }
+    return weights;
+  });
+};
+
+// Mean square of a full-scale-referenced signal from a Blackman-windowed single-sided
+// spectrum (the AnalyserNode window): 2 / mean(w^2)
+const BLACKMAN_POWER_CORRECTION = 2 / (0.42 * 0.42 + 0.5 * 0.5 / 2 + 0.08 * 0.08 / 2);
+
+// Mean square per band from a dBFS analyser spectrum
+export const computeBandPowers = (spectrumDb: ArrayLike<number>, weights: BandWeights): number[] =>
+  weights.map(band => {
+    let power = 0;
+    for (const { bin, weight } of band) power += dbToPower(spectrumDb[bin]) * weight;
+    return power * BLACKMAN_POWER_CORRECTION;
+  });
+
+// Octave levels are the energy sum of their three one-third-octave bands
+export const toBandSpectrum = (thirdOctavePowers: number[], offset: number): BandSpectrum => {
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+  const octave: number[] = [];
+  for (let i = 1; i < thirdOctavePowers.length - 1; i += 3) {
+    octave.push(round1(powerToDb(thirdOctavePowers[i - 1] + thirdOctavePowers[i] + thirdOctavePowers[i + 1]) + offset));
+  }
+  return {
+    octave,
+    thirdOctave: thirdOctavePowers.map(p => round1(powerToDb(p) + offset))
+  };
+};
+
+// Nominal frequencies of the bands above the standard's envelope
+export const findBandExceedances = (standard: MachineStandard, spectrum: BandSpectrum): number[] => {
+  if (!standard.bandLimits) return [];
+  const { resolution, maxLevels } = standard.bandLimits;
+  const levels = resolution === BandResolution.OCTAVE ? spectrum.octave : spectrum.thirdOctave;
+  return bandsFor(resolution)
+    .filter((band, i) => maxLevels[band.nominal] !== undefined && levels[i] > maxLevels[band.nominal])
+    .map(band => band.nominal);
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosticStatus, MeasurementProtocol, MeasurementSummary, ProtocolPhase } from '../types';
+import { advancePhase, combineSummaries, createProtocolRun, enterStep, protocolSteps, summarizePoints } from './protocol';
+
+const twoPoints: MeasurementProtocol = { settleSeconds: 5, durationSeconds: 10, repeats: 2, positions: ['Drive end', 'Non-drive end'] };
+
+const summary = (overrides: Partial<MeasurementSummary> = {}): MeasurementSummary => ({
+  leq: 70,
+  lmax: 75,
+  lmin: 65,
+  l10: 73,
+  l50: 70,
+  l90: 67,
+  peakFrequency: 100,
+  peakProminence: 20,
+  bands: { octave: [60, 60], thirdOctave: [55, 55, 55] },
+  spectrum: { minFrequency: 20, pointsPerOctave: 12, levels: [50, 50] },
+  exceededBands: [],
+  tonal: { fundamental: null, fundamentalConfirmed: false, components: [] },
+  status: DiagnosticStatus.NORMAL,
+  frameCount: 100,
+  durationMs: 10000,
+  levels: [67, 70, 73],
+  ...overrides
+});
+
+describe('protocolSteps', () => {
+  it('runs every repeat at a position before moving on', () => {
+    expect(protocolSteps(twoPoints)).toEqual([
+      { position: 'Drive end', repeat: 1 },
+      { position: 'Drive end', repeat: 2 },
+      { position: 'Non-drive end', repeat: 1 },
+      { position: 'Non-drive end', repeat: 2 }
+    ]);
+  });
+
+  it('uses one unnamed position when none are defined', () => {
+    expect(protocolSteps({ ...twoPoints, positions: [] })).toEqual([
+      { position: null, repeat: 1 },
+      { position: null, repeat: 2 }
+    ]);
+  });
+});
+
+describe('protocol run', () => {
+  it('waits for positioning only when the position changes', () => {
+    const run = createProtocolRun(twoPoints, false);
+    expect(run.phase).toBe(ProtocolPhase.POSITION);
+    expect(enterStep(run, 1).phase).toBe(ProtocolPhase.SETTLE);
+    expect(enterStep(run, 2).phase).toBe(ProtocolPhase.POSITION);
+  });
+
+  it('settles after positioning, then measures for the run duration', () => {
+    const settling = advancePhase(createProtocolRun(twoPoints, false));
+    expect(settling).toMatchObject({ phase: ProtocolPhase.SETTLE, remaining: 5 });
+    expect(advancePhase(settling)).toMatchObject({ phase: ProtocolPhase.MEASURE, remaining: 10 });
+  });
+
+  it('measures straight away without positions or settle time', () => {
+    const run = createProtocolRun({ settleSeconds: 0, durationSeconds: 10, repeats: 1, positions: [] }, true);
+    expect(run).toMatchObject({ phase: ProtocolPhase.MEASURE, remaining: 10, keepClip: true });
+  });
+});
+
+describe('combineSummaries', () => {
+  it('energy-averages levels and bands across runs', () => {
+    const combined = combineSummaries([summary({ leq: 70 }), summary({ leq: 80, bands: { octave: [70, 60], thirdOctave: [55, 55, 55] } })]);
+    expect(combined.leq).toBeCloseTo(77.4, 1);
+    expect(combined.bands.octave).toEqual([67.4, 60]);
+    expect(combined.spectrum.levels).toEqual([50, 50]);
+    expect(combined.durationMs).toBe(20000);
+  });
+
+  it('weights runs by duration and pools their readings for percentiles', () => {
+    const combined = combineSummaries([
+      summary({ leq: 70, durationMs: 30000, levels: [70, 70, 70] }),
+      summary({ leq: 80, durationMs: 10000, levels: [80] })
+    ]);
+    expect(combined.leq).toBeCloseTo(75.1, 1);
+    expect(combined).toMatchObject({ l10: 77, l50: 70, l90: 70, levels: [70, 70, 70, 80] });
+  });
+
+  it('keeps the extremes and the loudest run\'s peak', () => {
+    const combined = combineSummaries([
+      summary({ leq: 70, lmax: 78, lmin: 60, peakFrequency: 100 }),
+      summary({ leq: 72, lmax: 76, lmin: 64, peakFrequency: 120 })
+    ]);
+    expect(combined).toMatchObject({ lmax: 78, lmin: 60, peakFrequency: 120 });
+  });
+
+  it('fails the combination when any run failed', () => {
+    const combined = combineSummaries([summary(), summary({ status: DiagnosticStatus.ABNORMAL, exceededBands: [250] })]);
+    expect(combined.status).toBe(DiagnosticStatus.ABNORMAL);
+    expect(combined.exceededBands).toEqual([250]);
+  });
+});
+
+describe('summarizePoints', () => {
+  it('reports each named position from its own runs', () => {
+    const points = summarizePoints([
+      { position: 'Drive end', summary: summary({ leq: 80 }) },
+      { position: 'Drive end', summary: summary({ leq: 80 }) },
+      { position: 'Non-drive end', summary: summary({ leq: 70, status: DiagnosticStatus.ABNORMAL }) }
+    ]);
+    expect(points).toEqual([
+      { position: 'Drive end', runs: 2, leq: 80, lmax: 75, peakFrequency: 100, status: DiagnosticStatus.NORMAL },
+      { position: 'Non-drive end', runs: 1, leq: 70, lmax: 75, peakFrequency: 100, status: DiagnosticStatus.ABNORMAL }
+    ]);
+  });
+
+  it('has nothing to report for an unnamed position', () => {
+    expect(summarizePoints([{ position: null, summary: summary() }])).toEqual([]);
+  });
+});
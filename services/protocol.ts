@@ -0,0 +1,120 @@
+import { CompletedRun, MachineStandard, MeasurementProtocol, MeasurementSummary, PointResult, ProtocolPhase, ProtocolRun, ProtocolStep } from '../types';
+import { DEFAULT_PROTOCOL } from '../constants';
+import { worstStatus } from './baseline';
+import { computeLevelStatistics, energyAverage } from './levelStatistics';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const protocolFor = (machine: MachineStandard): MeasurementProtocol => machine.protocol ?? DEFAULT_PROTOCOL;
+
+// Every run in order: all repeats at one position before moving to the next
+export const protocolSteps = (protocol: MeasurementProtocol): ProtocolStep[] => {
+  const positions: (string | null)[] = protocol.positions.length > 0 ? protocol.positions : [null];
+  return positions.flatMap(position =>
+    Array.from({ length: protocol.repeats }, (_, i) => ({ position, repeat: i + 1 }))
+  );
+};
+
+// Whether the technician has to move the microphone before this step
+export const needsRepositioning = (steps: ProtocolStep[], index: number): boolean =>
+  steps[index].position !== null && (index === 0 || steps[index - 1].position !== steps[index].position);
+
+const phaseState = (protocol: MeasurementProtocol, phase: ProtocolPhase) => ({
+  phase,
+  remaining: phase === ProtocolPhase.SETTLE ? protocol.settleSeconds
+    : phase === ProtocolPhase.MEASURE ? protocol.durationSeconds
+    : 0
+});
+
+// Start of step `index`. The caller opens the diagnostic window whenever a state comes back as MEASURE.
+export const enterStep = (run: ProtocolRun, index: number): ProtocolRun => {
+  const phase = needsRepositioning(run.steps, index) ? ProtocolPhase.POSITION
+    : run.protocol.settleSeconds > 0 ? ProtocolPhase.SETTLE
+    : ProtocolPhase.MEASURE;
+  return { ...run, index, ...phaseState(run.protocol, phase) };
+};
+
+// Leaves POSITION (technician confirmed) or SETTLE (time is up) within the same step
+export const advancePhase = (run: ProtocolRun): ProtocolRun => {
+  const phase = run.phase === ProtocolPhase.POSITION && run.protocol.settleSeconds > 0
+    ? ProtocolPhase.SETTLE
+    : ProtocolPhase.MEASURE;
+  return { ...run, ...phaseState(run.protocol, phase) };
+};
+
+export const createProtocolRun = (protocol: MeasurementProtocol, keepClip: boolean): ProtocolRun =>
+  enterStep({
+    protocol,
+    steps: protocolSteps(protocol),
+    index: 0,
+    phase: ProtocolPhase.MEASURE,
+    remaining: 0,
+    results: [],
+    keepClip
+  }, 0);
+
+export const describeProtocol = (protocol: MeasurementProtocol): string => {
+  const parts = [`${protocol.durationSeconds}s${protocol.repeats > 1 ? ` × ${protocol.repeats}` : ''}`];
+  if (protocol.settleSeconds > 0) parts.unshift(`${protocol.settleSeconds}s settle`);
+  if (protocol.positions.length > 0) parts.push(`${protocol.positions.length} points`);
+  return parts.join(' · ');
+};
+
+const energyAverageBands = (spectra: number[][], weights: number[]): number[] =>
+  spectra[0].map((_, i) => round1(energyAverage(spectra.map(s => s[i]), weights)));
+
+/**
+ * Folds several runs into one result. Levels, bands and the spectrum are energy averages
+ * weighted by each run's duration, extremes span all runs, and percentiles come from
+ * the runs' readings pooled together. Peak and tones come from the loudest run.
+ * Any run that failed fails the combination.
+ */
+export const combineSummaries = (runs: MeasurementSummary[]): MeasurementSummary => {
+  if (runs.length === 1) return runs[0];
+  const loudest = runs.reduce((a, b) => (b.leq > a.leq ? b : a));
+  const durations = runs.map(r => r.durationMs);
+  const levels = runs.flatMap(r => r.levels);
+  const { l10, l50, l90 } = computeLevelStatistics(levels);
+
+  return {
+    leq: round1(energyAverage(runs.map(r => r.leq), durations)),
+    lmax: Math.max(...runs.map(r => r.lmax)),
+    lmin: Math.min(...runs.map(r => r.lmin)),
+    l10,
+    l50,
+    l90,
+    peakFrequency: loudest.peakFrequency,
+    peakProminence: loudest.peakProminence,
+    bands: {
+      octave: energyAverageBands(runs.map(r => r.bands.octave), durations),
+      thirdOctave: energyAverageBands(runs.map(r => r.bands.thirdOctave), durations)
+    },
+    spectrum: { ...runs[0].spectrum, levels: energyAverageBands(runs.map(r => r.spectrum.levels), durations) },
+    exceededBands: [...new Set(runs.flatMap(r => r.exceededBands))].sort((a, b) => a - b),
+    tonal: loudest.tonal,
+    status: worstStatus(...runs.map(r => r.status)),
+    frameCount: runs.reduce((acc, r) => acc + r.frameCount, 0),
+    durationMs: runs.reduce((acc, r) => acc + r.durationMs, 0),
+    levels
+  };
+};
+
+// Per-position results of the runs taken at named positions, in the order they were measured
+export const summarizePoints = (results: CompletedRun[]): PointResult[] => {
+  const byPosition = new Map<string, MeasurementSummary[]>();
+  for (const { position, summary } of results) {
+    if (position === null) continue;
+    byPosition.set(position, [...(byPosition.get(position) ?? []), summary]);
+  }
+  return [...byPosition].map(([position, positionRuns]) => {
+    const combined = combineSummaries(positionRuns);
+    return {
+      position,
+      runs: positionRuns.length,
+      leq: combined.leq,
+      lmax: combined.lmax,
+      peakFrequency: combined.peakFrequency,
+      status: combined.status
+    };
+  });
+};
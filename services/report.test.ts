@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { BandResolution, DiagnosticStatus, FrequencyWeighting, HistoryEntry, MachineStandard } from '../types';
+import { buildInspectionReport, formatHistoryCsv, formatHistoryJson } from './report';
+
+const MACHINE: MachineStandard = {
+  id: 'pump-1',
+  name: 'Feed Pump',
+  category: 'Pumps',
+  maxDb: 85,
+  weighting: FrequencyWeighting.A,
+  peakFreqRange: [100, 2000],
+  bandLimits: { resolution: BandResolution.OCTAVE, maxLevels: { 1000: 70 } },
+  assetTag: 'P-101'
+};
+
+const ENTRY: HistoryEntry = {
+  id: 'rec-1',
+  machineId: 'pump-1',
+  machineName: 'Feed Pump, "north"',
+  timestamp: Date.UTC(2025, 5, 1, 8, 30),
+  status: DiagnosticStatus.WARNING,
+  db: 82.4,
+  peakFrequency: 120,
+  weighting: FrequencyWeighting.A,
+  bands: { octave: Array(10).fill(60).map((v, i) => (i === 5 ? 75 : v)), thirdOctave: Array(31).fill(55) },
+  exceededBands: [1000],
+  calibration: { offset: 110.5, profileName: 'Shop mic', calibratedAt: Date.UTC(2025, 4, 1), responseCorrected: true },
+  technician: 'A. <Tech>'
+};
+
+describe('formatHistoryCsv', () => {
+  it('writes a header and one quoted-as-needed row per record', () => {
+    const [header, row] = formatHistoryCsv([ENTRY]).split('\r\n');
+    expect(header.split(',')).toContain('leq_db');
+    expect(row).toContain('"Feed Pump, ""north"""');
+    expect(row).toContain('2025-06-01T08:30:00.000Z');
+    expect(row).toContain(',82.4,');
+  });
+
+  it('leaves fields older records lack empty', () => {
+    const [header, row] = formatHistoryCsv([{ ...ENTRY, calibration: undefined, technician: undefined }]).split('\r\n');
+    const columns = header.split(',');
+    const cells = row.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    expect(cells).toHaveLength(columns.length);
+    expect(cells[columns.indexOf('technician')]).toBe('');
+  });
+
+  it('keeps typed-in text from running as a formula', () => {
+    const [header, row] = formatHistoryCsv([{
+      ...ENTRY,
+      machineName: '=HYPERLINK("http://evil.example")',
+      location: '@SUM(A1)',
+      technician: '+1',
+      baseline: { baselineRecordedAt: 0, levelDelta: -2.5, spectralDistance: 1, driftedBands: [], status: DiagnosticStatus.NORMAL }
+    }]).split('\r\n');
+    const columns = header.split(',');
+    const cells = row.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    expect(cells[columns.indexOf('machine_name')]).toBe(`"'=HYPERLINK(""http://evil.example"")"`);
+    expect(cells[columns.indexOf('location')]).toBe("'@SUM(A1)");
+    expect(cells[columns.indexOf('technician')]).toBe("'+1");
+    expect(cells[columns.indexOf('baseline_delta_db')]).toBe('-2.5');
+  });
+});
+
+describe('formatHistoryJson', () => {
+  it('round-trips the records', () => {
+    const parsed = JSON.parse(formatHistoryJson([ENTRY], Date.UTC(2025, 5, 2)));
+    expect(parsed.exportedAt).toBe('2025-06-02T00:00:00.000Z');
+    expect(parsed.records).toEqual([ENTRY]);
+  });
+});
+
+describe('buildInspectionReport', () => {
+  it('includes thresholds, calibration and technician, escaped', () => {
+    const html = buildInspectionReport(ENTRY, MACHINE);
+    expect(html).toContain('85 dB(A)');
+    expect(html).toContain('P-101');
+    expect(html).toContain('Shop mic');
+    expect(html).toContain('A. &lt;Tech&gt;');
+    expect(html).not.toContain('<Tech>');
+    // The 1 kHz octave is over its limit and drawn red
+    expect(html).toContain('fill="#dc2626"');
+  });
+
+  it('still reports a record whose machine was deleted', () => {
+    const html = buildInspectionReport({ ...ENTRY, bands: undefined }, undefined);
+    expect(html).toContain('no longer in the catalogue');
+    expect(html).toContain('No band spectrum');
+  });
+
+  it('traces the record to the unit it was stamped with', () => {
+    const html = buildInspectionReport({ ...ENTRY, assetTag: 'P-205', location: 'Pump house 2' }, MACHINE);
+    expect(html).toContain('P-205');
+    expect(html).not.toContain('P-101');
+    expect(html).toContain('Pump house 2');
+  });
+});
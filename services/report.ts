@@ -0,0 +1,196 @@
+import { BandResolution, BandSpectrum, DiagnosticStatus, HistoryEntry, MachineStandard } from '../types';
+import { BAND_RANGE_DB, TECHNICIAN_STORAGE_KEY, TIME_WEIGHTING_CONSTANTS } from '../constants';
+import { bandsFor, formatBandFrequency } from './octaveBands';
+import { weightingUnit } from './weighting';
+
+export const loadTechnician = (): string => localStorage.getItem(TECHNICIAN_STORAGE_KEY) ?? '';
+
+export const storeTechnician = (name: string): void => {
+  if (name) localStorage.setItem(TECHNICIAN_STORAGE_KEY, name);
+  else localStorage.removeItem(TECHNICIAN_STORAGE_KEY);
+};
+
+const CSV_COLUMNS: [string, (entry: HistoryEntry) => string | number | undefined][] = [
+  ['id', e => e.id],
+  ['timestamp', e => new Date(e.timestamp).toISOString()],
+  ['machine_id', e => e.machineId],
+  ['machine_name', e => e.machineName],
+  ['asset_tag', e => e.assetTag],
+  ['location', e => e.location],
+  ['status', e => e.status],
+  ['leq_db', e => e.db],
+  ['weighting', e => e.weighting],
+  ['time_weighting', e => e.timeWeighting],
+  ['lmax_db', e => e.levels?.lmax],
+  ['lmin_db', e => e.levels?.lmin],
+  ['l10_db', e => e.levels?.l10],
+  ['l50_db', e => e.levels?.l50],
+  ['l90_db', e => e.levels?.l90],
+  ['peak_frequency_hz', e => e.peakFrequency],
+  ['exceeded_bands_hz', e => e.exceededBands?.join(' ')],
+  ['baseline_delta_db', e => e.baseline?.levelDelta],
+  ['background_db', e => e.background?.backgroundDb],
+  ['background_correction_db', e => e.background?.correction],
+  ['background_validity', e => e.background?.validity],
+  ['points', e => e.points?.map(p => `${p.position}=${p.leq}`).join(' ')],
+  ['calibration_offset_db', e => e.calibration?.offset],
+  ['calibration_profile', e => e.calibration?.profileName],
+  ['technician', e => e.technician],
+  ['source_file', e => e.sourceFile]
+];
+
+// RFC 4180: quote fields holding a separator, quote or line break. Typed-in text that a
+// spreadsheet would run as a formula gets a leading apostrophe; numbers are left as they are.
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatHistoryCsv = (entries: HistoryEntry[]): string =>
+  [
+    CSV_COLUMNS.map(([name]) => name).join(','),
+    ...entries.map(entry => CSV_COLUMNS.map(([, value]) => csvField(value(entry))).join(','))
+  ].join('\r\n');
+
+export const formatHistoryJson = (entries: HistoryEntry[], exportedAt = Date.now()): string =>
+  JSON.stringify({ exportedAt: new Date(exportedAt).toISOString(), records: entries }, null, 2);
+
+export const reportFilename = (entry: HistoryEntry, extension: string): string =>
+  `${entry.machineName.replace(/[^\w-]+/g, '_')}_${new Date(entry.timestamp).toISOString().replace(/[:.]/g, '-')}.${extension}`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const STATUS_COLORS: Record<DiagnosticStatus, string> = {
+  [DiagnosticStatus.NORMAL]: '#059669',
+  [DiagnosticStatus.WARNING]: '#d97706',
+  [DiagnosticStatus.ABNORMAL]: '#dc2626',
+  [DiagnosticStatus.INDETERMINATE]: '#7c3aed',
+  [DiagnosticStatus.IDLE]: '#64748b'
+};
+
+const rows = (items: [string, string | number | undefined][]): string =>
+  items
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(String(value))}</td></tr>`)
+    .join('');
+
+// Band bars as inline SVG, so the report prints without scripts or canvas
+const spectrumSvg = (spectrum: BandSpectrum, resolution: BandResolution, limits?: Record<number, number>): string => {
+  const bands = bandsFor(resolution);
+  const levels = resolution === BandResolution.OCTAVE ? spectrum.octave : spectrum.thirdOctave;
+  const [minDb, maxDb] = BAND_RANGE_DB;
+  const width = 640;
+  const plotHeight = 160;
+  const slot = width / bands.length;
+  const toY = (db: number) => plotHeight - Math.min(1, Math.max(0, (db - minDb) / (maxDb - minDb))) * plotHeight;
+
+  const bars = bands.map((band, i) => {
+    const limit = limits?.[band.nominal];
+    const y = toY(levels[i]);
+    const fill = limit !== undefined && levels[i] > limit ? '#dc2626' : '#2563eb';
+    const label = bands.length <= 12 || i % 3 === 1
+      ? `<text x="${(i + 0.5) * slot}" y="${plotHeight + 12}" text-anchor="middle">${formatBandFrequency(band.nominal)}</text>`
+      : '';
+    const envelope = limit !== undefined
+      ? `<line x1="${i * slot}" x2="${(i + 1) * slot}" y1="${toY(limit)}" y2="${toY(limit)}" stroke="#ca8a04" stroke-width="2"/>`
+      : '';
+    return `<rect x="${i * slot + 1}" y="${y}" width="${slot - 2}" height="${plotHeight - y}" fill="${fill}"/>${envelope}${label}`;
+  });
+
+  return `<svg viewBox="0 0 ${width} ${plotHeight + 16}" width="100%" font-family="monospace" font-size="9" fill="#475569">`
+    + `<text x="2" y="10">${maxDb} dB</text><text x="2" y="${plotHeight - 2}">${minDb} dB</text>${bars.join('')}</svg>`;
+};
+
+/**
+ * Self-contained HTML page for one record, laid out for printing or saving as PDF.
+ * Thresholds come from `machine` as it is now; the record itself doesn't copy them.
+ */
+export const buildInspectionReport = (entry: HistoryEntry, machine: MachineStandard | undefined, generatedAt = Date.now()): string => {
+  const unit = weightingUnit(entry.weighting);
+  const resolution = machine?.bandLimits?.resolution ?? BandResolution.OCTAVE;
+  const limits = machine?.bandLimits && machine.weighting === entry.weighting ? machine.bandLimits.maxLevels : undefined;
+
+  const machineRows = rows([
+    ['Machine', entry.machineName],
+    ['Category', machine?.category],
+    // As stamped on the record; older records only have the machine's current values
+    ['Asset tag', entry.assetTag ?? machine?.assetTag],
+    ['Location', entry.location ?? machine?.location],
+    ['Machine ID', entry.machineId]
+  ]);
+  const thresholdRows = machine
+    ? rows([
+      ['Maximum level', `${machine.maxDb} ${weightingUnit(machine.weighting)}`],
+      ['Peak frequency range', `${machine.peakFreqRange[0]} – ${machine.peakFreqRange[1]} Hz`],
+      ['Band limits', machine.bandLimits
+        ? `${Object.keys(machine.bandLimits.maxLevels).length} ${machine.bandLimits.resolution === BandResolution.OCTAVE ? 'octave' : 'one-third octave'} bands`
+        : undefined],
+      ['Expected fundamental', machine.expectedFundamental
+        ? `${machine.expectedFundamental.frequency} Hz ±${machine.expectedFundamental.tolerance * 100}% (${machine.expectedFundamental.source})`
+        : undefined]
+    ])
+    : '<tr><td>This machine is no longer in the catalogue.</td></tr>';
+  const measuredRows = rows([
+    ['Leq', `${entry.db} ${unit}`],
+    ['Lmax / Lmin', entry.levels && `${entry.levels.lmax} / ${entry.levels.lmin} ${unit}`],
+    ['L10 / L50 / L90', entry.levels && `${entry.levels.l10} / ${entry.levels.l50} / ${entry.levels.l90} ${unit}`],
+    ['Time weighting', entry.timeWeighting && TIME_WEIGHTING_CONSTANTS[entry.timeWeighting].label],
+    ['Peak frequency', `${entry.peakFrequency} Hz`],
+    ['Bands over limit', entry.exceededBands?.length ? entry.exceededBands.map(n => `${formatBandFrequency(n)}Hz`).join(', ') : undefined],
+    ['Tones', entry.tonal?.components.length
+      ? entry.tonal.components.map(c => `${Math.round(c.frequency)} Hz (${c.kind.toLowerCase()})`).join(', ')
+      : undefined],
+    ['Baseline deviation', entry.baseline && `${entry.baseline.levelDelta > 0 ? '+' : ''}${entry.baseline.levelDelta} dB (${entry.baseline.status})`],
+    ['Background', entry.background && `${entry.background.backgroundDb} dB, ${entry.background.difference} dB below; -${entry.background.correction} dB applied (${entry.background.validity})`],
+    ...(entry.points ?? []).map(p => [`Position: ${p.position}`, `${p.leq} ${unit}, peak ${p.peakFrequency} Hz, ${p.status}`] as [string, string]),
+    ['Source file', entry.sourceFile]
+  ]);
+  const calibrationRows = entry.calibration
+    ? rows([
+      ['Profile', entry.calibration.profileName ?? 'Manual full-scale level'],
+      ['Offset', `${entry.calibration.offset} dB SPL at 0 dBFS`],
+      ['Calibrated', entry.calibration.calibratedAt !== undefined ? new Date(entry.calibration.calibratedAt).toLocaleDateString() : undefined],
+      ['Response correction', entry.calibration.responseCorrected ? 'Applied' : 'None']
+    ])
+    : '<tr><td>Not recorded for this measurement.</td></tr>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Inspection report – ${escapeHtml(entry.machineName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 720px; margin: 24px auto; padding: 0 16px; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.08em; color: #475569; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 24px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th { text-align: left; font-weight: 500; color: #475569; width: 40%; padding: 3px 0; }
+  td { padding: 3px 0; }
+  .status { display: inline-block; padding: 4px 12px; border-radius: 4px; color: #fff; font-weight: 700; background: ${STATUS_COLORS[entry.status]}; }
+  .meta { font-size: 12px; color: #475569; }
+  footer { margin-top: 32px; font-size: 11px; color: #94a3b8; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>Acoustic Inspection Report</h1>
+  <p class="meta">${escapeHtml(entry.machineName)} · ${escapeHtml(new Date(entry.timestamp).toLocaleString())} · Technician: ${escapeHtml(entry.technician || 'not recorded')}</p>
+  <span class="status">${entry.status}</span>
+</header>
+<h2>Machine</h2>
+<table>${machineRows}</table>
+<h2>Thresholds</h2>
+<table>${thresholdRows}</table>
+<h2>Measured Values</h2>
+<table>${measuredRows}</table>
+<h2>Spectrum (${resolution === BandResolution.OCTAVE ? 'octave' : 'one-third octave'} bands, ${unit})</h2>
+${entry.bands ? spectrumSvg(entry.bands, resolution, limits) : '<p class="meta">No band spectrum was stored with this record.</p>'}
+<h2>Calibration</h2>
+<table>${calibrationRows}</table>
+<footer>Record ${escapeHtml(entry.id)} · generated ${escapeHtml(new Date(generatedAt).toLocaleString())}</footer>
+</body>
+</html>
+`;
+};
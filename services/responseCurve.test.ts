@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_CORRECTION_DB } from '../constants';
+import { designCorrectionFilter, interpolateResponse, parseResponseCsv } from './responseCurve';
+
+const SAMPLE_RATE = 48000;
+
+// A MEMS capsule rolling off below 100 Hz
+const ROLL_OFF = `"Sens Factor =-1.2dB, SERNO: 7000001"
+Freq(Hz); SPL(dB)
+20; -14
+50; -6
+100; -1.5
+1000; 0.5
+10000; 2.5`;
+
+const gainDbAt = (impulse: Float32Array, frequency: number) => {
+  const w = (2 * Math.PI * frequency) / SAMPLE_RATE;
+  let re = 0;
+  let im = 0;
+  for (let n = 0; n < impulse.length; n++) {
+    re += impulse[n] * Math.cos(w * n);
+    im -= impulse[n] * Math.sin(w * n);
+  }
+  return 20 * Math.log10(Math.hypot(re, im));
+};
+
+describe('parseResponseCsv', () => {
+  it('skips headers and normalizes the curve to 0 dB at 1 kHz', () => {
+    const curve = parseResponseCsv(ROLL_OFF);
+    expect(curve.map(p => p.frequency)).toEqual([20, 50, 100, 1000, 10000]);
+    expect(curve.find(p => p.frequency === 1000)?.db).toBe(0);
+    expect(curve[0].db).toBe(-14.5);
+  });
+
+  it('accepts comma-separated files in any order', () => {
+    const curve = parseResponseCsv('frequency,db\n2000,1\n1000,0\n100,-3');
+    expect(curve.map(p => p.frequency)).toEqual([100, 1000, 2000]);
+  });
+
+  it('rejects files without enough points', () => {
+    expect(() => parseResponseCsv('frequency,db\n1000,0')).toThrow();
+  });
+});
+
+describe('interpolateResponse', () => {
+  it('interpolates on a log-frequency axis and holds the ends', () => {
+    const curve = [{ frequency: 100, db: -6 }, { frequency: 1000, db: 0 }];
+    expect(interpolateResponse(curve, Math.sqrt(100 * 1000))).toBeCloseTo(-3, 6);
+    expect(interpolateResponse(curve, 20)).toBe(-6);
+    expect(interpolateResponse(curve, 20000)).toBe(0);
+  });
+});
+
+describe('designCorrectionFilter', () => {
+  const curve = parseResponseCsv(ROLL_OFF);
+  const impulse = designCorrectionFilter(curve, SAMPLE_RATE);
+
+  it('inverts the microphone response', () => {
+    for (const frequency of [50, 63, 100, 1000, 4000]) {
+      expect(gainDbAt(impulse, frequency)).toBeCloseTo(-interpolateResponse(curve, frequency), 0);
+    }
+  });
+
+  it('caps the boost at the correction ceiling', () => {
+    const deep = [{ frequency: 20, db: -40 }, { frequency: 1000, db: 0 }];
+    expect(gainDbAt(designCorrectionFilter(deep, SAMPLE_RATE), 20)).toBeLessThanOrEqual(MAX_CORRECTION_DB + 0.5);
+  });
+});
@@ -0,0 +1,83 @@
+import { ResponsePoint } from '../types';
+import { CORRECTION_FIR_TAPS, MAX_CORRECTION_DB } from '../constants';
+import { fft } from './analysis';
+
+/**
+ * Reads a microphone response file: one "frequency, dB" pair per line, separated
+ * by comma, semicolon, tab or spaces, as in the calibration files shipped with
+ * measurement mics. Header, comment and blank lines are skipped.
+ */
+export const parseResponseCsv = (text: string): ResponsePoint[] => {
+  const points: ResponsePoint[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const fields = line.trim().split(/[\s,;]+/);
+    if (fields.length < 2) continue;
+    const frequency = Number(fields[0]);
+    const db = Number(fields[1]);
+    if (!Number.isFinite(frequency) || !Number.isFinite(db)) continue;
+    if (frequency <= 0) throw new Error(`Frequency must be positive (line "${line.trim()}").`);
+    points.push({ frequency, db });
+  }
+  if (points.length < 2) throw new Error('A response curve needs at least two frequency points.');
+  return normalizeResponse(points);
+};
+
+export const formatResponseCsv = (curve: ResponsePoint[]): string =>
+  ['frequency_hz,response_db', ...curve.map(p => `${p.frequency},${p.db}`)].join('\n');
+
+// Linear in log-frequency between points, held flat beyond the ends
+export const interpolateResponse = (curve: ResponsePoint[], frequency: number): number => {
+  if (curve.length === 0) return 0;
+  if (frequency <= curve[0].frequency) return curve[0].db;
+  const last = curve[curve.length - 1];
+  if (frequency >= last.frequency) return last.db;
+
+  let i = 1;
+  while (curve[i].frequency < frequency) i++;
+  const lo = curve[i - 1];
+  const hi = curve[i];
+  const t = Math.log(frequency / lo.frequency) / Math.log(hi.frequency / lo.frequency);
+  return lo.db + (hi.db - lo.db) * t;
+};
+
+// Sorted, de-duplicated, and shifted to 0 dB at 1 kHz: the scalar calibration already covers 1 kHz sensitivity
+export const normalizeResponse = (points: ResponsePoint[]): ResponsePoint[] => {
+  const sorted = [...points]
+    .sort((a, b) => a.frequency - b.frequency)
+    .filter((p, i, all) => i === 0 || p.frequency !== all[i - 1].frequency);
+  const reference = interpolateResponse(sorted, 1000);
+  return sorted.map(p => ({ frequency: p.frequency, db: Math.round((p.db - reference) * 100) / 100 }));
+};
+
+/**
+ * Linear-phase FIR whose magnitude is the inverse of the microphone response,
+ * by frequency sampling: zero-phase target spectrum, inverse FFT, centred and
+ * Hann-windowed. Its delay of taps / 2 samples doesn't matter for levels.
+ */
+export const designCorrectionFilter = (
+  curve: ResponsePoint[],
+  sampleRate: number,
+  taps: number = CORRECTION_FIR_TAPS
+): Float32Array => {
+  const re = new Float64Array(taps);
+  const im = new Float64Array(taps);
+  for (let k = 0; k <= taps / 2; k++) {
+    // DC takes the first bin's value rather than the curve's low-end hold
+    const frequency = Math.max(k, 1) * (sampleRate / taps);
+    const correction = Math.min(MAX_CORRECTION_DB, -interpolateResponse(curve, frequency));
+    const gain = Math.pow(10, correction / 20);
+    re[k] = gain;
+    if (k > 0 && k < taps / 2) re[taps - k] = gain;
+  }
+
+  // Inverse transform of a real, even spectrum via the forward FFT
+  fft(re, im);
+
+  const impulse = new Float32Array(taps);
+  for (let n = 0; n < taps; n++) {
+    const source = (n + taps / 2) % taps;
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / taps);
+    impulse[n] = (re[source] / taps) * window;
+  }
+  return impulse;
+};
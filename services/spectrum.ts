@@ -0,0 +1,66 @@
+// Helpers over dBFS magnitude spectra as returned by AnalyserNode.getFloatFrequencyData
+
+const FLOOR_DB = -200; // Silent bins come back as -Infinity
+const NOISE_FLOOR_FRACTION = 0.1;
+
+export const dbToPower = (db: number) => Math.pow(10, Math.max(db, FLOOR_DB) / 10);
+
+export const powerToDb = (power: number) => 10 * Math.log10(Math.max(power, 1e-20));
+
+// Parabolic interpolation of a local maximum on a dB spectrum; returns the fractional bin offset and level
+export const interpolatePeak = (spectrumDb: ArrayLike<number>, index: number): { offset: number; level: number } => {
+  const left = spectrumDb[index - 1];
+  const centre = spectrumDb[index];
+  const right = spectrumDb[index + 1];
+  if (!isFinite(left) || !isFinite(right) || !isFinite(centre)) return { offset: 0, level: centre };
+  const denom = left - 2 * centre + right;
+  if (denom === 0) return { offset: 0, level: centre };
+  const offset = Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denom));
+  return { offset, level: centre - 0.25 * (left - right) * offset };
+};
+
+// Loudest bin, skipping DC. `position` is the interpolated fractional bin.
+export const findPeakBin = (spectrumDb: ArrayLike<number>): { index: number; position: number; level: number } => {
+  let index = -1;
+  let level = -Infinity;
+  for (let i = 1; i < spectrumDb.length; i++) {
+    if (spectrumDb[i] > level) {
+      level = spectrumDb[i];
+      index = i;
+    }
+  }
+  if (index < 1 || index >= spectrumDb.length - 1) {
+    return { index, position: index, level: Math.max(level, FLOOR_DB) };
+  }
+  const peak = interpolatePeak(spectrumDb, index);
+  return { index, position: index + peak.offset, level: Math.max(peak.level, FLOOR_DB) };
+};
+
+// Mean power of the quietest bins, taken as the floor no signal reaches
+export const estimateNoiseFloor = (spectrumDb: ArrayLike<number>): number => {
+  const powers: number[] = [];
+  for (let i = 1; i < spectrumDb.length; i++) powers.push(dbToPower(spectrumDb[i]));
+  if (powers.length === 0) return FLOOR_DB;
+
+  powers.sort((a, b) => a - b);
+  const count = Math.max(1, Math.floor(powers.length * NOISE_FLOOR_FRACTION));
+  let sum = 0;
+  for (let i = 0; i < count; i++) sum += powers[i];
+  return powerToDb(sum / count);
+};
+
+// Total in-band power against a noise floor spread over every bin
+export const estimateSnr = (spectrumDb: ArrayLike<number>): number => {
+  if (spectrumDb.length < 2) return 0;
+  let total = 0;
+  for (let i = 1; i < spectrumDb.length; i++) total += dbToPower(spectrumDb[i]);
+  const noise = dbToPower(estimateNoiseFloor(spectrumDb)) * (spectrumDb.length - 1);
+  return Math.max(0, powerToDb(total) - powerToDb(noise));
+};
+
+// Blends a new dB spectrum into `smoothed` in place, on linear magnitudes as AnalyserNode's smoothingTimeConstant does
+export const smoothSpectrum = (smoothed: Float32Array, next: ArrayLike<number>, smoothing: number): void => {
+  for (let i = 0; i < smoothed.length; i++) {
+    smoothed[i] = 20 * Math.log10(smoothing * Math.pow(10, smoothed[i] / 20) + (1 - smoothing) * Math.pow(10, next[i] / 20));
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { SpectrumSnapshot } from '../types';
+import { buildBandWeights } from './octaveBands';
+import { compareSnapshots, createSpectrumSnapshot, snapshotBands, snapshotFrequencies } from './spectrumSnapshot';
+
+const SAMPLE_RATE = 48000;
+const FFT_SIZE = 32768;
+
+const snapshot = (levels: number[], overrides: Partial<SpectrumSnapshot> = {}): SpectrumSnapshot => ({
+  minFrequency: 20,
+  pointsPerOctave: 12,
+  levels,
+  ...overrides
+});
+
+describe('createSpectrumSnapshot', () => {
+  it('puts a tone at its own point on the grid', () => {
+    const bands = snapshotBands(SAMPLE_RATE);
+    const spectrum = new Float64Array(FFT_SIZE / 2).fill(-200);
+    spectrum[Math.round((1000 * FFT_SIZE) / SAMPLE_RATE)] = -20;
+
+    const { levels } = createSpectrumSnapshot(spectrum, buildBandWeights(bands, SAMPLE_RATE, FFT_SIZE), 100);
+    const loudest = levels.indexOf(Math.max(...levels));
+    expect(bands[loudest].lower).toBeLessThan(1000);
+    expect(bands[loudest].upper).toBeGreaterThan(1000);
+  });
+
+  it('stops the grid at Nyquist', () => {
+    const bands = snapshotBands(16000);
+    expect(bands[bands.length - 1].upper).toBeLessThanOrEqual(8000);
+    // Ten octaves of 12 points from 20 Hz cover the audio band
+    expect(snapshotBands(SAMPLE_RATE)).toHaveLength(120);
+  });
+});
+
+describe('compareSnapshots', () => {
+  it('differences the shared points and skips quiet ones', () => {
+    const comparison = compareSnapshots(snapshot([60, 10, 40, 70]), snapshot([55, 12, 45]))!;
+    expect(comparison.delta).toEqual([5, null, -5]);
+    expect(comparison.frequencies[0]).toBe(20);
+    expect(comparison.frequencies[2]).toBeCloseTo(20 * Math.pow(2, 2 / 12), 6);
+  });
+
+  it('refuses snapshots on different grids', () => {
+    expect(compareSnapshots(snapshot([60]), snapshot([60], { pointsPerOctave: 3 }))).toBeNull();
+    expect(snapshotFrequencies(snapshot([60, 60], { pointsPerOctave: 1 }))).toEqual([20, 40]);
+  });
+});
@@ -0,0 +1,49 @@
+import { SpectrumComparison, SpectrumSnapshot } from '../types';
+import { BASELINE_BAND_FLOOR_DB, SNAPSHOT_MAX_FREQUENCY, SNAPSHOT_MIN_FREQUENCY, SNAPSHOT_POINTS_PER_OCTAVE } from '../constants';
+import { BandWeights, FrequencyBand, computeBandPowers } from './octaveBands';
+import { powerToDb } from './spectrum';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Fractional-octave bands of the snapshot grid, stopping at the top of the audio band or Nyquist
+export const snapshotBands = (sampleRate: number): FrequencyBand[] => {
+  const halfWidth = Math.pow(2, 1 / (2 * SNAPSHOT_POINTS_PER_OCTAVE));
+  const top = Math.min(SNAPSHOT_MAX_FREQUENCY, sampleRate / 2);
+  const bands: FrequencyBand[] = [];
+  for (let k = 0; ; k++) {
+    const center = SNAPSHOT_MIN_FREQUENCY * Math.pow(2, k / SNAPSHOT_POINTS_PER_OCTAVE);
+    if (center * halfWidth > top) break;
+    bands.push({ nominal: round1(center), center, lower: center / halfWidth, upper: center * halfWidth });
+  }
+  return bands;
+};
+
+// Calibrated level of each snapshot band from an averaged dBFS spectrum
+export const createSpectrumSnapshot = (spectrumDb: ArrayLike<number>, weights: BandWeights, offset: number): SpectrumSnapshot => ({
+  minFrequency: SNAPSHOT_MIN_FREQUENCY,
+  pointsPerOctave: SNAPSHOT_POINTS_PER_OCTAVE,
+  levels: computeBandPowers(spectrumDb, weights).map(p => round1(powerToDb(p) + offset))
+});
+
+export const snapshotFrequencies = (snapshot: SpectrumSnapshot): number[] =>
+  snapshot.levels.map((_, k) => snapshot.minFrequency * Math.pow(2, k / snapshot.pointsPerOctave));
+
+/**
+ * Lines two snapshots up point by point. Records taken at different sample
+ * rates share the grid up to the lower Nyquist; snapshots on different grids
+ * can't be compared and give null.
+ */
+export const compareSnapshots = (current: SpectrumSnapshot, reference: SpectrumSnapshot): SpectrumComparison | null => {
+  if (current.minFrequency !== reference.minFrequency || current.pointsPerOctave !== reference.pointsPerOctave) return null;
+  const count = Math.min(current.levels.length, reference.levels.length);
+  const currentLevels = current.levels.slice(0, count);
+  const referenceLevels = reference.levels.slice(0, count);
+  return {
+    frequencies: snapshotFrequencies(current).slice(0, count),
+    current: currentLevels,
+    reference: referenceLevels,
+    delta: currentLevels.map((level, i) =>
+      level < BASELINE_BAND_FLOOR_DB && referenceLevels[i] < BASELINE_BAND_FLOOR_DB ? null : round1(level - referenceLevels[i])
+    )
+  };
+};
@@ -0,0 +1,124 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { DiagnosticStatus, OutboxItem, RecordKind, SyncState } from '../types';
+import { SYNC_RETRY_BASE_MS, SYNC_RETRY_MAX_MS } from '../constants';
+import { addHistoryEntry, getOutbox, updateOutboxItem } from './historyStore';
+import { applyOutcome, keepLocalCopy, parseRetryAfter, pushRecord, retryDelay, syncOutbox } from './sync';
+
+const NOW = Date.UTC(2024, 0, 1);
+const SETTINGS = { endpoint: 'https://sync.example/api/', token: 'secret' };
+
+const item = (overrides: Partial<OutboxItem> = {}): OutboxItem => ({
+  key: 'history/r1',
+  kind: RecordKind.HISTORY,
+  recordId: 'r1',
+  queuedAt: NOW,
+  state: SyncState.PENDING,
+  attempts: 0,
+  nextAttemptAt: 0,
+  ...overrides
+});
+
+// Answers every request with `response` and keeps what was asked
+const fakeFetch = (response: () => Response) => {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fetcher = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return response();
+  }) as unknown as typeof fetch;
+  return { fetcher, calls };
+};
+
+describe('pushRecord', () => {
+  it('creates the record under its kind and id', async () => {
+    const { fetcher, calls } = fakeFetch(() => new Response(null, { status: 201 }));
+    const outcome = await pushRecord(SETTINGS, item(), { id: 'r1' }, NOW, fetcher);
+    expect(outcome).toEqual({ type: 'synced' });
+    expect(calls[0].url).toBe('https://sync.example/api/records/history/r1');
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('*');
+    expect(headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(calls[0].init.body as string)).toEqual({ kind: 'history', record: { id: 'r1' } });
+  });
+
+  it('replaces only the revision a conflict was resolved against', async () => {
+    const { fetcher, calls } = fakeFetch(() => new Response(null, { status: 200 }));
+    await pushRecord(SETTINGS, item({ baseRevision: '"7"' }), { id: 'r1' }, NOW, fetcher);
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers['If-Match']).toBe('"7"');
+    expect(headers['If-None-Match']).toBeUndefined();
+  });
+
+  it('returns the server copy on a conflict', async () => {
+    const { fetcher } = fakeFetch(() => Response.json({ record: { id: 'r1', db: 80 }, revision: '"3"' }, { status: 409 }));
+    expect(await pushRecord(SETTINGS, item(), { id: 'r1' }, NOW, fetcher))
+      .toEqual({ type: 'conflict', remote: { record: { id: 'r1', db: 80 }, revision: '"3"' } });
+
+    const { fetcher: other } = fakeFetch(() => Response.json({ record: { id: 'r2' }, revision: '"3"' }, { status: 409 }));
+    expect((await pushRecord(SETTINGS, item(), { id: 'r1' }, NOW, other)).type).toBe('rejected');
+  });
+
+  it('retries network and server failures but not invalid records', async () => {
+    const offline = (async () => { throw new TypeError('Failed to fetch'); }) as unknown as typeof fetch;
+    expect(await pushRecord(SETTINGS, item(), {}, NOW, offline)).toEqual({ type: 'retry', error: 'Failed to fetch' });
+
+    const { fetcher: busy } = fakeFetch(() => new Response(null, { status: 503, headers: { 'Retry-After': '120' } }));
+    expect(await pushRecord(SETTINGS, item(), {}, NOW, busy)).toEqual({ type: 'retry', error: 'HTTP 503', retryAfter: 120000 });
+
+    const { fetcher: invalid } = fakeFetch(() => new Response(null, { status: 422 }));
+    expect((await pushRecord(SETTINGS, item(), {}, NOW, invalid)).type).toBe('rejected');
+  });
+});
+
+describe('retry scheduling', () => {
+  it('backs off exponentially up to the cap', () => {
+    expect(retryDelay(1)).toBe(SYNC_RETRY_BASE_MS);
+    expect(retryDelay(3)).toBe(4 * SYNC_RETRY_BASE_MS);
+    expect(retryDelay(50)).toBe(SYNC_RETRY_MAX_MS);
+  });
+
+  it('waits at least as long as the server asked', () => {
+    const next = applyOutcome(item({ attempts: 1 }), { type: 'retry', error: 'HTTP 429', retryAfter: SYNC_RETRY_MAX_MS }, NOW);
+    expect(next).toMatchObject({ attempts: 2, nextAttemptAt: NOW + SYNC_RETRY_MAX_MS, lastError: 'HTTP 429' });
+    expect(parseRetryAfter(new Date(NOW + 5000).toUTCString(), NOW)).toBe(5000);
+  });
+
+  it('sends the local copy against the server revision once kept', () => {
+    const conflicted = applyOutcome(item({ attempts: 2 }), { type: 'conflict', remote: { record: { id: 'r1' }, revision: '"3"' } }, NOW)!;
+    expect(conflicted.state).toBe(SyncState.CONFLICT);
+    expect(keepLocalCopy(conflicted, NOW)).toMatchObject({ state: SyncState.PENDING, attempts: 0, baseRevision: '"3"', remote: undefined });
+    expect(applyOutcome(conflicted, { type: 'synced' }, NOW)).toBeNull();
+  });
+});
+
+describe('syncOutbox', () => {
+  it('gives a manual sync during a scheduled run a pass of its own', async () => {
+    vi.stubGlobal('localStorage', { getItem: () => null });
+    for (const id of ['a', 'b']) {
+      await addHistoryEntry({ id, machineId: 'pump', machineName: 'Pump', timestamp: NOW, status: DiagnosticStatus.NORMAL, db: 70, peakFrequency: 100 });
+    }
+    const waiting = (await getOutbox()).find(queued => queued.recordId === 'b')!;
+    await updateOutboxItem(waiting.key, { ...waiting, attempts: 3, nextAttemptAt: Date.now() + SYNC_RETRY_MAX_MS });
+
+    // The scheduled run's upload hangs until the manual sync has been asked for
+    let release = () => {};
+    const held = new Promise<void>(resolve => { release = resolve; });
+    const uploaded: string[] = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      uploaded.push(url);
+      if (uploaded.length === 1) await held;
+      return new Response(null, { status: 201 });
+    });
+
+    const scheduled = syncOutbox(SETTINGS);
+    await vi.waitFor(() => expect(uploaded).toHaveLength(1));
+    const manual = syncOutbox(SETTINGS, Infinity);
+    release();
+
+    expect(await scheduled).toEqual({ synced: 1, failed: 0 });
+    expect(await manual).toEqual({ synced: 1, failed: 0 });
+    expect(uploaded.map(url => url.split('/').pop())).toEqual(['a', 'b']);
+    expect(await getOutbox()).toEqual([]);
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,208 @@
+import { OutboxItem, SyncSettings, SyncState } from '../types';
+import { SYNC_REQUEST_TIMEOUT_MS, SYNC_RETRY_BASE_MS, SYNC_RETRY_MAX_MS, SYNC_SETTINGS_STORAGE_KEY } from '../constants';
+import { getOutbox, getRecord, updateOutboxItem } from './historyStore';
+
+// What one upload attempt came to; see docs/sync-api.md for the status codes behind each
+export type PushOutcome =
+  | { type: 'synced' }
+  | { type: 'conflict'; remote: { record: unknown; revision: string } }
+  | { type: 'retry'; error: string; retryAfter?: number } // retryAfter in ms, when the server asked for it
+  | { type: 'rejected'; error: string };
+
+export interface SyncRun {
+  synced: number;
+  failed: number; // Attempts that will be retried, conflicts and rejections
+}
+
+const DEFAULT_SETTINGS: SyncSettings = { endpoint: '', token: '' };
+
+export const loadSyncSettings = (): SyncSettings => {
+  const saved = localStorage.getItem(SYNC_SETTINGS_STORAGE_KEY);
+  return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+};
+
+export const storeSyncSettings = (settings: SyncSettings): void => {
+  localStorage.setItem(SYNC_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const recordUrl = (endpoint: string, item: OutboxItem): string =>
+  `${endpoint.replace(/\/+$/, '')}/records/${item.kind}/${encodeURIComponent(item.recordId)}`;
+
+// Doubles from SYNC_RETRY_BASE_MS with every failed attempt, up to the cap
+export const retryDelay = (attempts: number): number =>
+  Math.min(SYNC_RETRY_MAX_MS, SYNC_RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)));
+
+// Retry-After is either delay seconds or an HTTP date
+export const parseRetryAfter = (header: string | null, now: number): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const readConflict = async (response: Response, item: OutboxItem): Promise<PushOutcome> => {
+  const body = await response.json().catch(() => null);
+  const record = body?.record;
+  const revision = body?.revision ?? response.headers.get('ETag');
+  // A copy of some other record can't stand in for this one
+  if (!record || typeof record !== 'object' || record.id !== item.recordId || typeof revision !== 'string') {
+    return { type: 'rejected', error: `Conflict response without a usable server copy (${response.status})` };
+  }
+  return { type: 'conflict', remote: { record, revision } };
+};
+
+/**
+ * Uploads one record. A first upload may only create; once a conflict has been
+ * resolved in the local copy's favour it may replace the revision it was
+ * compared against, and nothing newer.
+ */
+export const pushRecord = async (
+  settings: SyncSettings,
+  item: OutboxItem,
+  record: unknown,
+  now = Date.now(),
+  fetcher: typeof fetch = fetch
+): Promise<PushOutcome> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.token) headers.Authorization = `Bearer ${settings.token}`;
+  if (item.baseRevision) headers['If-Match'] = item.baseRevision;
+  else headers['If-None-Match'] = '*';
+
+  let response: Response;
+  try {
+    response = await fetcher(recordUrl(settings.endpoint, item), {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ kind: item.kind, record }),
+      signal: AbortSignal.timeout(SYNC_REQUEST_TIMEOUT_MS)
+    });
+  } catch (err) {
+    return { type: 'retry', error: err instanceof Error ? err.message : 'Network error' };
+  }
+
+  if (response.ok) return { type: 'synced' };
+  if (response.status === 409 || response.status === 412) return readConflict(response, item);
+  // Unauthorised may come right once the token is fixed, and the rest are the server's or the network's trouble
+  if (response.status === 401 || response.status === 403 || response.status === 408 || response.status === 429 || response.status >= 500) {
+    return { type: 'retry', error: `HTTP ${response.status}`, retryAfter: parseRetryAfter(response.headers.get('Retry-After'), now) };
+  }
+  return { type: 'rejected', error: `HTTP ${response.status}` };
+};
+
+// The item's next state after an attempt; null once it has left the queue
+export const applyOutcome = (item: OutboxItem, outcome: PushOutcome, now: number): OutboxItem | null => {
+  switch (outcome.type) {
+    case 'synced':
+      return null;
+    case 'conflict':
+      return { ...item, state: SyncState.CONFLICT, remote: outcome.remote, lastError: undefined };
+    case 'retry': {
+      const attempts = item.attempts + 1;
+      return {
+        ...item,
+        state: SyncState.PENDING,
+        attempts,
+        nextAttemptAt: now + Math.max(retryDelay(attempts), outcome.retryAfter ?? 0),
+        lastError: outcome.error
+      };
+    }
+    case 'rejected':
+      return { ...item, state: SyncState.REJECTED, lastError: outcome.error };
+  }
+};
+
+// Conflicts are settled by a person; 'local' sends this copy again in place of the server's
+export const keepLocalCopy = (item: OutboxItem, now: number): OutboxItem => ({
+  ...item,
+  state: SyncState.PENDING,
+  attempts: 0,
+  nextAttemptAt: now,
+  baseRevision: item.remote?.revision ?? item.baseRevision,
+  remote: undefined,
+  lastError: undefined
+});
+
+export const requeue = (item: OutboxItem, now: number): OutboxItem => ({
+  ...item,
+  state: SyncState.PENDING,
+  attempts: 0,
+  nextAttemptAt: now,
+  lastError: undefined
+});
+
+interface Pass {
+  settings: SyncSettings;
+  dueBy: number;
+  result: Promise<SyncRun>;
+}
+
+let running: Pass | null = null;
+// One more pass for callers who asked for more than the run under way covers
+let followUp: Pass | null = null;
+
+const run = async (settings: SyncSettings, dueBy: number): Promise<SyncRun> => {
+  const result: SyncRun = { synced: 0, failed: 0 };
+  const due = (await getOutbox()).filter(item => item.state === SyncState.PENDING && item.nextAttemptAt <= dueBy);
+  for (let i = 0; i < due.length; i++) {
+    const item = due[i];
+    const now = Date.now();
+    const record = await getRecord(item.kind, item.recordId);
+    if (!record) {
+      await updateOutboxItem(item.key, null);
+      continue;
+    }
+    const outcome = await pushRecord(settings, item, record, now);
+    const next = applyOutcome(item, outcome, now);
+    await updateOutboxItem(item.key, next);
+    if (outcome.type === 'synced') result.synced++;
+    else result.failed++;
+    // The rest would only fail the same way: they wait as long, but keep their attempt count
+    if (outcome.type === 'retry' && next) {
+      for (const rest of due.slice(i + 1)) await updateOutboxItem(rest.key, { ...rest, nextAttemptAt: next.nextAttemptAt });
+      break;
+    }
+  }
+  return result;
+};
+
+/**
+ * Sends every pending record due by `dueBy`, one at a time and oldest first.
+ * Passing Infinity skips the backoff, e.g. when the connection has just come
+ * back. Overlapping calls share a run; one that reaches further than the run
+ * under way, like a manual "Sync now" during a scheduled run, gets a second
+ * pass as soon as it ends.
+ */
+export const syncOutbox = (settings: SyncSettings, dueBy = Date.now()): Promise<SyncRun> => {
+  if (!settings.endpoint) return Promise.resolve({ synced: 0, failed: 0 });
+  if (!running) {
+    const result = run(settings, dueBy).finally(() => { running = null; });
+    running = { settings, dueBy, result };
+    return result;
+  }
+  if (dueBy <= running.dueBy) return running.result;
+  if (followUp) {
+    followUp.settings = settings;
+    followUp.dueBy = Math.max(followUp.dueBy, dueBy);
+    return followUp.result;
+  }
+  const next: Pass = {
+    settings,
+    dueBy,
+    result: running.result.catch(() => undefined).then(() => {
+      followUp = null;
+      return syncOutbox(next.settings, next.dueBy);
+    })
+  };
+  followUp = next;
+  return next.result;
+};
+
+// Top-level fields where the server copy differs from the local one, to help pick a side
+export const differingFields = (local: unknown, remote: unknown): string[] => {
+  const a = (local ?? {}) as Record<string, unknown>;
+  const b = (remote ?? {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .sort();
+};
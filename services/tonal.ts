@@ -0,0 +1,138 @@
+import { ExpectedFundamental, TonalAnalysis, TonalComponent, ToneKind } from '../types';
+import { TONE_PROMINENCE_DB } from '../constants';
+import { dbToPower, interpolatePeak } from './spectrum';
+
+const MIN_TONE_FREQ = 20;
+const MAX_TONES = 16;
+const MAX_HARMONIC = 20;
+const HARMONIC_TOLERANCE = 0.05; // Fraction of f0, independent of order since f0 is itself measured
+const SIDEBAND_SPAN = 0.15;      // Fraction of f0 either side of a harmonic
+const NEIGHBOURHOOD_BINS = 32;   // Half-width of the local floor estimate
+const GUARD_BINS = 3;            // Excluded around the peak itself
+
+export interface SpectralPeak {
+  frequency: number; // Interpolated (Hz)
+  level: number;     // Interpolated peak level (dB)
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Local maxima standing at least TONE_PROMINENCE_DB above their neighbourhood, loudest first
+export const findTones = (spectrumDb: ArrayLike<number>, binHz: number): (SpectralPeak & { prominence: number })[] => {
+  const tones: (SpectralPeak & { prominence: number })[] = [];
+  const first = Math.max(1, Math.ceil(MIN_TONE_FREQ / binHz));
+
+  for (let i = first; i < spectrumDb.length - 1; i++) {
+    const level = spectrumDb[i];
+    if (!(level > spectrumDb[i - 1] && level >= spectrumDb[i + 1])) continue;
+
+    const neighbours: number[] = [];
+    for (let j = i - NEIGHBOURHOOD_BINS; j <= i + NEIGHBOURHOOD_BINS; j++) {
+      if (j < 1 || j >= spectrumDb.length || Math.abs(j - i) <= GUARD_BINS) continue;
+      if (isFinite(spectrumDb[j])) neighbours.push(spectrumDb[j]);
+    }
+    if (neighbours.length === 0) continue;
+
+    const prominence = level - median(neighbours);
+    if (prominence < TONE_PROMINENCE_DB) continue;
+
+    const peak = interpolatePeak(spectrumDb, i);
+    tones.push({ frequency: (i + peak.offset) * binHz, level: peak.level, prominence });
+  }
+
+  return tones.sort((a, b) => b.level - a.level).slice(0, MAX_TONES);
+};
+
+const harmonicOrder = (frequency: number, f0: number, binHz: number): number | null => {
+  const order = Math.round(frequency / f0);
+  if (order < 1 || order > MAX_HARMONIC) return null;
+  const tolerance = Math.max(f0 * HARMONIC_TOLERANCE, 1.5 * binHz);
+  return Math.abs(frequency - order * f0) <= tolerance ? order : null;
+};
+
+// Fundamental explaining the most tonal energy. Candidates are tried highest first per tone and
+// only replaced on strictly more energy, so ties keep the higher candidate and avoid octave errors.
+const estimateFundamental = (tones: SpectralPeak[], binHz: number): number | null => {
+  let best: { f0: number; score: number } | null = null;
+  for (const tone of tones.slice(0, 3)) {
+    for (let divisor = 1; divisor <= 3; divisor++) {
+      const f0 = tone.frequency / divisor;
+      if (f0 < MIN_TONE_FREQ) continue;
+      let score = 0;
+      let count = 0;
+      for (const t of tones) {
+        if (harmonicOrder(t.frequency, f0, binHz) !== null) {
+          score += dbToPower(t.level);
+          count++;
+        }
+      }
+      if (count < 2) continue;
+      if (!best || score > best.score * 1.0001) {
+        best = { f0, score };
+      }
+    }
+  }
+  return best ? best.f0 : null;
+};
+
+// Refine a declared fundamental against the strongest tone sitting on one of its first harmonics
+const locateFundamental = (tones: SpectralPeak[], expected: ExpectedFundamental): number | null => {
+  for (const tone of tones) {
+    for (let order = 1; order <= 5; order++) {
+      if (Math.abs(tone.frequency / order - expected.frequency) <= expected.frequency * expected.tolerance) {
+        return tone.frequency / order;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Classifies the prominent tones of a dB spectrum as harmonics of a
+ * fundamental, sidebands around those harmonics, or unrelated tones.
+ * `offset` converts spectrum levels to the reported level scale.
+ */
+export const analyzeTones = (
+  spectrumDb: ArrayLike<number>,
+  binHz: number,
+  offset: number,
+  expected?: ExpectedFundamental
+): TonalAnalysis => {
+  const tones = findTones(spectrumDb, binHz);
+  const located = expected ? locateFundamental(tones, expected) : null;
+  // An unconfirmed declared fundamental still defines what counts as harmonic
+  const fundamental = expected ? located ?? expected.frequency : estimateFundamental(tones, binHz);
+
+  const components: TonalComponent[] = tones.map(tone => {
+    const base = {
+      frequency: Math.round(tone.frequency * 10) / 10,
+      level: Math.round((tone.level + offset) * 10) / 10,
+      prominence: Math.round(tone.prominence * 10) / 10
+    };
+    if (fundamental === null) return { ...base, kind: ToneKind.UNRELATED };
+
+    const order = harmonicOrder(tone.frequency, fundamental, binHz);
+    if (order !== null) return { ...base, kind: ToneKind.HARMONIC, order };
+
+    const nearest = Math.max(1, Math.round(tone.frequency / fundamental));
+    return Math.abs(tone.frequency - nearest * fundamental) <= fundamental * SIDEBAND_SPAN
+      ? { ...base, kind: ToneKind.SIDEBAND, order: nearest }
+      : { ...base, kind: ToneKind.UNRELATED };
+  });
+
+  return {
+    fundamental: fundamental === null ? null : Math.round(fundamental * 10) / 10,
+    fundamentalConfirmed: expected ? located !== null : fundamental !== null,
+    components: components.sort((a, b) => a.frequency - b.frequency)
+  };
+};
+
+// Tones that a standard declaring its fundamental does not tolerate, within the modelled harmonic series
+export const findTonalAnomalies = (analysis: TonalAnalysis, expected?: ExpectedFundamental): TonalComponent[] => {
+  if (!expected || analysis.fundamental === null) return [];
+  const ceiling = (MAX_HARMONIC + 0.5) * analysis.fundamental;
+  return analysis.components.filter(c => c.kind !== ToneKind.HARMONIC && c.frequency <= ceiling);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { TrendPoint } from '../types';
+import { fitTrend, forecastCrossing, trendValueAt } from './trend';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+// One reading a week, rising `slope` dB per day from `start` dB
+const weekly = (count: number, start: number, slope: number): TrendPoint[] =>
+  Array.from({ length: count }, (_, i) => ({ timestamp: START + i * 7 * DAY_MS, value: start + slope * i * 7 }));
+
+describe('fitTrend', () => {
+  it('recovers an exact line', () => {
+    const fit = fitTrend(weekly(5, 70, 0.1))!;
+    expect(fit.slopePerDay).toBeCloseTo(0.1, 6);
+    expect(fit.intercept).toBeCloseTo(70, 6);
+    expect(fit.r2).toBeCloseTo(1, 6);
+    expect(trendValueAt(fit, START + 10 * DAY_MS)).toBeCloseTo(71, 6);
+  });
+
+  it('has no line through readings taken at one instant', () => {
+    expect(fitTrend([{ timestamp: START, value: 70 }, { timestamp: START, value: 72 }])).toBeNull();
+  });
+});
+
+describe('forecastCrossing', () => {
+  it('projects when a rising level reaches the limit', () => {
+    const forecast = forecastCrossing(weekly(5, 70, 0.1), 78)!;
+    // 8 dB at 0.1 dB/day
+    expect(forecast.crossingAt).toBeCloseTo(START + 80 * DAY_MS, -3);
+  });
+
+  it('has no crossing while the level is flat or falling', () => {
+    expect(forecastCrossing(weekly(5, 70, 0), 78)!.crossingAt).toBeNull();
+    expect(forecastCrossing(weekly(5, 75, -0.05), 78)!.crossingAt).toBeNull();
+  });
+
+  it('needs enough readings spread over time', () => {
+    expect(forecastCrossing(weekly(3, 70, 0.1), 78)).toBeNull();
+    const sameDay = Array.from({ length: 5 }, (_, i) => ({ timestamp: START + i * 60_000, value: 70 + i }));
+    expect(forecastCrossing(sameDay, 78)).toBeNull();
+  });
+
+  it('fits only the recent window', () => {
+    // A year of flat readings, then a steady rise over the last two months
+    const old = Array.from({ length: 10 }, (_, i) => ({ timestamp: START - (400 - i * 20) * DAY_MS, value: 80 }));
+    const forecast = forecastCrossing([...old, ...weekly(9, 70, 0.1)], 78)!;
+    expect(forecast.fit.count).toBe(9);
+    expect(forecast.fit.slopePerDay).toBeCloseTo(0.1, 6);
+  });
+});
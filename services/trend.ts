@@ -0,0 +1,57 @@
+import { DegradationForecast, TrendFit, TrendPoint } from '../types';
+import { TREND_MIN_POINTS, TREND_MIN_SPAN_DAYS, TREND_WINDOW_DAYS } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const fitTrend = (points: TrendPoint[]): TrendFit | null => {
+  if (points.length < 2) return null;
+  const origin = points[0].timestamp;
+  const xs = points.map(p => (p.timestamp - origin) / DAY_MS);
+  const ys = points.map(p => p.value);
+  const meanX = xs.reduce((acc, x) => acc + x, 0) / xs.length;
+  const meanY = ys.reduce((acc, y) => acc + y, 0) / ys.length;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  });
+  if (sxx === 0) return null;
+
+  const slopePerDay = sxy / sxx;
+  return {
+    origin,
+    intercept: meanY - slopePerDay * meanX,
+    slopePerDay,
+    r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+    count: points.length
+  };
+};
+
+export const trendValueAt = (fit: TrendFit, timestamp: number): number =>
+  fit.intercept + fit.slopePerDay * ((timestamp - fit.origin) / DAY_MS);
+
+/**
+ * Fits the readings of the last TREND_WINDOW_DAYS and projects when the line
+ * reaches `limit`. Null when there are too few readings, or they span too
+ * short a time, to say anything about wear.
+ */
+export const forecastCrossing = (points: TrendPoint[], limit: number): DegradationForecast | null => {
+  if (points.length === 0) return null;
+  const latest = Math.max(...points.map(p => p.timestamp));
+  const recent = points
+    .filter(p => p.timestamp >= latest - TREND_WINDOW_DAYS * DAY_MS)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (recent.length < TREND_MIN_POINTS) return null;
+  if (latest - recent[0].timestamp < TREND_MIN_SPAN_DAYS * DAY_MS) return null;
+
+  const fit = fitTrend(recent);
+  if (!fit) return null;
+  const crossingAt = fit.slopePerDay > 0
+    ? fit.origin + ((limit - fit.intercept) / fit.slopePerDay) * DAY_MS
+    : null;
+  return { fit, crossingAt };
+};
@@ -0,0 +1,87 @@
+import { FrequencyWeighting } from '../types';
+
+// IEC 61672-1 pole frequencies (Hz)
+const F1 = 20.598997;
+const F2 = 107.65265;
+const F3 = 737.86223;
+const F4 = 12194.217;
+
+const NORMALIZATION_FREQ = 1000;
+
+export interface BiquadCoefficients {
+  b: [number, number, number]; // Feedforward
+  a: [number, number, number]; // Feedback, a[0] === 1
+}
+
+// Analog second-order section: (b0 s^2 + b1 s + b2) / (a0 s^2 + a1 s + a2)
+type AnalogSection = { b: [number, number, number]; a: [number, number, number] };
+
+// Pole frequency pre-warped so the bilinear transform keeps it in place
+const prewarp = (freq: number, sampleRate: number) =>
+  2 * sampleRate * Math.tan((Math.PI * freq) / sampleRate);
+
+const bilinear = ({ b, a }: AnalogSection, sampleRate: number): BiquadCoefficients => {
+  const k = 2 * sampleRate;
+  const k2 = k * k;
+  const b0 = b[0] * k2 + b[1] * k + b[2];
+  const b1 = 2 * b[2] - 2 * b[0] * k2;
+  const b2 = b[0] * k2 - b[1] * k + b[2];
+  const a0 = a[0] * k2 + a[1] * k + a[2];
+  const a1 = 2 * a[2] - 2 * a[0] * k2;
+  const a2 = a[0] * k2 - a[1] * k + a[2];
+  return { b: [b0 / a0, b1 / a0, b2 / a0], a: [1, a1 / a0, a2 / a0] };
+};
+
+// Magnitude of one digital section at `freq`
+const sectionMagnitude = ({ b, a }: BiquadCoefficients, freq: number, sampleRate: number): number => {
+  const w = (2 * Math.PI * freq) / sampleRate;
+  const cos1 = Math.cos(w), sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w), sin2 = Math.sin(2 * w);
+  const numRe = b[0] + b[1] * cos1 + b[2] * cos2;
+  const numIm = -(b[1] * sin1 + b[2] * sin2);
+  const denRe = a[0] + a[1] * cos1 + a[2] * cos2;
+  const denIm = -(a[1] * sin1 + a[2] * sin2);
+  return Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+};
+
+/**
+ * Cascade of biquads realising the IEC 61672 A or C weighting at `sampleRate`,
+ * normalised to 0 dB at 1 kHz. Z weighting is flat and has no sections.
+ * Bilinear warping still pulls the response down close to Nyquist, but at
+ * 44.1/48 kHz it stays inside the Class 1 tolerances up to 16 kHz.
+ */
+export const designWeightingFilter = (weighting: FrequencyWeighting, sampleRate: number): BiquadCoefficients[] => {
+  if (weighting === FrequencyWeighting.Z) return [];
+
+  const w1 = prewarp(F1, sampleRate);
+  const w4 = prewarp(F4, sampleRate);
+
+  const analog: AnalogSection[] = [
+    // s^2 / (s + w1)^2
+    { b: [1, 0, 0], a: [1, 2 * w1, w1 * w1] },
+    // 1 / (s + w4)^2
+    { b: [0, 0, 1], a: [1, 2 * w4, w4 * w4] }
+  ];
+
+  if (weighting === FrequencyWeighting.A) {
+    const w2 = prewarp(F2, sampleRate);
+    const w3 = prewarp(F3, sampleRate);
+    // s^2 / ((s + w2)(s + w3))
+    analog.push({ b: [1, 0, 0], a: [1, w2 + w3, w2 * w3] });
+  }
+
+  const sections = analog.map(section => bilinear(section, sampleRate));
+
+  const gain = 1 / sections.reduce((acc, s) => acc * sectionMagnitude(s, NORMALIZATION_FREQ, sampleRate), 1);
+  sections[0].b = sections[0].b.map(v => v * gain) as [number, number, number];
+
+  return sections;
+};
+
+// Response of a designed cascade in dB, for display and verification
+export const weightingResponseDb = (sections: BiquadCoefficients[], freq: number, sampleRate: number): number => {
+  const magnitude = sections.reduce((acc, s) => acc * sectionMagnitude(s, freq, sampleRate), 1);
+  return 20 * Math.log10(magnitude);
+};
+
+export const weightingUnit = (weighting: FrequencyWeighting = FrequencyWeighting.A): string => `dB(${weighting})`;
@@ -0,0 +1,302 @@
+import { AudioMetrics, BandSpectrum, DiagnosticStatus, DoseCriterion, DoseState, MachineStandard, MeasurementSummary } from '../../types';
+import {
+  BAND_FFT_SIZE,
+  BAND_HOP,
+  MIN_STABLE_SNR_DB,
+  SPECTRUM_FFT_SIZE,
+  SPECTRUM_SMOOTHING,
+  UI_UPDATE_INTERVAL
+} from '../../constants';
+import { DiagnosticWindow, analyzeSpectrum, createMagnitudeSpectrum, evaluateStatus, levelDb, summarizeWindow } from '../analysis';
+import { BandWeights, THIRD_OCTAVE_BANDS, buildBandWeights, computeBandPowers, findBandExceedances, toBandSpectrum } from '../octaveBands';
+import { dbToPower, smoothSpectrum } from '../spectrum';
+import { snapshotBands } from '../spectrumSnapshot';
+import { accumulateDose, createDoseState } from '../dosimetry';
+import type { LevelMeterReport } from '../worklets/levelMeter.worklet';
+import type { SampleChunk } from '../worklets/sampleTap.worklet';
+
+// Dedicated worker scope; the DOM lib types `self` as a Window
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage(message: AnalysisMessage, transfer?: Transferable[]): void;
+};
+
+export type AnalysisRequest =
+  | {
+    type: 'configure';
+    sampleRate: number;
+    calibrationOffset: number;
+    levelPort: MessagePort;  // From the level-meter worklet
+    samplePort: MessagePort; // From the sample-tap worklet
+    peakPort?: MessagePort;  // From the level meter on the peak-weighting chain
+  }
+  | { type: 'calibration'; offset: number }
+  | { type: 'updates'; standard: MachineStandard | null } // Starts live updates, graded against `standard`
+  | { type: 'beginWindow'; close?: WindowClose } // With `close`, the worker ends the window itself
+  | { type: 'finishWindow'; id: number; standard: MachineStandard; expectedSamples?: number }
+  | { type: 'beginDose'; criteria: DoseCriterion[] }
+  | { type: 'endDose'; id: number };
+
+// Length of a window in samples, counted on the audio clock rather than a UI timer
+export interface WindowClose {
+  id: number;
+  standard: MachineStandard;
+  samples: number;
+}
+
+// Throttled snapshot for the UI
+export interface AnalysisUpdate {
+  type: 'update';
+  level: number;          // Time-weighted level, unrounded
+  metrics: AudioMetrics;
+  spectrum: Float32Array; // Smoothed dBFS per bin of the short FFT
+  bands: BandSpectrum | null;
+  dose: DoseState | null; // While a dose is being integrated
+}
+
+export interface WindowResult {
+  type: 'summary';
+  id: number;
+  summary: MeasurementSummary | null;
+}
+
+export interface DoseMessage {
+  type: 'dose';
+  id: number;
+  state: DoseState | null;
+}
+
+export type AnalysisMessage = AnalysisUpdate | WindowResult | DoseMessage;
+
+// The window being gathered; its arrays are reused from window to window
+interface ActiveWindow extends DiagnosticWindow {
+  open: boolean;
+}
+
+const DRAIN_TIMEOUT_MS = 2000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+let sampleRate = 0;
+let calibrationOffset = 0;
+let updateSamples = Infinity;
+let grading: MachineStandard | null = null;
+let updatesOn = false;
+
+// The last BAND_FFT_SIZE samples; the short frame is the newest part of it
+const ring = new Float32Array(BAND_FFT_SIZE);
+let ringHead = 0;
+const shortFrame = new Float32Array(SPECTRUM_FFT_SIZE);
+const longFrame = new Float32Array(BAND_FFT_SIZE);
+const shortSpectrum = createMagnitudeSpectrum(SPECTRUM_FFT_SIZE);
+const longSpectrum = createMagnitudeSpectrum(BAND_FFT_SIZE);
+const rawSpectrum = new Float32Array(SPECTRUM_FFT_SIZE / 2);
+const liveSpectrum = new Float32Array(SPECTRUM_FFT_SIZE / 2).fill(-Infinity);
+const fineSpectrum = new Float32Array(BAND_FFT_SIZE / 2);
+let bandWeights: BandWeights = [];
+let snapshotWeights: BandWeights = [];
+let bandSpectrum: BandSpectrum | null = null;
+let meanSquare = 0;
+let sinceBand = 0;
+let sinceUpdate = 0;
+let dose: DoseState | null = null;
+let peakChain = false; // Whether a peak-weighting chain reports to this worker
+let blockPeak = 0; // Largest peak-chain sample since the last level report
+let windowClose: WindowClose | null = null;
+
+const active: ActiveWindow = {
+  open: false,
+  levels: [],
+  maxMeanSquare: 0,
+  minMeanSquare: Infinity,
+  energy: 0,
+  samples: 0,
+  spectrumSum: new Float64Array(SPECTRUM_FFT_SIZE / 2),
+  spectrumFrames: 0,
+  fineSpectrumSum: new Float64Array(BAND_FFT_SIZE / 2),
+  bandPowerSum: new Float64Array(THIRD_OCTAVE_BANDS.length),
+  fineFrames: 0
+};
+
+const toDb = (value: number) => levelDb(value, calibrationOffset);
+
+// Copies the newest frame.length samples out of the ring, oldest first
+const readFrame = (frame: Float32Array) => {
+  const start = (ringHead - frame.length + ring.length) % ring.length;
+  const first = Math.min(frame.length, ring.length - start);
+  frame.set(ring.subarray(start, start + first));
+  if (first < frame.length) frame.set(ring.subarray(0, frame.length - first), first);
+};
+
+const postSummary = (id: number, summary: MeasurementSummary | null) => {
+  const result: WindowResult = { type: 'summary', id, summary };
+  scope.postMessage(result);
+};
+
+const handleLevelReport = (report: LevelMeterReport) => {
+  meanSquare = report.meanSquare;
+  if (dose) {
+    accumulateDose(dose, {
+      level: toDb(report.meanSquare),
+      leq: toDb(report.energy / report.samples),
+      peak: peakChain ? toDb(blockPeak * blockPeak) : null,
+      seconds: report.samples / sampleRate
+    });
+    blockPeak = 0;
+  }
+  if (!active.open) return;
+  active.levels.push(toDb(report.meanSquare));
+  active.maxMeanSquare = Math.max(active.maxMeanSquare, report.maxMeanSquare);
+  active.minMeanSquare = Math.min(active.minMeanSquare, report.minMeanSquare);
+  active.energy += report.energy;
+  active.samples += report.samples;
+  if (windowClose && active.samples >= windowClose.samples) {
+    const { id, standard } = windowClose;
+    windowClose = null;
+    postSummary(id, finishWindow(standard));
+  }
+};
+
+const handleChunk = (samples: Float32Array) => {
+  let offset = 0;
+  while (offset < samples.length) {
+    const count = Math.min(samples.length - offset, ring.length - ringHead);
+    ring.set(samples.subarray(offset, offset + count), ringHead);
+    ringHead = (ringHead + count) % ring.length;
+    offset += count;
+  }
+
+  readFrame(shortFrame);
+  shortSpectrum(shortFrame, rawSpectrum);
+  smoothSpectrum(liveSpectrum, rawSpectrum, SPECTRUM_SMOOTHING);
+  if (active.open) {
+    for (let i = 0; i < rawSpectrum.length; i++) active.spectrumSum[i] += dbToPower(rawSpectrum[i]);
+    active.spectrumFrames++;
+  }
+
+  sinceBand += samples.length;
+  if (sinceBand >= BAND_HOP) {
+    sinceBand = 0;
+    readFrame(longFrame);
+    longSpectrum(longFrame, fineSpectrum);
+    const bandPowers = computeBandPowers(fineSpectrum, bandWeights);
+    bandSpectrum = toBandSpectrum(bandPowers, calibrationOffset);
+    if (active.open) {
+      for (let i = 0; i < fineSpectrum.length; i++) active.fineSpectrumSum[i] += dbToPower(fineSpectrum[i]);
+      for (let i = 0; i < bandPowers.length; i++) active.bandPowerSum[i] += bandPowers[i];
+      active.fineFrames++;
+    }
+  }
+
+  sinceUpdate += samples.length;
+  if (updatesOn && sinceUpdate >= updateSamples) {
+    sinceUpdate = 0;
+    postUpdate();
+  }
+};
+
+const postUpdate = () => {
+  const level = toDb(meanSquare);
+  const { peakFrequency, peakProminence, snr } = analyzeSpectrum(liveSpectrum, sampleRate / SPECTRUM_FFT_SIZE);
+  const exceededBands = grading && bandSpectrum ? findBandExceedances(grading, bandSpectrum) : [];
+  const update: AnalysisUpdate = {
+    type: 'update',
+    level,
+    metrics: {
+      db: round1(level),
+      peakFrequency: Math.round(peakFrequency),
+      snr: Math.round(snr),
+      isStable: snr >= MIN_STABLE_SNR_DB,
+      status: grading
+        ? evaluateStatus(grading, { db: level, peakFrequency, peakProminence, exceededBands })
+        : DiagnosticStatus.IDLE
+    },
+    spectrum: liveSpectrum.slice(),
+    bands: bandSpectrum,
+    dose
+  };
+  scope.postMessage(update, [update.spectrum.buffer]);
+};
+
+const beginWindow = () => {
+  active.open = true;
+  active.levels.length = 0;
+  active.maxMeanSquare = 0;
+  active.minMeanSquare = Infinity;
+  active.energy = 0;
+  active.samples = 0;
+  active.spectrumSum.fill(0);
+  active.spectrumFrames = 0;
+  active.fineSpectrumSum.fill(0);
+  active.bandPowerSum.fill(0);
+  active.fineFrames = 0;
+};
+
+// Reports still in flight (e.g. at the end of offline rendering) are waited for, up to a limit
+const drain = async (expectedSamples: number) => {
+  const deadline = performance.now() + DRAIN_TIMEOUT_MS;
+  while (active.samples < expectedSamples && performance.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const finishWindow = (standard: MachineStandard): MeasurementSummary | null => {
+  const wasOpen = active.open;
+  active.open = false;
+  return wasOpen ? summarizeWindow(active, standard, sampleRate, calibrationOffset, snapshotWeights) : null;
+};
+
+scope.onmessage = async (e: MessageEvent<AnalysisRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'configure':
+      sampleRate = request.sampleRate;
+      calibrationOffset = request.calibrationOffset;
+      updateSamples = Math.round(UI_UPDATE_INTERVAL * sampleRate);
+      bandWeights = buildBandWeights(THIRD_OCTAVE_BANDS, sampleRate, BAND_FFT_SIZE);
+      snapshotWeights = buildBandWeights(snapshotBands(sampleRate), sampleRate, BAND_FFT_SIZE);
+      request.levelPort.onmessage = (message: MessageEvent<LevelMeterReport>) => handleLevelReport(message.data);
+      peakChain = Boolean(request.peakPort);
+      if (request.peakPort) {
+        request.peakPort.onmessage = (message: MessageEvent<LevelMeterReport>) => {
+          blockPeak = Math.max(blockPeak, message.data.peak);
+        };
+      }
+      request.samplePort.onmessage = (message: MessageEvent<SampleChunk>) => {
+        handleChunk(message.data.samples);
+        // Back to the tap's pool
+        request.samplePort.postMessage(message.data, [message.data.samples.buffer]);
+      };
+      break;
+    case 'calibration':
+      calibrationOffset = request.offset;
+      break;
+    case 'updates':
+      updatesOn = true;
+      grading = request.standard;
+      break;
+    case 'beginWindow':
+      if (windowClose) postSummary(windowClose.id, null);
+      windowClose = request.close ?? null;
+      beginWindow();
+      break;
+    case 'beginDose':
+      dose = createDoseState(request.criteria);
+      blockPeak = 0;
+      break;
+    case 'endDose': {
+      const result: DoseMessage = { type: 'dose', id: request.id, state: dose };
+      dose = null;
+      scope.postMessage(result);
+      break;
+    }
+    case 'finishWindow': {
+      if (request.expectedSamples !== undefined) await drain(request.expectedSamples);
+      postSummary(request.id, finishWindow(request.standard));
+      // Closed early by hand: the window no longer ends on its own
+      if (windowClose) postSummary(windowClose.id, null);
+      windowClose = null;
+      break;
+    }
+  }
+};
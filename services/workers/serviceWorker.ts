@@ -0,0 +1,77 @@
+// Service worker scope; the DOM lib describes neither it nor its events
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Response | Promise<Response>): void;
+}
+
+interface NotificationEvent extends ExtendableEvent {
+  readonly notification: Notification;
+}
+
+interface WindowClientLike {
+  focus(): Promise<unknown>;
+}
+
+const scope = self as unknown as {
+  location: Location;
+  clients: {
+    claim(): Promise<void>;
+    matchAll(options: { type: 'window' }): Promise<WindowClientLike[]>;
+    openWindow(url: string): Promise<unknown>;
+  };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'notificationclick', listener: (event: NotificationEvent) => void): void;
+};
+
+// Filled in by the build: every emitted file, and a version that changes whenever one of them does
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __PRECACHE_VERSION__: string;
+
+const CACHE_PREFIX = 'acoustic-diag-';
+const CACHE_NAME = `${CACHE_PREFIX}${__PRECACHE_VERSION__}`;
+const APP_SHELL = new URL('./', scope.location.href).href;
+
+const precached = new Set(__PRECACHE_MANIFEST__.map(path => new URL(path, scope.location.href).href));
+
+// Waits for open tabs to close before taking over, so a running page never loses the files it was built with
+scope.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll([...precached])));
+});
+
+scope.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await scope.clients.claim();
+  })());
+});
+
+// Cache first for the app itself; anything else, such as the sync endpoint, goes to the network untouched
+scope.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = request.mode === 'navigate' && new URL(request.url).origin === scope.location.origin
+    ? APP_SHELL
+    : request.url.split('#')[0];
+  if (!precached.has(url)) return;
+  event.respondWith(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.match(url))
+      .then(cached => cached ?? fetch(request))
+  );
+});
+
+// Monitoring alarms are notifications; tapping one brings the monitoring page back up
+scope.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(scope.clients.matchAll({ type: 'window' }).then(windows =>
+    windows.length > 0 ? windows[0].focus() : scope.clients.openWindow(APP_SHELL)
+  ));
+});
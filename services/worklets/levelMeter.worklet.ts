@@ -0,0 +1,96 @@
+// Runs in the AudioWorkletGlobalScope, which the DOM lib does not describe
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+export interface LevelMeterOptions {
+  riseTime: number;       // Exponential time constant while the level rises (s)
+  fallTime: number;       // ... and while it falls (s)
+  reportInterval: number; // Seconds between reports posted to the main thread
+}
+
+export interface LevelMeterReport {
+  meanSquare: number;     // Time-weighted mean square at the end of the block
+  maxMeanSquare: number;  // Extremes of the time-weighted mean square within the block
+  minMeanSquare: number;
+  energy: number;         // Sum of squared samples in the block, for Leq integration
+  samples: number;
+  peak: number;           // Largest absolute sample in the block
+}
+
+// Posted to the node's port to send reports elsewhere, e.g. straight to a worker; answered with 'connected'
+export interface ReportTarget {
+  port: MessagePort;
+}
+
+const smoothing = (timeConstant: number) => 1 - Math.exp(-1 / (timeConstant * sampleRate));
+
+class LevelMeterProcessor extends AudioWorkletProcessor {
+  private riseCoeff: number;
+  private fallCoeff: number;
+  private reportSamples: number;
+  private out: MessagePort;
+
+  private meanSquare = 0;
+  private maxMeanSquare = 0;
+  private minMeanSquare = Infinity;
+  private energy = 0;
+  private samples = 0;
+  private peak = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { riseTime, fallTime, reportInterval } = options.processorOptions as LevelMeterOptions;
+    this.riseCoeff = smoothing(riseTime);
+    this.fallCoeff = smoothing(fallTime);
+    this.reportSamples = Math.max(1, Math.round(reportInterval * sampleRate));
+    this.out = this.port;
+    this.port.onmessage = (e: MessageEvent<ReportTarget>) => {
+      this.out = e.data.port;
+      this.port.postMessage('connected');
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      const square = channel[i] * channel[i];
+      const coeff = square > this.meanSquare ? this.riseCoeff : this.fallCoeff;
+      this.meanSquare += (square - this.meanSquare) * coeff;
+
+      if (this.meanSquare > this.maxMeanSquare) this.maxMeanSquare = this.meanSquare;
+      if (this.meanSquare < this.minMeanSquare) this.minMeanSquare = this.meanSquare;
+      this.energy += square;
+      this.samples++;
+      if (Math.abs(channel[i]) > this.peak) this.peak = Math.abs(channel[i]);
+
+      if (this.samples >= this.reportSamples) this.report();
+    }
+    return true;
+  }
+
+  private report() {
+    const report: LevelMeterReport = {
+      meanSquare: this.meanSquare,
+      maxMeanSquare: this.maxMeanSquare,
+      minMeanSquare: this.minMeanSquare,
+      energy: this.energy,
+      samples: this.samples,
+      peak: this.peak
+    };
+    this.out.postMessage(report);
+
+    this.maxMeanSquare = 0;
+    this.minMeanSquare = Infinity;
+    this.energy = 0;
+    this.samples = 0;
+    this.peak = 0;
+  }
+}
+
+registerProcessor('level-meter', LevelMeterProcessor);
@@ -0,0 +1,51 @@
+// Runs in the AudioWorkletGlobalScope, which the DOM lib does not describe
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+const CHUNK_SAMPLES = 8192;
+
+export interface PcmChunk {
+  samples: Float32Array;
+  final: boolean; // Reply to a 'flush' request; nothing follows it
+}
+
+// Forwards raw mono PCM to the main thread in fixed-size transferable chunks
+class PcmRecorderProcessor extends AudioWorkletProcessor {
+  private chunk = new Float32Array(CHUNK_SAMPLES);
+  private filled = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.port.onmessage = (e: MessageEvent<'flush'>) => {
+      if (e.data === 'flush') this.flush(true);
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, CHUNK_SAMPLES - this.filled);
+      this.chunk.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === CHUNK_SAMPLES) this.flush();
+    }
+    return true;
+  }
+
+  private flush(final = false) {
+    const out = this.filled === CHUNK_SAMPLES ? this.chunk : this.chunk.slice(0, this.filled);
+    const message: PcmChunk = { samples: out, final };
+    this.port.postMessage(message, [out.buffer]);
+    this.chunk = new Float32Array(CHUNK_SAMPLES);
+    this.filled = 0;
+  }
+}
+
+registerProcessor('pcm-recorder', PcmRecorderProcessor);
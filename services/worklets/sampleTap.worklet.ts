@@ -0,0 +1,65 @@
+import type { ReportTarget } from './levelMeter.worklet';
+
+// Runs in the AudioWorkletGlobalScope, which the DOM lib does not describe
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+export interface SampleTapOptions {
+  chunkSamples: number;
+}
+
+// Chunks go out transferred; the receiver hands them back through the same port for reuse
+export interface SampleChunk {
+  samples: Float32Array;
+}
+
+const POOL_LIMIT = 8;
+
+// Forwards the analysed signal in fixed-size chunks to the port it is given
+class SampleTapProcessor extends AudioWorkletProcessor {
+  private chunkSamples: number;
+  private chunk: Float32Array;
+  private filled = 0;
+  private pool: Float32Array[] = [];
+  private out: MessagePort | null = null;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.chunkSamples = (options.processorOptions as SampleTapOptions).chunkSamples;
+    this.chunk = new Float32Array(this.chunkSamples);
+    this.port.onmessage = (e: MessageEvent<ReportTarget>) => {
+      this.out = e.data.port;
+      this.out.onmessage = (returned: MessageEvent<SampleChunk>) => {
+        if (this.pool.length < POOL_LIMIT) this.pool.push(returned.data.samples);
+      };
+      this.port.postMessage('connected');
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel || !this.out) return true;
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.chunkSamples - this.filled);
+      this.chunk.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.chunkSamples) this.send();
+    }
+    return true;
+  }
+
+  private send() {
+    const message: SampleChunk = { samples: this.chunk };
+    this.out!.postMessage(message, [this.chunk.buffer]);
+    this.chunk = this.pool.pop() ?? new Float32Array(this.chunkSamples);
+    this.filled = 0;
+  }
+}
+
+registerProcessor('sample-tap', SampleTapProcessor);
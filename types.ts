@@ -1,31 +1,448 @@
 
 export enum DiagnosticStatus {
   NORMAL = 'NORMAL',
+  WARNING = 'WARNING',
   ABNORMAL = 'ABNORMAL',
+  INDETERMINATE = 'INDETERMINATE', // Too close to the background to grade
   IDLE = 'IDLE'
 }
 
+export enum FrequencyWeighting {
+  A = 'A',
+  C = 'C',
+  Z = 'Z'
+}
+
+export enum TimeWeighting {
+  FAST = 'FAST',
+  SLOW = 'SLOW',
+  IMPULSE = 'IMPULSE'
+}
+
+export enum BandResolution {
+  OCTAVE = 'OCTAVE',
+  THIRD_OCTAVE = 'THIRD_OCTAVE'
+}
+
+// Band levels in dB, aligned with OCTAVE_BANDS / THIRD_OCTAVE_BANDS
+export interface BandSpectrum {
+  octave: number[];
+  thirdOctave: number[];
+}
+
+// Allowed level per band, keyed by nominal mid-band frequency (Hz)
+export interface BandLimits {
+  resolution: BandResolution;
+  maxLevels: Record<number, number>;
+}
+
+// Operating fundamental a standard expects, e.g. shaft speed (RPM / 60) or 2x line frequency
+export interface ExpectedFundamental {
+  frequency: number;  // Hz
+  tolerance: number;  // Allowed deviation as a fraction of frequency
+  source: string;     // What the fundamental represents, shown to the technician
+}
+
+export enum ToneKind {
+  HARMONIC = 'HARMONIC',
+  SIDEBAND = 'SIDEBAND',
+  UNRELATED = 'UNRELATED'
+}
+
+export interface TonalComponent {
+  frequency: number;  // Interpolated (Hz)
+  level: number;      // dB, same weighting as the run
+  prominence: number; // dB above the local spectral floor
+  kind: ToneKind;
+  order?: number;     // Harmonic number, or the harmonic a sideband sits beside
+}
+
+export interface TonalAnalysis {
+  fundamental: number | null;
+  fundamentalConfirmed: boolean; // False when no tone was found near the declared fundamental
+  components: TonalComponent[];
+}
+
+// How a diagnostic is taken; every run at every position feeds one combined result
+export interface MeasurementProtocol {
+  settleSeconds: number;   // Discarded warm-up before each run
+  durationSeconds: number; // Length of each measured run
+  repeats: number;         // Runs per position, averaged together
+  positions: string[];     // Named measurement points, e.g. drive end; empty = a single unnamed point
+}
+
+export interface ProtocolStep {
+  position: string | null;
+  repeat: number; // 1-based run number at this position
+}
+
+export enum ProtocolPhase {
+  POSITION = 'POSITION', // Waiting for the technician to move to the step's position
+  SETTLE = 'SETTLE',
+  MEASURE = 'MEASURE'
+}
+
+export interface CompletedRun {
+  position: string | null;
+  summary: MeasurementSummary;
+}
+
+// Where a technician is in a protocol; finished runs accumulate until the last step
+export interface ProtocolRun {
+  protocol: MeasurementProtocol;
+  steps: ProtocolStep[];
+  index: number;
+  phase: ProtocolPhase;
+  remaining: number; // Seconds left in SETTLE or MEASURE
+  results: CompletedRun[];
+  keepClip: boolean; // Capture the first run's audio
+}
+
+// Averaged result of the runs at one named position
+export interface PointResult {
+  position: string;
+  runs: number;
+  leq: number;
+  lmax: number;
+  peakFrequency: number;
+  status: DiagnosticStatus;
+}
+
 export interface MachineStandard {
   id: string;
   name: string;
   category: string;
   maxDb: number;
+  weighting: FrequencyWeighting; // Weighting that maxDb is specified in
   peakFreqRange: [number, number]; // Expected operational frequency range
+  bandLimits?: BandLimits; // Band envelope, in the same weighting as maxDb
+  expectedFundamental?: ExpectedFundamental; // Sidebands or unrelated tones then count as ABNORMAL
+  protocol?: MeasurementProtocol; // Defaults to DEFAULT_PROTOCOL
+  assetTag?: string;
+  location?: string;
 }
 
 export interface AudioMetrics {
   db: number;
   peakFrequency: number;
+  snr: number; // Spectral signal-to-noise estimate (dB)
   isStable: boolean;
   status: DiagnosticStatus;
 }
 
+export interface LevelStatistics {
+  leq: number;  // Energy-averaged level over the window
+  lmax: number;
+  lmin: number;
+  l10: number;  // Level exceeded 10% of the time
+  l50: number;
+  l90: number;
+}
+
+export interface MeasurementSummary extends LevelStatistics {
+  peakFrequency: number;
+  peakProminence: number; // Height of the peak above the spectral floor (dB)
+  bands: BandSpectrum;
+  spectrum: SpectrumSnapshot;
+  exceededBands: number[]; // Nominal frequencies above the standard's envelope
+  tonal: TonalAnalysis;
+  status: DiagnosticStatus;
+  frameCount: number;
+  durationMs: number;
+  levels: number[]; // Time-weighted level at every meter report, so runs can be pooled
+}
+
+// Averaged spectrum of a window on a fixed log-frequency grid, so any two records can be overlaid
+export interface SpectrumSnapshot {
+  minFrequency: number;    // Centre of the first point (Hz)
+  pointsPerOctave: number;
+  levels: number[];        // dB in the record's weighting, one per point
+}
+
+// Two snapshots on their shared points; delta is null where both are below the band floor
+export interface SpectrumComparison {
+  frequencies: number[];
+  current: number[];
+  reference: number[];
+  delta: (number | null)[];
+}
+
+// Healthy-state fingerprint of one machine
+export interface MachineBaseline {
+  machineId: string;
+  recordedAt: number;
+  weighting: FrequencyWeighting;
+  levels: LevelStatistics;
+  peakFrequency: number;
+  bands: BandSpectrum;
+}
+
+export interface BandDrift {
+  nominal: number; // Band nominal frequency (Hz)
+  delta: number;   // dB relative to baseline
+}
+
+export interface BaselineComparison {
+  baselineRecordedAt: number;
+  levelDelta: number;       // Leq minus baseline Leq (dB)
+  spectralDistance: number; // RMS of one-third-octave deltas (dB)
+  driftedBands: BandDrift[];
+  status: DiagnosticStatus;
+}
+
+// What a measurement run produces
+export enum RunKind {
+  DIAGNOSTIC = 'DIAGNOSTIC',
+  BASELINE = 'BASELINE',    // Healthy reference for later comparison
+  BACKGROUND = 'BACKGROUND' // Machine off, for background correction
+}
+
+// Level with the machine off, measured before the diagnostic runs it corrects
+export interface BackgroundLevel {
+  machineId: string;
+  leq: number;
+  measuredAt: number;
+}
+
+export enum BackgroundValidity {
+  NEGLIGIBLE = 'NEGLIGIBLE', // Machine more than 10 dB above background; no correction
+  CORRECTED = 'CORRECTED',
+  INVALID = 'INVALID'        // Machine less than 3 dB above background; the level is an upper bound
+}
+
+export interface BackgroundCorrection {
+  backgroundDb: number;
+  measuredAt: number; // When the background was measured
+  difference: number; // Uncorrected machine Leq minus background (dB)
+  correction: number; // Subtracted from the machine Leq (dB)
+  validity: BackgroundValidity;
+}
+
+export enum CalibrationMethod {
+  CALIBRATOR = 'CALIBRATOR',           // Acoustic calibrator on the microphone
+  REFERENCE_METER = 'REFERENCE_METER'  // Side-by-side with a trusted sound level meter
+}
+
+// Reading of one check point once the profile's offset is applied
+export interface CalibrationCheck {
+  referenceDb: number;
+  measuredDb: number;
+}
+
+// Microphone response relative to its 1 kHz sensitivity; the correction is its inverse
+export interface ResponsePoint {
+  frequency: number;
+  db: number;
+}
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  deviceId: string;     // MediaTrackSettings.deviceId of the calibrated input
+  deviceLabel: string;
+  offset: number;       // dB SPL at 0 dBFS
+  method: CalibrationMethod;
+  calibratedAt: number;
+  checks: CalibrationCheck[];
+  responseCurve?: ResponsePoint[];
+}
+
+export enum CalibrationState {
+  CURRENT = 'CURRENT',
+  STALE = 'STALE',     // Older than the recalibration interval
+  FAILED = 'FAILED',   // A check point missed its reference by more than the tolerance
+  MISSING = 'MISSING'  // The active input has no profile
+}
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// What the browser reports it actually applied to the capture track; undefined = not reported
+export interface CaptureSettings extends InputDevice {
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+  sampleRate?: number;
+  channelCount?: number;
+}
+
+export interface AudioClip {
+  wav: Blob;
+  sampleRate: number;
+  durationMs: number;
+}
+
+// Clip audio lives in its own store; the record only carries its description
+export type ClipInfo = Omit<AudioClip, 'wav'>;
+
 export interface HistoryEntry {
   id: string;
   machineId: string;
   machineName: string;
   timestamp: number;
   status: DiagnosticStatus;
-  db: number;
+  db: number; // Leq of the diagnostic window
   peakFrequency: number;
+  weighting?: FrequencyWeighting; // Absent on older records, which used the approximate A chain
+  timeWeighting?: TimeWeighting;
+  bands?: BandSpectrum;
+  spectrum?: SpectrumSnapshot; // Absent on records saved before snapshots were kept
+  exceededBands?: number[];
+  tonal?: TonalAnalysis;
+  baseline?: BaselineComparison; // Deviation from the machine's healthy baseline, if one existed
+  clip?: ClipInfo; // Present when the raw audio of the window was kept
+  sourceFile?: string; // Name of the uploaded recording, for records analyzed offline
+  levels?: LevelStatistics; // Absent on records saved before window statistics existed
+  points?: PointResult[]; // Per-position results of a multi-point protocol
+  background?: BackgroundCorrection; // db is the corrected level when present
+  calibration?: CalibrationSnapshot;
+  technician?: string;
+  assetTag?: string; // Physical unit measured, copied from the machine when the record was made
+  location?: string;
+}
+
+// Calibration the record was measured with, kept so reports stay traceable after recalibration
+export interface CalibrationSnapshot {
+  offset: number;          // dB SPL at 0 dBFS
+  profileName?: string;    // Absent when the manual full-scale level was used
+  calibratedAt?: number;
+  responseCorrected: boolean;
+}
+
+export interface TrendPoint {
+  timestamp: number;
+  value: number;
+}
+
+// Least-squares line through a series of readings
+export interface TrendFit {
+  origin: number;      // Timestamp the line is anchored at
+  intercept: number;   // Fitted value at origin
+  slopePerDay: number;
+  r2: number;          // Share of the variance the line explains
+  count: number;
+}
+
+export interface DegradationForecast {
+  fit: TrendFit;
+  crossingAt: number | null; // When the fitted level reaches the limit; null while it isn't rising
+}
+
+// Dose rule: how long a level may last before it uses up the whole allowance
+export interface DoseCriterion {
+  name: string;
+  criterionLevel: number; // dB(A) allowed for the full reference duration (8 h)
+  exchangeRate: 3 | 5;    // dB that halves the allowed time
+  thresholdLevel: number; // Levels below this add no dose
+}
+
+// Running integration of a dosimetry session
+export interface DoseState {
+  criteria: DoseCriterion[];
+  seconds: number;   // Integrated time
+  exposure: number;  // Sum of 10^(Leq/10)·dt over every block, for LAeq
+  doses: number[];   // Fraction of the allowance used, per criterion
+  lmax: number;      // Highest Slow A level (dB)
+  peak: number | null; // Highest C-weighted peak (dB); null without a peak chain
+}
+
+export interface DoseResult {
+  criterion: DoseCriterion;
+  dose: number;          // % of the allowance so far
+  twa: number;           // 8 h time-weighted average implied by the dose (dB)
+  projectedDose: number; // % at the end of the shift if exposure continues as so far
+}
+
+// A finished dosimetry session, stored separately from diagnostic records
+export interface DosimetryRecord {
+  id: string;
+  subject: string;       // Worker, role or area monitored
+  startedAt: number;
+  endedAt: number;
+  durationSeconds: number;
+  shiftHours: number;    // Shift length the projection assumes
+  laeq: number;
+  lex8h: number;         // Daily exposure level, LEX,8h (ISO 9612)
+  lamax: number;
+  lcpeak: number | null; // Null when the session had no peak chain
+  results: DoseResult[];
+  calibration?: CalibrationSnapshot;
+  technician?: string;
+}
+
+// One rolling interval of unattended monitoring
+export interface MonitorInterval {
+  startedAt: number;
+  endedAt: number; // Longer than the interval when the browser paused the audio
+  leq: number;
+  lmax: number;
+  status: DiagnosticStatus;
+}
+
+// A stretch of ABNORMAL intervals long enough to raise an alarm
+export interface AlarmEvent {
+  raisedAt: number;        // Start of the first abnormal interval of the stretch
+  clearedAt: number | null; // Null while the alarm is still active
+  maxLeq: number;
+}
+
+// Progress towards raising or clearing an alarm, carried from interval to interval
+export interface AlarmTracker {
+  abnormalCount: number; // Consecutive ABNORMAL intervals
+  clearCount: number;    // Consecutive intervals below the clear level while an alarm is active
+}
+
+// A monitoring session of one machine, kept on this device
+export interface MonitoringSession {
+  id: string;
+  machineId: string;
+  machineName: string;
+  startedAt: number;
+  endedAt: number | null; // Null while running, or if the app closed mid-session
+  intervalSeconds: number;
+  raiseIntervals: number;
+  intervals: MonitorInterval[];
+  alarms: AlarmEvent[];
+  calibration?: CalibrationSnapshot;
+}
+
+// Record collections the sync endpoint accepts; also the path segment they are sent under
+export enum RecordKind {
+  HISTORY = 'history',
+  DOSIMETRY = 'dosimetry'
+}
+
+export enum SyncState {
+  PENDING = 'PENDING',   // Waiting for its next attempt
+  CONFLICT = 'CONFLICT', // The server holds a different version; a person has to choose
+  REJECTED = 'REJECTED'  // Refused as invalid; only retried on request
+}
+
+// A locally saved record that has not reached the sync endpoint yet
+export interface OutboxItem {
+  key: string;           // `${kind}/${recordId}`
+  kind: RecordKind;
+  recordId: string;
+  queuedAt: number;
+  state: SyncState;
+  attempts: number;      // Failed attempts since queued or last resolved
+  nextAttemptAt: number;
+  lastError?: string;
+  baseRevision?: string; // Server revision the local copy may replace, once a conflict was resolved in its favour
+  remote?: { record: unknown; revision: string }; // Server copy reported by the last conflict
+}
+
+export interface SyncSettings {
+  endpoint: string; // Base URL of the records API; empty turns sync off
+  token: string;    // Sent as a bearer token when set
+}
+
+export interface HistoryFilter {
+  machineId?: string;
+  status?: DiagnosticStatus;
+  from?: number; // Timestamp bounds, inclusive
+  to?: number;
+  text?: string;
 }
@@ -1,7 +1,61 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readdirSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER = 'sw.js';
+
+// Files copied from public/, relative to the site root
+const publicFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true, recursive: true })
+    .filter(entry => entry.isFile())
+    .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+
+/**
+ * Builds services/workers/serviceWorker.ts as its own entry at the site root,
+ * where its scope covers the whole app, and hands it the list of files to
+ * precache. The worker must not import anything, or it would share chunks.
+ */
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    config: () => ({
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            sw: path.resolve(__dirname, 'services/workers/serviceWorker.ts')
+          },
+          output: {
+            entryFileNames: chunk => chunk.name === 'sw' ? SERVICE_WORKER : 'assets/[name]-[hash].js'
+          }
+        }
+      }
+    }),
+    configResolved: config => {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const worker = bundle[SERVICE_WORKER];
+      if (worker?.type !== 'chunk') return;
+      const files = [
+        './',
+        // Every browser with service workers takes the woff2 fonts, so the ttf fallbacks stay out
+        ...Object.keys(bundle).filter(file => file !== SERVICE_WORKER && !file.endsWith('.map') && !file.endsWith('.ttf')),
+        ...(publicDir ? publicFiles(publicDir) : [])
+      ];
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      worker.code = worker.code
+        .replace('__PRECACHE_MANIFEST__', JSON.stringify(files))
+        .replace('__PRECACHE_VERSION__', JSON.stringify(version));
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +63,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)